@@ -0,0 +1,46 @@
+import { HttpError } from './errors.js';
+
+// Records are archived rather than deleted: an archived
+// record drops out of lists and pickers but everything that refers to it keeps working.
+// Only an archived record can be deleted permanently.
+
+/** `DELETE ...?permanent=true` deletes instead of archiving. */
+export const isPermanentDelete = (query) => query.permanent === 'true';
+
+/**
+ * Locks and returns the row with `id`, or fails with a 404 naming `label`.
+ * Must run inside a transaction.
+ */
+export const lockRecord = async (connection, table, id, label) => {
+  const [[row]] = await connection.query(`SELECT * FROM ${table} WHERE id = :id FOR UPDATE`, { id });
+  if (!row) {
+    throw new HttpError(404, `${label} not found`);
+  }
+  return row;
+};
+
+/**
+ * Archives a row read with `lockRecord` and returns its archive date. Archiving an
+ * archived record keeps its original date.
+ */
+export const archiveRecord = async (connection, table, row) => {
+  const archivedAt = row.archived_at || new Date().toISOString();
+  await connection.query(`UPDATE ${table} SET archived_at = :archivedAt, version = version + 1 WHERE id = :id`, { id: row.id, archivedAt });
+  return archivedAt;
+};
+
+export const restoreRecord = (connection, table, id) =>
+  connection.query(`UPDATE ${table} SET archived_at = NULL, version = version + 1 WHERE id = :id`, { id });
+
+export const assertArchived = (row, name) => {
+  if (!row.archived_at) {
+    throw new HttpError(409, `${name} must be archived before it can be deleted permanently`);
+  }
+};
+
+/** Archived records are read-only until restored. Takes a row or a mapped record. */
+export const assertNotArchived = (record, name) => {
+  if (record.archived_at || record.archivedAt) {
+    throw new HttpError(409, `${name} is archived; restore it to change it`);
+  }
+};
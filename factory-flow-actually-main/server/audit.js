@@ -0,0 +1,58 @@
+import crypto from 'node:crypto';
+import { parseJsonField } from './db.js';
+import { queueChange } from './events.js';
+
+export const AUDIT_ENTITY_TYPES = ['user', 'customer', 'supplier', 'unit', 'material', 'product', 'order', 'purchase_order'];
+
+export const mapAuditEntry = (row) => ({
+  id: row.id,
+  userId: row.user_id || undefined,
+  userName: row.user_name || undefined,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  action: row.action,
+  changes: parseJsonField(row.changes),
+  ip: row.ip || undefined,
+  createdAt: row.created_at,
+});
+
+const same = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Bookkeeping that changes with every write and says nothing about what changed.
+const IGNORED_FIELDS = ['version'];
+
+/**
+ * Field-level difference between two versions of a record as `[{ field, before, after }]`.
+ * Either side may be undefined, for records being created or deleted. Fields are compared
+ * by value, so a BOM or order line list shows up as one change holding both lists.
+ */
+export const diffRecords = (before = {}, after = {}) =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !IGNORED_FIELDS.includes(field) && !same(before[field], after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+
+/**
+ * Records a mutation made by the request's user. `before` and `after` are the record as
+ * the API returns it; nothing is written when they do not differ. Call it inside the
+ * transaction making the change so the two are committed together. The change is also
+ * published to open clients once the request succeeds.
+ */
+export const recordAudit = async (connection, req, { entityType, entityId, action, before, after }) => {
+  const changes = diffRecords(before, after);
+  if (changes.length === 0) return;
+  await connection.query(
+    `INSERT INTO audit_log (id, user_id, entity_type, entity_id, action, changes, ip, created_at)
+     VALUES (:id, :user_id, :entity_type, :entity_id, :action, :changes, :ip, :created_at)`,
+    {
+      id: crypto.randomUUID(),
+      user_id: req.user?.id ?? null,
+      entity_type: entityType,
+      entity_id: entityId,
+      action,
+      changes: JSON.stringify(changes),
+      ip: req.ip ?? null,
+      created_at: new Date().toISOString(),
+    }
+  );
+  queueChange(req, { entityType, entityId, action });
+};
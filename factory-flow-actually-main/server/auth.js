@@ -0,0 +1,60 @@
+import crypto from 'node:crypto';
+
+const SCRYPT_KEYLEN = 64;
+const HASH_PREFIX = 'scrypt';
+
+const sessionSecret = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+
+if (!process.env.SESSION_SECRET) {
+  process.stderr.write('SESSION_SECRET is not set; sessions will not survive a server restart\n');
+}
+
+export const SESSION_TTL_MS = Number(process.env.SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+
+const scrypt = (password, salt) =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEYLEN, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+export const isPasswordHash = (value) =>
+  typeof value === 'string' && value.startsWith(`${HASH_PREFIX}$`);
+
+export const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derivedKey = await scrypt(password, salt);
+  return `${HASH_PREFIX}$${salt}$${derivedKey.toString('hex')}`;
+};
+
+export const verifyPassword = async (password, stored) => {
+  if (!isPasswordHash(stored)) return false;
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const derivedKey = await scrypt(password, salt);
+  return expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey);
+};
+
+const sign = (value) => crypto.createHmac('sha256', sessionSecret).update(value).digest('base64url');
+
+export const createSessionId = () => crypto.randomBytes(32).toString('hex');
+
+export const signSessionId = (sessionId) => `${sessionId}.${sign(sessionId)}`;
+
+// Returns the session id carried by a token, or null when the signature does not match.
+export const readSessionId = (token) => {
+  if (typeof token !== 'string') return null;
+  const [sessionId, signature] = token.split('.');
+  if (!sessionId || !signature) return null;
+  const expected = Buffer.from(sign(sessionId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  return sessionId;
+};
+
+export const readBearerToken = (req) => {
+  const header = req.get('authorization') || '';
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+};
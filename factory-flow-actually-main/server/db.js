@@ -0,0 +1,33 @@
+import mysql from 'mysql2/promise';
+
+export const pool = mysql.createPool({
+  host: process.env.MYSQL_HOST || '127.0.0.1',
+  user: process.env.MYSQL_USER || 'root',
+  password: process.env.MYSQL_PASSWORD || '',
+  database: process.env.MYSQL_DATABASE || 'factory_flow',
+  port: Number(process.env.MYSQL_PORT || 3306),
+  waitForConnections: true,
+  connectionLimit: 10,
+  namedPlaceholders: true,
+});
+
+export const withTransaction = async (work) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+export const parseJsonField = (value) => {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return JSON.parse(value);
+  return value;
+};
@@ -0,0 +1,81 @@
+import { hasPermission } from '../shared/permissions.js';
+
+// Live change feed. Every audited change is pushed to the open browser tabs over
+// Server-Sent Events, so they can refresh what they show without a reload.
+
+/** The permission a client needs to hear about changes to each audited entity type. */
+const ENTITY_RESOURCES = {
+  user: 'users',
+  customer: 'customers',
+  supplier: 'suppliers',
+  unit: 'materials',
+  material: 'materials',
+  product: 'products',
+  order: 'orders',
+  purchase_order: 'purchaseOrders',
+};
+
+// Under nginx's default 60 second read timeout, so idle streams stay open.
+const HEARTBEAT_MS = 25_000;
+
+const clients = new Set();
+
+/** `GET /api/events`: keeps the response open and writes a `change` event for each change. */
+export const openEventStream = (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stops nginx from buffering the stream.
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const client = { res, role: req.user.role };
+  clients.add(client);
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+};
+
+/**
+ * Notes a change made by the request, to be published once it has succeeded. Changes are
+ * noted inside the transaction, so publishing them any earlier could announce a rollback.
+ */
+export const queueChange = (req, { entityType, entityId, action }) => {
+  req.changes ??= [];
+  req.changes.push({
+    entityType,
+    entityId,
+    action,
+    userId: req.user?.id,
+    userName: req.user ? `${req.user.name} ${req.user.surname}` : undefined,
+    // Set by the frontend, so a tab can tell its own changes from everyone else's.
+    clientId: req.get('x-client-id') || undefined,
+    at: new Date().toISOString(),
+  });
+};
+
+/** Forgets the changes a request noted, for work it rolled back even though it succeeds. */
+export const discardChanges = (req) => {
+  req.changes = [];
+};
+
+const publish = (change) => {
+  const resource = ENTITY_RESOURCES[change.entityType];
+  const message = `event: change\ndata: ${JSON.stringify(change)}\n\n`;
+  for (const client of clients) {
+    if (hasPermission(client.role, resource, 'read')) client.res.write(message);
+  }
+};
+
+/** Publishes the changes a request noted once its response has gone out successfully. */
+export const publishChanges = (req, res, next) => {
+  res.on('finish', () => {
+    if (res.statusCode < 400) req.changes?.forEach(publish);
+  });
+  next();
+};
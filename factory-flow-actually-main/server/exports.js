@@ -0,0 +1,60 @@
+import { DELIMITERS, formatCsvRow } from '../shared/csv.js';
+import { HttpError } from './errors.js';
+
+// CSV exports, written to the response as they are read.
+
+/** The `delimiter` query parameter: `,` (the default), `;` or a tab. */
+export const parseDelimiter = (value) => {
+  const delimiter = value === undefined || value === '' ? ',' : String(value);
+  if (!DELIMITERS.includes(delimiter)) {
+    throw new HttpError(400, 'delimiter must be a comma, a semicolon or a tab');
+  }
+  return delimiter;
+};
+
+/** A money amount rounded to cents, as the list pages show it. */
+export const money = (value) => Math.round(value * 100) / 100;
+
+/** The date part of an ISO timestamp, or undefined. */
+export const day = (value) => value?.slice(0, 10);
+
+// Resolves once the response can take more, or has been closed by the client.
+const drained = (res) =>
+  new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+
+/**
+ * Streams a CSV download. The file starts with a UTF-8 byte order mark, so that Excel reads
+ * it as UTF-8, and then the header row. Each batch from `batches` is mapped to rows with
+ * `toRows`, which may give several rows per record. Lines end in CRLF. With `;` as the
+ * delimiter, numbers get a decimal comma, as in the locales whose spreadsheets use `;`.
+ */
+export const sendCsv = async (res, { filename, delimiter, headers, batches, toRows }) => {
+  const decimalComma = delimiter === ';';
+  const format = (fields) =>
+    `${formatCsvRow(
+      fields.map((field) => (decimalComma && typeof field === 'number' ? String(field).replace('.', ',') : field)),
+      delimiter
+    )}\r\n`;
+
+  res.set({
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}_${new Date().toISOString().slice(0, 10)}.csv"`,
+    // The frontend is served from another origin in development and reads the file name.
+    'Access-Control-Expose-Headers': 'Content-Disposition',
+  });
+  res.write(`\uFEFF${format(headers)}`);
+  for await (const batch of batches) {
+    if (res.destroyed) return;
+    const chunk = batch.flatMap(toRows).map(format).join('');
+    if (!res.write(chunk)) await drained(res);
+  }
+  res.end();
+};
@@ -0,0 +1,114 @@
+import { hasPermission } from '../shared/permissions.js';
+import { pool } from './db.js';
+import { HttpError } from './errors.js';
+import { discardChanges } from './events.js';
+
+// CSV imports: rows parsed and grouped into records, then saved together in one transaction.
+
+/** Names are matched as the database compares them: ignoring case and surrounding spaces. */
+export const nameKey = (name) => name.trim().toLowerCase();
+
+// Upserting changes existing records, so it takes the update permission as well.
+export const assertImportAllowed = (req, resource) => {
+  if (req.body.mode === 'upsert' && !hasPermission(req.user.role, resource, 'update')) {
+    throw new HttpError(403, `You do not have permission to update ${resource}`);
+  }
+};
+
+/**
+ * Parses each row with `schema` and groups the rows by the name `keyOf` picks from them, in
+ * file order. Issues name the row by its index. With `single`, a name may appear only once.
+ */
+export const groupImportRows = (rows, schema, keyOf, { single = false } = {}) => {
+  const issues = [];
+  const groups = new Map();
+  rows.forEach((cells, index) => {
+    const filled = Object.fromEntries(Object.entries(cells).filter(([, value]) => value.trim() !== ''));
+    const result = schema.safeParse(filled);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => issues.push({ path: ['rows', index, ...issue.path].join('.'), message: issue.message }));
+      return;
+    }
+    const key = nameKey(keyOf(result.data));
+    const group = groups.get(key);
+    if (group && single) {
+      issues.push({ path: `rows.${index}`, message: 'Appears more than once in the file' });
+    } else if (group) {
+      group.push({ index, row: result.data });
+    } else {
+      groups.set(key, [{ index, row: result.data }]);
+    }
+  });
+  return { groups: [...groups.values()], issues };
+};
+
+/**
+ * Refuses to save over `current`, the record already holding the name, unless upserting.
+ * Archived records are not updated; they must be restored first.
+ */
+export const assertImportTarget = (req, current, label) => {
+  if (!current) return;
+  if (req.body.mode !== 'upsert') {
+    throw new HttpError(409, `${label} already exists`);
+  }
+  if (current.archived_at) {
+    throw new HttpError(409, `${label} is archived; restore it to update it`);
+  }
+};
+
+/** A table's records by name, or whatever `column` holds, archived ones included. */
+export const selectByName = async (connection, table, column = 'name') => {
+  const [rows] = await connection.query(`SELECT id, ${column} AS name, archived_at FROM ${table}`);
+  return new Map(rows.map((row) => [nameKey(row.name), row]));
+};
+
+/**
+ * Runs `work` in one transaction and reports what it did: every record is saved, or none is.
+ * `work` calls `save(rows, key, action, write)` for each record. Each write runs under a
+ * savepoint, so one that is refused is undone and reported against its first row while the
+ * rest carry on, and a single preview lists every problem. `issues` holds those found before
+ * saving. A dry run is always rolled back; otherwise any issue rolls back the lot with a 400.
+ */
+export const runImport = async (req, issues, work) => {
+  const { dryRun } = req.body;
+  const records = [];
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const save = async (rows, key, action, write) => {
+      await connection.query('SAVEPOINT import_record');
+      try {
+        await write();
+        records.push({ key, action, rows });
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        await connection.query('ROLLBACK TO SAVEPOINT import_record');
+        issues.push({ path: `rows.${rows[0]}`, message: error.message });
+      }
+    };
+    await work(connection, save);
+    if (dryRun || issues.length > 0) {
+      await connection.rollback();
+    } else {
+      await connection.commit();
+    }
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  if (dryRun || issues.length > 0) discardChanges(req);
+  if (!dryRun && issues.length > 0) {
+    const rowCount = new Set(issues.map(({ path }) => path.split('.')[1])).size;
+    throw new HttpError(400, `${rowCount} ${rowCount === 1 ? 'row has' : 'rows have'} problems; nothing was imported`, { issues });
+  }
+  return {
+    dryRun,
+    created: records.filter(({ action }) => action === 'create').length,
+    updated: records.filter(({ action }) => action === 'update').length,
+    records,
+    issues,
+  };
+};
@@ -1,72 +1,105 @@
 import express from 'express';
 import cors from 'cors';
-import mysql from 'mysql2/promise';
+import crypto from 'node:crypto';
+import {
+  SESSION_TTL_MS,
+  createSessionId,
+  hashPassword,
+  readBearerToken,
+  readSessionId,
+  signSessionId,
+  verifyPassword,
+} from './auth.js';
+import { hasPermission } from '../shared/permissions.js';
+import { ORDER_STATUSES, canTransition } from '../shared/orderStatus.js';
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  PURCHASE_ORDER_STATUSES,
+  canTransitionPurchaseOrder,
+  receivedStatus,
+} from '../shared/purchaseOrderStatus.js';
+import { calculateMaterialRequirements } from '../shared/requirements.js';
+import { calculateReorderSuggestions } from '../shared/reorder.js';
+import { calculateProductCost, findBomCycle } from '../shared/bom.js';
+import { orderLinesTotal, priceOrderLine, purchaseOrderTotal } from '../shared/pricing.js';
+import {
+  customerSchema,
+  customerUpdateSchema,
+  importSchema,
+  materialImportRowSchema,
+  materialPriceSchema,
+  materialUpdateSchema,
+  newMaterialSchema,
+  newOrderSchema,
+  newUserSchema,
+  orderImportRowSchema,
+  orderRepriceSchema,
+  orderRequirementsSchema,
+  orderTransitionSchema,
+  orderUpdateSchema,
+  productImportRowSchema,
+  productSchema,
+  productUpdateSchema,
+  purchaseOrderSchema,
+  purchaseOrderTransitionSchema,
+  purchaseOrderUpdateSchema,
+  purchaseReceiptSchema,
+  stockMovementSchema,
+  supplierSchema,
+  supplierUpdateSchema,
+  unitSchema,
+  userUpdateSchema,
+} from '../shared/schemas.js';
+import { areUnitsCompatible } from '../shared/units.js';
+import { pool, withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { validateBody } from './validation.js';
+import { migrateUp } from './migrator.js';
+import { AUDIT_ENTITY_TYPES, mapAuditEntry, recordAudit } from './audit.js';
+import { openEventStream, publishChanges } from './events.js';
+import { assertImportAllowed, assertImportTarget, groupImportRows, nameKey, runImport, selectByName } from './imports.js';
+import { archiveRecord, assertArchived, assertNotArchived, isPermanentDelete, lockRecord, restoreRecord } from './archive.js';
+import { assertVersion } from './versions.js';
+import {
+  assertNoDependents,
+  attachBomLines,
+  attachOrderLines,
+  attachPurchaseOrderLines,
+  findCustomerDependents,
+  findMaterialDependents,
+  findProductDependents,
+  findSupplierDependents,
+  saveBomLines,
+  saveOrderLines,
+  savePurchaseOrderLines,
+} from './lines.js';
+import { day, money, parseDelimiter, sendCsv } from './exports.js';
+import { archivedFilter, containing, dateRangeFilter, listBatches, listPage, parseListQuery } from './listing.js';
+import { MATERIAL_COLUMNS, mapMaterialPrice, parseAsOf, recordMaterialPrice, selectMaterials } from './prices.js';
+import {
+  mapStockMovement,
+  onOrderQuantities,
+  openOrderDemand,
+  postStockMovement,
+  syncOrderStock,
+} from './stock.js';
 
 const app = express();
 
+// Behind the nginx proxy `req.ip` is only the client's address when the proxy is trusted.
+app.set('trust proxy', Number(process.env.TRUST_PROXY || 0));
 app.use(cors());
+// Imports carry a whole file; every other body stays under the default 100kb.
+app.use('/api/import', express.json({ limit: '10mb' }));
 app.use(express.json());
+app.use(publishChanges);
 
-const pool = mysql.createPool({
-  host: process.env.MYSQL_HOST || '127.0.0.1',
-  user: process.env.MYSQL_USER || 'root',
-  password: process.env.MYSQL_PASSWORD || '',
-  database: process.env.MYSQL_DATABASE || 'factory_flow',
-  port: Number(process.env.MYSQL_PORT || 3306),
-  waitForConnections: true,
-  connectionLimit: 10,
-  namedPlaceholders: true,
-});
-
-const ensureSchema = async () => {
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS users (
-      id VARCHAR(36) PRIMARY KEY,
-      email VARCHAR(255) UNIQUE NOT NULL,
-      name VARCHAR(255) NOT NULL,
-      surname VARCHAR(255) NOT NULL,
-      phone VARCHAR(50) NOT NULL,
-      role VARCHAR(20) NOT NULL,
-      password VARCHAR(255) NOT NULL
-    )
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS materials (
-      id VARCHAR(36) PRIMARY KEY,
-      name VARCHAR(255) NOT NULL,
-      cost DECIMAL(10,2) NOT NULL,
-      unit VARCHAR(50) NOT NULL,
-      stock DECIMAL(12,2) NOT NULL,
-      created_at VARCHAR(50) NOT NULL
-    )
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS products (
-      id VARCHAR(36) PRIMARY KEY,
-      name VARCHAR(255) NOT NULL,
-      materials JSON NOT NULL,
-      created_at VARCHAR(50) NOT NULL
-    )
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS orders (
-      id VARCHAR(36) PRIMARY KEY,
-      order_number VARCHAR(100) NOT NULL,
-      products JSON NOT NULL,
-      status VARCHAR(20) NOT NULL,
-      total_cost DECIMAL(12,2) NOT NULL,
-      leftovers JSON NOT NULL,
-      created_at VARCHAR(50) NOT NULL,
-      completed_at VARCHAR(50)
-    )
-  `);
-
+// Data the app needs on every start; schema changes live in server/migrations.
+const prepareData = async () => {
   const [rows] = await pool.query('SELECT COUNT(*) as count FROM users');
   const count = Array.isArray(rows) ? rows[0]?.count : 0;
   if (count === 0) {
+    const adminPassword = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
     await pool.query(
       `INSERT INTO users (id, email, name, surname, phone, role, password)
        VALUES (:id, :email, :name, :surname, :phone, :role, :password)`,
@@ -77,274 +110,2089 @@ const ensureSchema = async () => {
         surname: 'User',
         phone: '+370 600 00000',
         role: 'admin',
-        password: 'admin123',
+        password: await hashPassword(adminPassword),
       }
     );
+    if (!process.env.ADMIN_PASSWORD) {
+      process.stdout.write(`Seeded admin@company.com with generated password: ${adminPassword}\n`);
+    }
   }
-};
 
-const parseJsonField = (value) => {
-  if (value === null || value === undefined) return [];
-  if (typeof value === 'string') return JSON.parse(value);
-  return value;
+  // Orders confirmed before prices were locked get a one-time snapshot at current costs.
+  const [unpriced] = await pool.query("SELECT * FROM orders WHERE priced_at IS NULL AND status <> 'draft'");
+  if (unpriced.length > 0) {
+    const catalog = await loadCatalog(pool);
+    for (const order of await attachOrderLines(pool, unpriced.map(mapOrder))) {
+      const priced = priceOrder(order, catalog);
+      await pool.query('UPDATE orders SET total_cost = :total_cost, priced_at = :priced_at WHERE id = :id', orderParams(priced));
+      await saveOrderLines(pool, priced);
+    }
+  }
 };
 
 const asyncHandler = (handler) => (req, res, next) =>
   Promise.resolve(handler(req, res, next)).catch(next);
 
+const mapUser = (row) => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  surname: row.surname,
+  phone: row.phone,
+  role: row.role,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
+});
+
+// Order statistics come from `CUSTOMER_FROM`; cancelled orders are left out of them.
+const mapCustomer = (row) => ({
+  id: row.id,
+  name: row.name,
+  contactName: row.contact_name || undefined,
+  email: row.email || undefined,
+  phone: row.phone || undefined,
+  address: row.address || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
+  orderCount: Number(row.order_count),
+  lifetimeValue: Number(row.lifetime_value),
+  lastOrderAt: row.last_order_at || undefined,
+});
+
+const mapSupplier = (row) => ({
+  id: row.id,
+  name: row.name,
+  contactName: row.contact_name || undefined,
+  email: row.email || undefined,
+  phone: row.phone || undefined,
+  address: row.address || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
+});
+
+const mapUnit = (row) => ({
+  code: row.code,
+  name: row.name,
+  dimension: row.dimension,
+  factor: Number(row.factor),
+});
+
 const mapMaterial = (row) => ({
   id: row.id,
   name: row.name,
   cost: Number(row.cost),
   unit: row.unit,
   stock: Number(row.stock),
+  reorderPoint: row.reorder_point === null ? undefined : Number(row.reorder_point),
+  reorderQuantity: row.reorder_quantity === null ? undefined : Number(row.reorder_quantity),
+  safetyStock: row.safety_stock === null ? undefined : Number(row.safety_stock),
+  leadTimeDays: row.lead_time_days ?? undefined,
   createdAt: row.created_at,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
 });
 
+// BOM lines are attached with `attachBomLines`.
 const mapProduct = (row) => ({
   id: row.id,
   name: row.name,
-  materials: parseJsonField(row.materials),
+  materials: [],
   createdAt: row.created_at,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
 });
 
+// Lines and leftovers are attached with `attachOrderLines`.
 const mapOrder = (row) => ({
   id: row.id,
   orderNumber: row.order_number,
-  products: parseJsonField(row.products),
+  products: [],
   status: row.status,
   totalCost: Number(row.total_cost),
-  leftovers: parseJsonField(row.leftovers),
+  leftovers: [],
   createdAt: row.created_at,
   completedAt: row.completed_at || undefined,
+  pricedAt: row.priced_at || undefined,
+  customerId: row.customer_id || undefined,
+  deliveryDate: row.delivery_date || undefined,
+  notes: row.notes || undefined,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
+});
+
+// Lines are attached with `attachPurchaseOrderLines`; the supplier name comes from `PURCHASE_ORDER_FROM`.
+const mapPurchaseOrder = (row) => ({
+  id: row.id,
+  poNumber: row.po_number,
+  supplierId: row.supplier_id,
+  supplierName: row.supplier_name,
+  status: row.status,
+  lines: [],
+  totalCost: Number(row.total_cost),
+  expectedDate: row.expected_date || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  sentAt: row.sent_at || undefined,
+  receivedAt: row.received_at || undefined,
+  archivedAt: row.archived_at || undefined,
+  version: row.version,
 });
 
 app.get('/api/health', asyncHandler(async (_req, res) => {
   res.json({ status: 'ok' });
 }));
 
-app.get('/api/users', asyncHandler(async (_req, res) => {
-  const [rows] = await pool.query('SELECT * FROM users');
-  res.json(rows);
-}));
+const findSession = async (token) => {
+  const sessionId = readSessionId(token);
+  if (!sessionId) return null;
+  const [rows] = await pool.query(
+    `SELECT sessions.id AS session_id, sessions.expires_at, users.*
+     FROM sessions
+     JOIN users ON users.id = sessions.user_id
+     WHERE sessions.id = :id AND users.archived_at IS NULL`,
+    { id: sessionId }
+  );
+  const row = rows[0];
+  if (!row) return null;
+  if (new Date(row.expires_at).getTime() <= Date.now()) {
+    await pool.query('DELETE FROM sessions WHERE id = :id', { id: sessionId });
+    return null;
+  }
+  return { sessionId, user: mapUser(row) };
+};
+
+const authenticate = asyncHandler(async (req, res, next) => {
+  const session = await findSession(readBearerToken(req));
+  if (!session) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  req.sessionId = session.sessionId;
+  req.user = session.user;
+  next();
+});
+
+const authorize = (resource, action) => (req, res, next) => {
+  if (!hasPermission(req.user?.role, resource, action)) {
+    res.status(403).json({ error: `You do not have permission to ${action} ${resource}` });
+    return;
+  }
+  next();
+};
 
-app.post('/api/users', asyncHandler(async (req, res) => {
-  const user = req.body;
+const requirePermission = (resource, action) => [authenticate, authorize(resource, action)];
+
+app.post('/api/auth/login', asyncHandler(async (req, res) => {
+  const { email, password } = req.body ?? {};
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: 'Email and password are required' });
+    return;
+  }
+
+  const [rows] = await pool.query('SELECT * FROM users WHERE email = :email AND archived_at IS NULL', { email });
+  const row = rows[0];
+  if (!row || !(await verifyPassword(password, row.password))) {
+    res.status(401).json({ error: 'Invalid email or password' });
+    return;
+  }
+
+  const sessionId = createSessionId();
+  const now = new Date();
   await pool.query(
-    `INSERT INTO users (id, email, name, surname, phone, role, password)
-     VALUES (:id, :email, :name, :surname, :phone, :role, :password)`,
-    user
+    `INSERT INTO sessions (id, user_id, created_at, expires_at)
+     VALUES (:id, :user_id, :created_at, :expires_at)`,
+    {
+      id: sessionId,
+      user_id: row.id,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+    }
   );
-  res.status(201).json(user);
-}));
-
-app.put('/api/users/:id', asyncHandler(async (req, res) => {
-  const user = { ...req.body, id: req.params.id };
-  const [result] = await pool.query(
-    `UPDATE users
-     SET email = :email,
-         name = :name,
-         surname = :surname,
-         phone = :phone,
-         role = :role,
-         password = :password
-     WHERE id = :id`,
-    user
+  res.json({ token: signSessionId(sessionId), user: mapUser(row) });
+}));
+
+app.post('/api/auth/logout', authenticate, asyncHandler(async (req, res) => {
+  await pool.query('DELETE FROM sessions WHERE id = :id', { id: req.sessionId });
+  res.status(204).send();
+}));
+
+app.get('/api/auth/me', authenticate, asyncHandler(async (req, res) => {
+  res.json({ user: req.user });
+}));
+
+// Each client hears only about the entities its role may read.
+app.get('/api/events', authenticate, openEventStream);
+
+const USER_SORT_FIELDS = { name: 'CONCAT(name, surname)', email: 'email', role: 'role' };
+
+// Lists users; `search` matches name, surname or email and `role` filters by role.
+app.get('/api/users', requirePermission('users', 'read'), asyncHandler(async (req, res) => {
+  const list = parseListQuery(req.query, { sortFields: USER_SORT_FIELDS, defaultSort: 'name' });
+  const conditions = archivedFilter('archived_at', req.query);
+  const params = {};
+  if (list.search) {
+    conditions.push("(CONCAT(name, ' ', surname) LIKE :search OR email LIKE :search)");
+    params.search = containing(list.search);
+  }
+  if (req.query.role) {
+    conditions.push('role = :role');
+    params.role = req.query.role;
+  }
+  res.json(
+    await listPage(pool, {
+      from: 'users',
+      conditions,
+      params,
+      list,
+      sortFields: USER_SORT_FIELDS,
+      tiebreaker: 'id',
+      map: mapUser,
+    })
   );
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'User not found' });
+}));
+
+app.post('/api/users', requirePermission('users', 'create'), validateBody(newUserSchema), asyncHandler(async (req, res) => {
+  const { password, ...user } = req.body;
+  await withTransaction(async (connection) => {
+    await connection.query(
+      `INSERT INTO users (id, email, name, surname, phone, role, password)
+       VALUES (:id, :email, :name, :surname, :phone, :role, :password)`,
+      { ...user, password: await hashPassword(password) }
+    );
+    await recordAudit(connection, req, { entityType: 'user', entityId: user.id, action: 'create', after: mapUser(user) });
+  });
+  res.status(201).json({ ...mapUser(user), version: 1 });
+}));
+
+app.put('/api/users/:id', requirePermission('users', 'update'), validateBody(userUpdateSchema), asyncHandler(async (req, res) => {
+  const { password, version, ...body } = req.body;
+  const saved = await withTransaction(async (connection) => {
+    const current = mapUser(await lockRecord(connection, 'users', req.params.id, 'User'));
+    assertVersion(current, version, `${current.name} ${current.surname}`);
+    assertNotArchived(current, `${current.name} ${current.surname}`);
+    const user = mapUser({ ...current, ...body, id: current.id, archived_at: current.archivedAt, version: current.version + 1 });
+    await connection.query(
+      `UPDATE users
+       SET email = :email,
+           name = :name,
+           surname = :surname,
+           phone = :phone,
+           role = :role,
+           password = COALESCE(:password, password),
+           version = version + 1
+       WHERE id = :id`,
+      { ...user, password: password ? await hashPassword(password) : null }
+    );
+    // The password itself is never logged, only that it changed.
+    await recordAudit(connection, req, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'update',
+      before: current,
+      after: password ? { ...user, password: 'changed' } : user,
+    });
+    return user;
+  });
+  res.json(saved);
+}));
+
+// Archives the user and ends their sessions; `?permanent=true` deletes an archived user.
+app.delete('/api/users/:id', requirePermission('users', 'delete'), asyncHandler(async (req, res) => {
+  if (req.params.id === req.user.id) {
+    res.status(400).json({ error: 'You cannot delete your own account' });
     return;
   }
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'users', req.params.id, 'User');
+    const user = mapUser(row);
+    if (isPermanentDelete(req.query)) {
+      assertArchived(row, `${user.name} ${user.surname}`);
+      await connection.query('DELETE FROM users WHERE id = :id', { id: user.id });
+      await recordAudit(connection, req, { entityType: 'user', entityId: user.id, action: 'delete', before: user });
+      return;
+    }
+    const archivedAt = await archiveRecord(connection, 'users', row);
+    await connection.query('DELETE FROM sessions WHERE user_id = :id', { id: user.id });
+    await recordAudit(connection, req, { entityType: 'user', entityId: user.id, action: 'archive', before: user, after: { ...user, archivedAt } });
+  });
+  res.status(204).send();
+}));
+
+app.post('/api/users/:id/restore', requirePermission('users', 'delete'), asyncHandler(async (req, res) => {
+  const user = await withTransaction(async (connection) => {
+    const current = mapUser(await lockRecord(connection, 'users', req.params.id, 'User'));
+    const restored = { ...current, archivedAt: undefined, version: current.version + 1 };
+    await restoreRecord(connection, 'users', current.id);
+    await recordAudit(connection, req, { entityType: 'user', entityId: current.id, action: 'restore', before: current, after: restored });
+    return restored;
+  });
   res.json(user);
 }));
 
-app.delete('/api/users/:id', asyncHandler(async (req, res) => {
-  const [result] = await pool.query('DELETE FROM users WHERE id = :id', { id: req.params.id });
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'User not found' });
-    return;
+const CUSTOMER_SELECT = `customers.*,
+  COALESCE(customer_orders.order_count, 0) AS order_count,
+  COALESCE(customer_orders.lifetime_value, 0) AS lifetime_value,
+  customer_orders.last_order_at`;
+
+const CUSTOMER_FROM = `customers
+  LEFT JOIN (
+    SELECT customer_id, COUNT(*) AS order_count, SUM(total_cost) AS lifetime_value, MAX(created_at) AS last_order_at
+    FROM orders
+    WHERE customer_id IS NOT NULL AND status <> 'cancelled'
+    GROUP BY customer_id
+  ) AS customer_orders ON customer_orders.customer_id = customers.id`;
+
+const CUSTOMER_SORT_FIELDS = { name: 'customers.name', date: 'customers.created_at', value: 'lifetime_value', orders: 'order_count' };
+
+const selectCustomer = async (connection, id) => {
+  const [[row]] = await connection.query(`SELECT ${CUSTOMER_SELECT} FROM ${CUSTOMER_FROM} WHERE customers.id = :id`, { id });
+  return row ? mapCustomer(row) : undefined;
+};
+
+const customerParams = (customer) => ({
+  id: customer.id,
+  name: customer.name,
+  contact_name: customer.contactName || null,
+  email: customer.email || null,
+  phone: customer.phone || null,
+  address: customer.address || null,
+  notes: customer.notes || null,
+  created_at: customer.createdAt,
+});
+
+// Lists customers with their order count and lifetime value; `search` matches name, contact or email.
+app.get('/api/customers', requirePermission('customers', 'read'), asyncHandler(async (req, res) => {
+  const list = parseListQuery(req.query, { sortFields: CUSTOMER_SORT_FIELDS, defaultSort: 'name' });
+  const conditions = archivedFilter('customers.archived_at', req.query);
+  const params = {};
+  if (list.search) {
+    conditions.push('(customers.name LIKE :search OR customers.contact_name LIKE :search OR customers.email LIKE :search)');
+    params.search = containing(list.search);
   }
+  res.json(
+    await listPage(pool, {
+      select: CUSTOMER_SELECT,
+      from: CUSTOMER_FROM,
+      conditions,
+      params,
+      list,
+      sortFields: CUSTOMER_SORT_FIELDS,
+      tiebreaker: 'customers.id',
+      map: mapCustomer,
+    })
+  );
+}));
+
+app.get('/api/customers/:id', requirePermission('customers', 'read'), asyncHandler(async (req, res) => {
+  const customer = await selectCustomer(pool, req.params.id);
+  if (!customer) {
+    throw new HttpError(404, 'Customer not found');
+  }
+  res.json(customer);
+}));
+
+app.post('/api/customers', requirePermission('customers', 'create'), validateBody(customerSchema), asyncHandler(async (req, res) => {
+  const customer = await withTransaction(async (connection) => {
+    await connection.query(
+      `INSERT INTO customers (id, name, contact_name, email, phone, address, notes, created_at)
+       VALUES (:id, :name, :contact_name, :email, :phone, :address, :notes, :created_at)`,
+      customerParams(req.body)
+    );
+    const created = await selectCustomer(connection, req.body.id);
+    await recordAudit(connection, req, { entityType: 'customer', entityId: created.id, action: 'create', after: created });
+    return created;
+  });
+  res.status(201).json(customer);
+}));
+
+app.put('/api/customers/:id', requirePermission('customers', 'update'), validateBody(customerUpdateSchema), asyncHandler(async (req, res) => {
+  const customer = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'customers', req.params.id, 'Customer');
+    const before = await selectCustomer(connection, req.params.id);
+    assertVersion(before, req.body.version, before.name);
+    assertNotArchived(before, before.name);
+    await connection.query(
+      `UPDATE customers
+       SET name = :name,
+           contact_name = :contact_name,
+           email = :email,
+           phone = :phone,
+           address = :address,
+           notes = :notes,
+           created_at = :created_at,
+           version = version + 1
+       WHERE id = :id`,
+      customerParams({ ...req.body, id: req.params.id })
+    );
+    const after = await selectCustomer(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'customer', entityId: after.id, action: 'update', before, after });
+    return after;
+  });
+  res.json(customer);
+}));
+
+// Archives the customer, who stays on their orders; `?permanent=true` deletes an archived customer with no orders.
+app.delete('/api/customers/:id', requirePermission('customers', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'customers', req.params.id, 'Customer');
+    const customer = await selectCustomer(connection, row.id);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'customers', row);
+      await recordAudit(connection, req, { entityType: 'customer', entityId: row.id, action: 'archive', before: customer, after: { ...customer, archivedAt } });
+      return;
+    }
+    assertArchived(row, row.name);
+    assertNoDependents(row.name, await findCustomerDependents(connection, row.id));
+    await connection.query('DELETE FROM customers WHERE id = :id', { id: row.id });
+    await recordAudit(connection, req, { entityType: 'customer', entityId: row.id, action: 'delete', before: customer });
+  });
   res.status(204).send();
 }));
 
-app.get('/api/materials', asyncHandler(async (_req, res) => {
-  const [rows] = await pool.query('SELECT * FROM materials');
-  res.json(rows.map(mapMaterial));
+app.post('/api/customers/:id/restore', requirePermission('customers', 'delete'), asyncHandler(async (req, res) => {
+  const customer = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'customers', req.params.id, 'Customer');
+    const before = await selectCustomer(connection, req.params.id);
+    await restoreRecord(connection, 'customers', req.params.id);
+    const after = await selectCustomer(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'customer', entityId: after.id, action: 'restore', before, after });
+    return after;
+  });
+  res.json(customer);
 }));
 
-app.post('/api/materials', asyncHandler(async (req, res) => {
-  const material = req.body;
-  await pool.query(
-    `INSERT INTO materials (id, name, cost, unit, stock, created_at)
-     VALUES (:id, :name, :cost, :unit, :stock, :created_at)`,
-    {
-      id: material.id,
-      name: material.name,
-      cost: material.cost,
-      unit: material.unit,
-      stock: material.stock,
-      created_at: material.createdAt,
+const SUPPLIER_SORT_FIELDS = { name: 'name', date: 'created_at' };
+
+const selectSupplier = async (connection, id) => {
+  const [[row]] = await connection.query('SELECT * FROM suppliers WHERE id = :id', { id });
+  return row ? mapSupplier(row) : undefined;
+};
+
+const supplierParams = (supplier) => ({
+  id: supplier.id,
+  name: supplier.name,
+  contact_name: supplier.contactName || null,
+  email: supplier.email || null,
+  phone: supplier.phone || null,
+  address: supplier.address || null,
+  notes: supplier.notes || null,
+  created_at: supplier.createdAt,
+});
+
+// Lists suppliers; `search` matches name, contact or email.
+app.get('/api/suppliers', requirePermission('suppliers', 'read'), asyncHandler(async (req, res) => {
+  const list = parseListQuery(req.query, { sortFields: SUPPLIER_SORT_FIELDS, defaultSort: 'name' });
+  const conditions = archivedFilter('archived_at', req.query);
+  const params = {};
+  if (list.search) {
+    conditions.push('(name LIKE :search OR contact_name LIKE :search OR email LIKE :search)');
+    params.search = containing(list.search);
+  }
+  res.json(
+    await listPage(pool, {
+      from: 'suppliers',
+      conditions,
+      params,
+      list,
+      sortFields: SUPPLIER_SORT_FIELDS,
+      tiebreaker: 'id',
+      map: mapSupplier,
+    })
+  );
+}));
+
+app.get('/api/suppliers/:id', requirePermission('suppliers', 'read'), asyncHandler(async (req, res) => {
+  const supplier = await selectSupplier(pool, req.params.id);
+  if (!supplier) {
+    throw new HttpError(404, 'Supplier not found');
+  }
+  res.json(supplier);
+}));
+
+app.post('/api/suppliers', requirePermission('suppliers', 'create'), validateBody(supplierSchema), asyncHandler(async (req, res) => {
+  const supplier = await withTransaction(async (connection) => {
+    await connection.query(
+      `INSERT INTO suppliers (id, name, contact_name, email, phone, address, notes, created_at)
+       VALUES (:id, :name, :contact_name, :email, :phone, :address, :notes, :created_at)`,
+      supplierParams(req.body)
+    );
+    const created = await selectSupplier(connection, req.body.id);
+    await recordAudit(connection, req, { entityType: 'supplier', entityId: created.id, action: 'create', after: created });
+    return created;
+  });
+  res.status(201).json(supplier);
+}));
+
+app.put('/api/suppliers/:id', requirePermission('suppliers', 'update'), validateBody(supplierUpdateSchema), asyncHandler(async (req, res) => {
+  const supplier = await withTransaction(async (connection) => {
+    const before = mapSupplier(await lockRecord(connection, 'suppliers', req.params.id, 'Supplier'));
+    assertVersion(before, req.body.version, before.name);
+    assertNotArchived(before, before.name);
+    await connection.query(
+      `UPDATE suppliers
+       SET name = :name,
+           contact_name = :contact_name,
+           email = :email,
+           phone = :phone,
+           address = :address,
+           notes = :notes,
+           created_at = :created_at,
+           version = version + 1
+       WHERE id = :id`,
+      supplierParams({ ...req.body, id: req.params.id })
+    );
+    const after = await selectSupplier(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'supplier', entityId: after.id, action: 'update', before, after });
+    return after;
+  });
+  res.json(supplier);
+}));
+
+// Archives the supplier, who stays on their purchase orders; `?permanent=true` deletes an archived supplier with no purchase orders.
+app.delete('/api/suppliers/:id', requirePermission('suppliers', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'suppliers', req.params.id, 'Supplier');
+    const supplier = mapSupplier(row);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'suppliers', row);
+      await recordAudit(connection, req, { entityType: 'supplier', entityId: row.id, action: 'archive', before: supplier, after: { ...supplier, archivedAt } });
+      return;
     }
+    assertArchived(row, row.name);
+    assertNoDependents(row.name, await findSupplierDependents(connection, row.id));
+    await connection.query('DELETE FROM suppliers WHERE id = :id', { id: row.id });
+    await recordAudit(connection, req, { entityType: 'supplier', entityId: row.id, action: 'delete', before: supplier });
+  });
+  res.status(204).send();
+}));
+
+app.post('/api/suppliers/:id/restore', requirePermission('suppliers', 'delete'), asyncHandler(async (req, res) => {
+  const supplier = await withTransaction(async (connection) => {
+    const before = mapSupplier(await lockRecord(connection, 'suppliers', req.params.id, 'Supplier'));
+    await restoreRecord(connection, 'suppliers', req.params.id);
+    const after = await selectSupplier(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'supplier', entityId: after.id, action: 'restore', before, after });
+    return after;
+  });
+  res.json(supplier);
+}));
+
+app.get('/api/units', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const [rows] = await pool.query('SELECT * FROM units ORDER BY dimension, factor, code');
+  res.json(rows.map(mapUnit));
+}));
+
+// Units cannot be edited or deleted: changing a factor would silently change every
+// quantity given in the unit.
+app.post('/api/units', requirePermission('materials', 'create'), validateBody(unitSchema), asyncHandler(async (req, res) => {
+  const unit = await withTransaction(async (connection) => {
+    const unit = req.body;
+    const [[existing]] = await connection.query('SELECT code FROM units WHERE code = :code', { code: unit.code });
+    if (existing) {
+      throw new HttpError(409, `Unit ${existing.code} already exists`);
+    }
+    await connection.query(
+      'INSERT INTO units (code, name, dimension, factor) VALUES (:code, :name, :dimension, :factor)',
+      unit
+    );
+    await recordAudit(connection, req, { entityType: 'unit', entityId: unit.code, action: 'create', after: unit });
+    return unit;
+  });
+  res.status(201).json(unit);
+}));
+
+// Units by code, or only those asked for.
+const selectUnits = async (connection, codes) => {
+  if (codes && codes.length === 0) return new Map();
+  const [rows] = await connection.query(
+    `SELECT * FROM units ${codes ? 'WHERE code IN (:codes)' : ''}`,
+    { codes }
   );
+  return new Map(rows.map((row) => [row.code, mapUnit(row)]));
+};
+
+const assertUnitExists = async (connection, code) => {
+  if ((await selectUnits(connection, [code])).size === 0) {
+    throw new HttpError(400, `Unknown unit: ${code}`);
+  }
+};
+
+// A material's unit may only change to one that BOM lines given in their own units can
+// still be converted to.
+const assertMaterialUnitChange = async (connection, material, previousUnit) => {
+  if (material.unit === previousUnit) return;
+  const units = await selectUnits(connection);
+  const [rows] = await connection.query(
+    `SELECT DISTINCT products.name, product_materials.unit
+     FROM product_materials
+     JOIN products ON products.id = product_materials.product_id
+     WHERE product_materials.material_id = :id AND product_materials.unit IS NOT NULL`,
+    { id: material.id }
+  );
+  const conflicts = rows.filter((row) => !areUnitsCompatible(units.get(row.unit), units.get(material.unit)));
+  if (conflicts.length > 0) {
+    throw new HttpError(
+      409,
+      `${material.name} is used in ${conflicts.map((row) => `${row.name} (in ${row.unit})`).join(', ')}, which cannot be converted to ${material.unit}`,
+      { products: conflicts.map((row) => ({ name: row.name, unit: row.unit })) }
+    );
+  }
+};
+
+const MATERIAL_SORT_FIELDS = { name: 'materials.name', cost: 'cost', stock: 'materials.stock', date: 'materials.created_at' };
+
+// The materials list query, shared by the list and its export; `asOf` resolves each material's
+// cost at a past (or future) date instead of now.
+const materialListQuery = (query) => {
+  const list = parseListQuery(query, { sortFields: MATERIAL_SORT_FIELDS, defaultSort: 'date', defaultDirection: 'desc' });
+  const dates = dateRangeFilter('materials.created_at', query);
+  const conditions = [...archivedFilter('materials.archived_at', query), ...dates.conditions];
+  const params = { ...dates.params, asOf: parseAsOf(query.asOf) };
+  if (list.search) {
+    conditions.push('materials.name LIKE :search');
+    params.search = containing(list.search);
+  }
+  return {
+    select: MATERIAL_COLUMNS,
+    from: 'materials',
+    conditions,
+    params,
+    list,
+    sortFields: MATERIAL_SORT_FIELDS,
+    tiebreaker: 'materials.id',
+    map: mapMaterial,
+  };
+};
+
+app.get('/api/materials', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  res.json(await listPage(pool, materialListQuery(req.query)));
+}));
+
+// Active materials to reorder, given stock on hand, purchase orders not yet received and what
+// open orders still need. Each suggestion names the supplier the material was last bought from.
+app.get('/api/materials/reorder-suggestions', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const [rows] = await pool.query(
+    `SELECT ${MATERIAL_COLUMNS} FROM materials WHERE materials.archived_at IS NULL ORDER BY materials.name`,
+    { asOf: new Date().toISOString() }
+  );
+  const [demand, onOrder, [supplierRows]] = await Promise.all([
+    openOrderDemand(pool),
+    onOrderQuantities(pool),
+    pool.query(
+      `SELECT purchase_order_lines.material_id, suppliers.id AS supplier_id, suppliers.name AS supplier_name
+       FROM purchase_order_lines
+       JOIN purchase_orders ON purchase_orders.id = purchase_order_lines.purchase_order_id
+       JOIN suppliers ON suppliers.id = purchase_orders.supplier_id
+       WHERE suppliers.archived_at IS NULL
+       ORDER BY purchase_orders.created_at DESC`
+    ),
+  ]);
+
+  const lastSuppliers = new Map();
+  supplierRows.forEach((row) => {
+    if (!lastSuppliers.has(row.material_id)) {
+      lastSuppliers.set(row.material_id, { supplierId: row.supplier_id, supplierName: row.supplier_name });
+    }
+  });
+
+  res.json(
+    calculateReorderSuggestions(rows.map(mapMaterial), { demand, onOrder }).map((suggestion) => ({
+      ...suggestion,
+      ...lastSuppliers.get(suggestion.materialId),
+    }))
+  );
+}));
+
+// `asOf` resolves the material's cost at another date, as on the list.
+app.get('/api/materials/:id', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const [row] = await selectMaterials(pool, { id: req.params.id, asOf: parseAsOf(req.query.asOf) });
+  if (!row) {
+    throw new HttpError(404, 'Material not found');
+  }
+  res.json(mapMaterial(row));
+}));
+
+// Stock and cost are left out; they change through stock movements and prices.
+const materialParams = (material) => ({
+  id: material.id,
+  name: material.name,
+  unit: material.unit,
+  reorder_point: material.reorderPoint ?? null,
+  reorder_quantity: material.reorderQuantity ?? null,
+  safety_stock: material.safetyStock ?? null,
+  lead_time_days: material.leadTimeDays ?? null,
+  created_at: material.createdAt,
+});
+
+// Saves a new material with its opening cost and stock.
+const createMaterial = async (connection, req, material) => {
+  await assertUnitExists(connection, material.unit);
+  await connection.query(
+    `INSERT INTO materials (id, name, unit, stock, reorder_point, reorder_quantity, safety_stock, lead_time_days, created_at)
+     VALUES (:id, :name, :unit, 0, :reorder_point, :reorder_quantity, :safety_stock, :lead_time_days, :created_at)`,
+    materialParams(material)
+  );
+  // The first price takes effect now by the server's clock: `createdAt` comes from the client,
+  // whose clock may run ahead, and may carry an offset that would not compare as UTC text.
+  await recordMaterialPrice(connection, {
+    materialId: material.id,
+    cost: Number(material.cost),
+    userId: req.user.id,
+    note: 'Initial cost',
+  });
+  if (Number(material.stock) !== 0) {
+    await postStockMovement(connection, {
+      materialId: material.id,
+      type: 'receipt',
+      quantity: Number(material.stock),
+      userId: req.user.id,
+      note: 'Opening balance',
+    });
+  }
+  const [row] = await selectMaterials(connection, { id: material.id });
+  await recordAudit(connection, req, { entityType: 'material', entityId: material.id, action: 'create', after: mapMaterial(row) });
+  return mapMaterial(row);
+};
+
+app.post('/api/materials', requirePermission('materials', 'create'), validateBody(newMaterialSchema), asyncHandler(async (req, res) => {
+  const material = await withTransaction((connection) => createMaterial(connection, req, req.body));
   res.status(201).json(material);
 }));
 
-app.put('/api/materials/:id', asyncHandler(async (req, res) => {
-  const material = { ...req.body, id: req.params.id };
-  const [result] = await pool.query(
+// Saves a locked material's details; stock and cost change through stock movements and prices.
+const saveMaterialDetails = async (connection, material, previousUnit) => {
+  if (material.unit !== previousUnit) {
+    await assertUnitExists(connection, material.unit);
+    await assertMaterialUnitChange(connection, material, previousUnit);
+  }
+  await connection.query(
     `UPDATE materials
      SET name = :name,
-         cost = :cost,
          unit = :unit,
-         stock = :stock,
-         created_at = :created_at
+         reorder_point = :reorder_point,
+         reorder_quantity = :reorder_quantity,
+         safety_stock = :safety_stock,
+         lead_time_days = :lead_time_days,
+         created_at = :created_at,
+         version = version + 1
      WHERE id = :id`,
-    {
-      id: material.id,
-      name: material.name,
-      cost: material.cost,
-      unit: material.unit,
-      stock: material.stock,
-      created_at: material.createdAt,
-    }
+    materialParams(material)
   );
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Material not found' });
-    return;
-  }
+};
+
+// Stock and cost are not editable here; they change through stock movements and prices.
+app.put('/api/materials/:id', requirePermission('materials', 'update'), validateBody(materialUpdateSchema), asyncHandler(async (req, res) => {
+  const material = { ...req.body, id: req.params.id };
+  const saved = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'materials', material.id, 'Material');
+    const [before] = await selectMaterials(connection, { id: material.id });
+    assertVersion(mapMaterial(before), material.version, before.name);
+    assertNotArchived(before, before.name);
+    await saveMaterialDetails(connection, material, before.unit);
+    const [after] = await selectMaterials(connection, { id: material.id });
+    await recordAudit(connection, req, {
+      entityType: 'material',
+      entityId: material.id,
+      action: 'update',
+      before: mapMaterial(before),
+      after: mapMaterial(after),
+    });
+    return mapMaterial(after);
+  });
+  res.json(saved);
+}));
+
+app.get('/api/materials/:id/prices', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const [rows] = await pool.query(
+    `SELECT material_prices.*, CONCAT(users.name, ' ', users.surname) AS user_name
+     FROM material_prices
+     LEFT JOIN users ON users.id = material_prices.user_id
+     WHERE material_prices.material_id = :id
+     ORDER BY material_prices.effective_from DESC, material_prices.created_at DESC`,
+    { id: req.params.id }
+  );
+  res.json(rows.map(mapMaterialPrice));
+}));
+
+app.post('/api/materials/:id/prices', requirePermission('materials', 'update'), validateBody(materialPriceSchema), asyncHandler(async (req, res) => {
+  const material = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'materials', req.params.id, 'Material');
+    const [before] = await selectMaterials(connection, { id: req.params.id });
+    assertNotArchived(before, before.name);
+    const price = { ...req.body, effectiveFrom: req.body.effectiveFrom ?? new Date().toISOString() };
+    await recordMaterialPrice(connection, { ...price, materialId: req.params.id, userId: req.user.id });
+    const [row] = await selectMaterials(connection, { id: req.params.id });
+    // A price effective later leaves the current cost unchanged, so the price itself is logged.
+    await recordAudit(connection, req, {
+      entityType: 'material',
+      entityId: req.params.id,
+      action: 'record_price',
+      before: mapMaterial(before),
+      after: { ...mapMaterial(row), price },
+    });
+    return mapMaterial(row);
+  });
+  res.status(201).json(material);
+}));
+
+app.get('/api/materials/:id/movements', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const [rows] = await pool.query(
+    `SELECT stock_movements.*, orders.order_number, purchase_orders.po_number,
+            CONCAT(users.name, ' ', users.surname) AS user_name
+     FROM stock_movements
+     LEFT JOIN orders ON orders.id = stock_movements.order_id
+     LEFT JOIN purchase_orders ON purchase_orders.id = stock_movements.purchase_order_id
+     LEFT JOIN users ON users.id = stock_movements.user_id
+     WHERE stock_movements.material_id = :id
+     ORDER BY stock_movements.created_at DESC`,
+    { id: req.params.id }
+  );
+  res.json(rows.map(mapStockMovement));
+}));
+
+app.post('/api/materials/:id/movements', requirePermission('materials', 'update'), validateBody(stockMovementSchema), asyncHandler(async (req, res) => {
+  const { type, quantity, note } = req.body;
+  const material = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'materials', req.params.id, 'Material');
+    const [before] = await selectMaterials(connection, { id: req.params.id });
+    assertNotArchived(before, before.name);
+    const movement = { type, quantity: type === 'scrap' ? -quantity : quantity, note };
+    await postStockMovement(connection, { ...movement, materialId: req.params.id, userId: req.user.id });
+    const [row] = await selectMaterials(connection, { id: req.params.id });
+    await recordAudit(connection, req, {
+      entityType: 'material',
+      entityId: req.params.id,
+      action: 'stock_movement',
+      before: mapMaterial(before),
+      after: { ...mapMaterial(row), movement },
+    });
+    return mapMaterial(row);
+  });
+  res.status(201).json(material);
+}));
+
+// Archives the material; `?permanent=true` deletes an archived material that nothing uses.
+app.delete('/api/materials/:id', requirePermission('materials', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'materials', req.params.id, 'Material');
+    const [current] = await selectMaterials(connection, { id: row.id });
+    const material = mapMaterial(current);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'materials', row);
+      await recordAudit(connection, req, { entityType: 'material', entityId: row.id, action: 'archive', before: material, after: { ...material, archivedAt } });
+      return;
+    }
+    assertArchived(row, row.name);
+    assertNoDependents(row.name, await findMaterialDependents(connection, row.id));
+    await connection.query('DELETE FROM materials WHERE id = :id', { id: row.id });
+    await recordAudit(connection, req, { entityType: 'material', entityId: row.id, action: 'delete', before: material });
+  });
+  res.status(204).send();
+}));
+
+app.post('/api/materials/:id/restore', requirePermission('materials', 'delete'), asyncHandler(async (req, res) => {
+  const material = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'materials', req.params.id, 'Material');
+    const [before] = await selectMaterials(connection, { id: req.params.id });
+    await restoreRecord(connection, 'materials', req.params.id);
+    const [after] = await selectMaterials(connection, { id: req.params.id });
+    await recordAudit(connection, req, {
+      entityType: 'material',
+      entityId: req.params.id,
+      action: 'restore',
+      before: mapMaterial(before),
+      after: mapMaterial(after),
+    });
+    return mapMaterial(after);
+  });
   res.json(material);
 }));
 
-app.delete('/api/materials/:id', asyncHandler(async (req, res) => {
-  const [result] = await pool.query('DELETE FROM materials WHERE id = :id', { id: req.params.id });
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Material not found' });
+// Cost is computed from the BOM rather than stored, so sorting by it happens after the query.
+const PRODUCT_SORT_FIELDS = { name: 'name', date: 'created_at', cost: 'created_at' };
+
+// The products list query, shared by the list and its export.
+const productListQuery = (query) => {
+  const list = parseListQuery(query, { sortFields: PRODUCT_SORT_FIELDS, defaultSort: 'date', defaultDirection: 'desc' });
+  const dates = dateRangeFilter('created_at', query);
+  const conditions = [...archivedFilter('archived_at', query), ...dates.conditions];
+  const params = { ...dates.params };
+  if (list.search) {
+    conditions.push('name LIKE :search');
+    params.search = containing(list.search);
+  }
+  return { from: 'products', conditions, params, list, sortFields: PRODUCT_SORT_FIELDS, tiebreaker: 'id', map: mapProduct };
+};
+
+// Sorts products by the cost of one unit, which is worked out rather than stored.
+const sortByCost = (products, catalog, direction) => {
+  const costs = new Map(products.map((p) => [p.id, calculateProductCost(p.id, catalog.products, catalog.materials)]));
+  const sign = direction === 'asc' ? 1 : -1;
+  return products.sort((a, b) => sign * (costs.get(a.id) - costs.get(b.id)));
+};
+
+app.get('/api/products', requirePermission('products', 'read'), asyncHandler(async (req, res) => {
+  const { list, ...query } = productListQuery(req.query);
+
+  if (list.sort !== 'cost') {
+    const page = await listPage(pool, { ...query, list });
+    res.json({ ...page, items: await attachBomLines(pool, page.items) });
     return;
   }
-  res.status(204).send();
+
+  const { items, total } = await listPage(pool, { ...query, list: { ...list, limit: 0 } });
+  const sorted = sortByCost(items, await loadCatalog(pool), list.direction);
+  const start = (list.page - 1) * list.limit;
+  res.json({
+    items: await attachBomLines(pool, list.limit > 0 ? sorted.slice(start, start + list.limit) : sorted),
+    total,
+    page: list.page,
+    limit: list.limit,
+  });
 }));
 
-app.get('/api/products', asyncHandler(async (_req, res) => {
-  const [rows] = await pool.query('SELECT * FROM products');
-  res.json(rows.map(mapProduct));
+// Rejects any sub-assembly reference that would make the product contain itself, and any
+// material line in a unit its material's unit cannot be converted to. The shape of each line
+// has already been checked by `productSchema`.
+const assertValidBom = async (connection, product) => {
+  const unitLines = product.materials.filter((line) => line.materialId && line.unit);
+  if (unitLines.length > 0) {
+    const units = await selectUnits(connection);
+    const [materialRows] = await connection.query('SELECT id, name, unit FROM materials WHERE id IN (:ids)', {
+      ids: unitLines.map((line) => line.materialId),
+    });
+    const materials = new Map(materialRows.map((row) => [row.id, row]));
+    for (const line of unitLines) {
+      const material = materials.get(line.materialId);
+      if (!material) continue;
+      if (!units.has(line.unit)) {
+        throw new HttpError(400, `Unknown unit: ${line.unit}`);
+      }
+      if (!areUnitsCompatible(units.get(line.unit), units.get(material.unit))) {
+        throw new HttpError(400, `${material.name} is measured in ${material.unit} and cannot be given in ${line.unit}`);
+      }
+    }
+  }
+
+  const products = [...(await selectProducts(connection)).filter((p) => p.id !== product.id), product];
+  const cycle = findBomCycle(product.id, products);
+  if (cycle) {
+    const names = new Map(products.map((p) => [p.id, p.name]));
+    throw new HttpError(400, `BOM contains a cycle: ${cycle.map((id) => names.get(id) ?? id).join(' → ')}`, {
+      cycle,
+    });
+  }
+};
+
+// The product with its BOM as the API returns it, or undefined.
+const loadProduct = async (connection, id) => {
+  const [[row]] = await connection.query('SELECT * FROM products WHERE id = :id', { id });
+  if (!row) return undefined;
+  const [product] = await attachBomLines(connection, [mapProduct(row)]);
+  return product;
+};
+
+app.get('/api/products/:id', requirePermission('products', 'read'), asyncHandler(async (req, res) => {
+  const product = await loadProduct(pool, req.params.id);
+  if (!product) {
+    throw new HttpError(404, 'Product not found');
+  }
+  res.json(product);
 }));
 
-app.post('/api/products', asyncHandler(async (req, res) => {
-  const product = req.body;
-  await pool.query(
-    `INSERT INTO products (id, name, materials, created_at)
-     VALUES (:id, :name, :materials, :created_at)`,
+// Retrospective costing: the cost of one unit of the product at material prices as of `asOf`.
+app.get('/api/products/:id/cost', requirePermission('products', 'read'), asyncHandler(async (req, res) => {
+  const asOf = parseAsOf(req.query.asOf);
+  const catalog = await loadCatalog(pool, asOf);
+  if (!catalog.products.some((product) => product.id === req.params.id)) {
+    throw new HttpError(404, 'Product not found');
+  }
+  const { unitCost, materialCosts } = priceOrderLine(
+    { productId: req.params.id, quantity: 1 },
+    catalog.products,
+    catalog.materials
+  );
+  res.json({ productId: req.params.id, asOf, unitCost, materialCosts });
+}));
+
+const createProduct = async (connection, req, product) => {
+  await assertValidBom(connection, product);
+  await connection.query(
+    `INSERT INTO products (id, name, created_at)
+     VALUES (:id, :name, :created_at)`,
     {
       id: product.id,
       name: product.name,
-      materials: JSON.stringify(product.materials),
       created_at: product.createdAt,
     }
   );
-  res.status(201).json(product);
-}));
+  await saveBomLines(connection, product.id, product.materials);
+  const created = await loadProduct(connection, product.id);
+  await recordAudit(connection, req, { entityType: 'product', entityId: product.id, action: 'create', after: created });
+  return created;
+};
 
-app.put('/api/products/:id', asyncHandler(async (req, res) => {
-  const product = { ...req.body, id: req.params.id };
-  const [result] = await pool.query(
+// Replaces the product's name, creation date and BOM, provided `version` is current.
+const updateProduct = async (connection, req, product) => {
+  await lockRecord(connection, 'products', product.id, 'Product');
+  const before = await loadProduct(connection, product.id);
+  assertVersion(before, product.version, before.name);
+  assertNotArchived(before, before.name);
+  await assertValidBom(connection, product);
+  await connection.query(
     `UPDATE products
      SET name = :name,
-         materials = :materials,
-         created_at = :created_at
+         created_at = :created_at,
+         version = version + 1
      WHERE id = :id`,
     {
       id: product.id,
       name: product.name,
-      materials: JSON.stringify(product.materials),
       created_at: product.createdAt,
     }
   );
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Product not found' });
-    return;
-  }
+  await saveBomLines(connection, product.id, product.materials);
+  const after = await loadProduct(connection, product.id);
+  await recordAudit(connection, req, { entityType: 'product', entityId: product.id, action: 'update', before, after });
+  return after;
+};
+
+app.post('/api/products', requirePermission('products', 'create'), validateBody(productSchema), asyncHandler(async (req, res) => {
+  const product = await withTransaction((connection) => createProduct(connection, req, req.body));
+  res.status(201).json(product);
+}));
+
+app.put('/api/products/:id', requirePermission('products', 'update'), validateBody(productUpdateSchema), asyncHandler(async (req, res) => {
+  const saved = await withTransaction((connection) => updateProduct(connection, req, { ...req.body, id: req.params.id }));
+  res.json(saved);
+}));
+
+// Archives the product; `?permanent=true` deletes an archived product that nothing uses.
+app.delete('/api/products/:id', requirePermission('products', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'products', req.params.id, 'Product');
+    const product = await loadProduct(connection, row.id);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'products', row);
+      await recordAudit(connection, req, { entityType: 'product', entityId: row.id, action: 'archive', before: product, after: { ...product, archivedAt } });
+      return;
+    }
+    assertArchived(row, row.name);
+    assertNoDependents(row.name, await findProductDependents(connection, row.id));
+    await connection.query('DELETE FROM products WHERE id = :id', { id: row.id });
+    await recordAudit(connection, req, { entityType: 'product', entityId: row.id, action: 'delete', before: product });
+  });
+  res.status(204).send();
+}));
+
+app.post('/api/products/:id/restore', requirePermission('products', 'delete'), asyncHandler(async (req, res) => {
+  const product = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'products', req.params.id, 'Product');
+    const before = await loadProduct(connection, req.params.id);
+    await restoreRecord(connection, 'products', req.params.id);
+    const after = await loadProduct(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'product', entityId: req.params.id, action: 'restore', before, after });
+    return after;
+  });
   res.json(product);
 }));
 
-app.delete('/api/products/:id', asyncHandler(async (req, res) => {
-  const [result] = await pool.query('DELETE FROM products WHERE id = :id', { id: req.params.id });
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Product not found' });
-    return;
+const ORDER_SORT_FIELDS = { number: 'order_number', cost: 'total_cost', date: 'created_at', status: 'status' };
+
+// The orders list query, shared by the list and its export. `status` takes a comma-separated
+// list and `customerId` limits it to one customer's orders; `search` matches the number or
+// customer name.
+const orderListQuery = (query) => {
+  const list = parseListQuery(query, { sortFields: ORDER_SORT_FIELDS, defaultSort: 'date', defaultDirection: 'desc' });
+  const dates = dateRangeFilter('created_at', query);
+  const conditions = [...archivedFilter('archived_at', query), ...dates.conditions];
+  const params = { ...dates.params };
+  if (list.search) {
+    conditions.push('(order_number LIKE :search OR customer_id IN (SELECT id FROM customers WHERE name LIKE :search))');
+    params.search = containing(list.search);
   }
-  res.status(204).send();
+  if (query.customerId) {
+    conditions.push('customer_id = :customerId');
+    params.customerId = String(query.customerId);
+  }
+  if (query.status) {
+    const statuses = String(query.status).split(',');
+    const unknown = statuses.filter((status) => !ORDER_STATUSES.includes(status));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Unknown order status: ${unknown.join(', ')}`);
+    }
+    conditions.push('status IN (:statuses)');
+    params.statuses = statuses;
+  }
+  return { from: 'orders', conditions, params, list, sortFields: ORDER_SORT_FIELDS, tiebreaker: 'id', map: mapOrder };
+};
+
+app.get('/api/orders', requirePermission('orders', 'read'), asyncHandler(async (req, res) => {
+  const page = await listPage(pool, orderListQuery(req.query));
+  res.json({ ...page, items: await attachOrderLines(pool, page.items) });
 }));
 
-app.get('/api/orders', asyncHandler(async (_req, res) => {
-  const [rows] = await pool.query('SELECT * FROM orders');
-  res.json(rows.map(mapOrder));
+app.get('/api/orders/:id', requirePermission('orders', 'read'), asyncHandler(async (req, res) => {
+  res.json(await findOrder(pool, req.params.id));
 }));
 
-app.post('/api/orders', asyncHandler(async (req, res) => {
-  const order = req.body;
-  await pool.query(
-    `INSERT INTO orders (id, order_number, products, status, total_cost, leftovers, created_at, completed_at)
-     VALUES (:id, :order_number, :products, :status, :total_cost, :leftovers, :created_at, :completed_at)`,
+app.post('/api/orders/requirements', requirePermission('orders', 'read'), validateBody(orderRequirementsSchema), asyncHandler(async (req, res) => {
+  const { lines } = req.body;
+  if (lines.length === 0) {
+    res.json([]);
+    return;
+  }
+
+  const catalog = await loadCatalog(pool);
+  res.json(calculateMaterialRequirements(lines, catalog.products, catalog.materials));
+}));
+
+// Lines and leftovers are saved separately with `saveOrderLines`.
+const orderParams = (order) => ({
+  id: order.id,
+  order_number: order.orderNumber,
+  status: order.status,
+  total_cost: order.totalCost,
+  created_at: order.createdAt,
+  completed_at: order.completedAt || null,
+  priced_at: order.pricedAt || null,
+  customer_id: order.customerId || null,
+  delivery_date: order.deliveryDate || null,
+  notes: order.notes || null,
+});
+
+const selectProducts = async (connection) => {
+  const [rows] = await connection.query('SELECT * FROM products');
+  return attachBomLines(connection, rows.map(mapProduct));
+};
+
+const loadCatalog = async (connection, asOf) => {
+  const products = await selectProducts(connection);
+  const materialRows = await selectMaterials(connection, { asOf });
+  return { products, materials: materialRows.map(mapMaterial) };
+};
+
+// Drafts are always priced at current costs. Once an order leaves draft its line costs are
+// locked: a line keeps the snapshot in `previousLines` for its product, and only products
+// added later are priced at current costs. Repricing means passing no previous lines.
+const priceOrder = (order, catalog, previousLines = []) => {
+  const locked = order.status !== 'draft';
+  const lines = order.products.map(({ productId, quantity }) => {
+    const snapshot = locked && previousLines.find((line) => line.productId === productId && line.unitCost !== undefined);
+    return snapshot
+      ? { ...snapshot, quantity }
+      : priceOrderLine({ productId, quantity }, catalog.products, catalog.materials);
+  });
+  return {
+    ...order,
+    products: lines,
+    totalCost: orderLinesTotal(lines),
+    pricedAt: locked ? order.pricedAt ?? new Date().toISOString() : undefined,
+  };
+};
+
+const mapOrderStatusChange = (row) => ({
+  id: row.id,
+  orderId: row.order_id,
+  fromStatus: row.from_status || undefined,
+  toStatus: row.to_status,
+  userId: row.user_id || undefined,
+  userName: row.user_name || undefined,
+  note: row.note || undefined,
+  createdAt: row.created_at,
+});
+
+const recordStatusChange = (connection, { orderId, fromStatus, toStatus, userId, note, createdAt }) =>
+  connection.query(
+    `INSERT INTO order_status_history (id, order_id, from_status, to_status, user_id, note, created_at)
+     VALUES (:id, :order_id, :from_status, :to_status, :user_id, :note, :created_at)`,
     {
-      id: order.id,
-      order_number: order.orderNumber,
-      products: JSON.stringify(order.products),
-      status: order.status,
-      total_cost: order.totalCost,
-      leftovers: JSON.stringify(order.leftovers),
-      created_at: order.createdAt,
-      completed_at: order.completedAt || null,
+      id: crypto.randomUUID(),
+      order_id: orderId,
+      from_status: fromStatus ?? null,
+      to_status: toStatus,
+      user_id: userId,
+      note: note ?? null,
+      created_at: createdAt,
     }
   );
-  res.status(201).json(order);
-}));
 
-app.put('/api/orders/:id', asyncHandler(async (req, res) => {
-  const order = { ...req.body, id: req.params.id };
-  const [result] = await pool.query(
+// New orders cannot be placed for an archived customer; an order keeps the customer it already has.
+const assertOrderCustomer = async (connection, customerId, currentCustomerId) => {
+  if (!customerId || customerId === currentCustomerId) return;
+  const [[customer]] = await connection.query('SELECT name, archived_at FROM customers WHERE id = :id', { id: customerId });
+  if (!customer) {
+    throw new HttpError(400, 'Customer not found');
+  }
+  if (customer.archived_at) {
+    throw new HttpError(400, `${customer.name} is archived`);
+  }
+};
+
+const findOrder = async (connection, id, { forUpdate = false } = {}) => {
+  const [rows] = await connection.query(`SELECT * FROM orders WHERE id = :id${forUpdate ? ' FOR UPDATE' : ''}`, { id });
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Order not found');
+  }
+  const [order] = await attachOrderLines(connection, [mapOrder(rows[0])]);
+  return order;
+};
+
+// Locks the order until the transaction ends.
+const findOrderForUpdate = (connection, id) => findOrder(connection, id, { forUpdate: true });
+
+const createOrder = async (connection, req, body) => {
+  await assertOrderCustomer(connection, body.customerId);
+  const order = priceOrder(
+    { ...body, completedAt: undefined, pricedAt: undefined, version: 1 },
+    await loadCatalog(connection)
+  );
+  await connection.query(
+    `INSERT INTO orders (id, order_number, status, total_cost, created_at, completed_at, priced_at, customer_id, delivery_date, notes)
+     VALUES (:id, :order_number, :status, :total_cost, :created_at, :completed_at, :priced_at, :customer_id, :delivery_date, :notes)`,
+    orderParams(order)
+  );
+  await saveOrderLines(connection, order);
+  await recordStatusChange(connection, {
+    orderId: order.id,
+    toStatus: order.status,
+    userId: req.user.id,
+    createdAt: order.createdAt,
+  });
+  await recordAudit(connection, req, { entityType: 'order', entityId: order.id, action: 'create', after: order });
+  return order;
+};
+
+// Status, completion date and locked prices are owned by the transitions and reprice
+// endpoints and are not changed here.
+const updateOrder = async (connection, req, id, body) => {
+  const current = await findOrderForUpdate(connection, id);
+  assertVersion(current, body.version, `Order ${current.orderNumber}`);
+  assertNotArchived(current, `Order ${current.orderNumber}`);
+  await assertOrderCustomer(connection, body.customerId, current.customerId);
+  const updated = priceOrder(
+    {
+      ...body,
+      id: current.id,
+      status: current.status,
+      completedAt: current.completedAt,
+      pricedAt: current.pricedAt,
+      archivedAt: current.archivedAt,
+      version: current.version + 1,
+    },
+    await loadCatalog(connection),
+    current.products
+  );
+  await connection.query(
     `UPDATE orders
      SET order_number = :order_number,
-         products = :products,
-         status = :status,
          total_cost = :total_cost,
-         leftovers = :leftovers,
          created_at = :created_at,
-         completed_at = :completed_at
+         customer_id = :customer_id,
+         delivery_date = :delivery_date,
+         notes = :notes,
+         version = version + 1
      WHERE id = :id`,
-    {
-      id: order.id,
-      order_number: order.orderNumber,
-      products: JSON.stringify(order.products),
-      status: order.status,
-      total_cost: order.totalCost,
-      leftovers: JSON.stringify(order.leftovers),
-      created_at: order.createdAt,
-      completed_at: order.completedAt || null,
+    orderParams(updated)
+  );
+  await saveOrderLines(connection, updated);
+  await syncOrderStock(connection, updated, req.user.id);
+  await recordAudit(connection, req, { entityType: 'order', entityId: current.id, action: 'update', before: current, after: updated });
+  return updated;
+};
+
+app.post('/api/orders', requirePermission('orders', 'create'), validateBody(newOrderSchema), asyncHandler(async (req, res) => {
+  const order = await withTransaction((connection) => createOrder(connection, req, req.body));
+  res.status(201).json(order);
+}));
+
+app.put('/api/orders/:id', requirePermission('orders', 'update'), validateBody(orderUpdateSchema), asyncHandler(async (req, res) => {
+  const order = await withTransaction((connection) => updateOrder(connection, req, req.params.id, req.body));
+  res.json(order);
+}));
+
+app.post('/api/orders/:id/transitions', requirePermission('orders', 'update'), validateBody(orderTransitionSchema), asyncHandler(async (req, res) => {
+  const { status, note } = req.body;
+  const order = await withTransaction(async (connection) => {
+    const current = await findOrderForUpdate(connection, req.params.id);
+    assertVersion(current, req.body.version, `Order ${current.orderNumber}`);
+    assertNotArchived(current, `Order ${current.orderNumber}`);
+    if (!canTransition(current.status, status)) {
+      throw new HttpError(409, `Order ${current.orderNumber} cannot move from ${current.status} to ${status}`);
     }
+
+    const now = new Date().toISOString();
+    const moved = {
+      ...current,
+      status,
+      completedAt: status === 'completed' ? now : current.completedAt,
+      version: current.version + 1,
+    };
+    // Confirming a draft locks its prices; sending an order back to draft unlocks them.
+    const updated = current.status === 'draft' || status === 'draft'
+      ? priceOrder({ ...moved, pricedAt: undefined }, await loadCatalog(connection))
+      : moved;
+    await syncOrderStock(connection, updated, req.user.id);
+    await connection.query(
+      `UPDATE orders
+       SET status = :status,
+           completed_at = :completed_at,
+           total_cost = :total_cost,
+           priced_at = :priced_at,
+           version = version + 1
+       WHERE id = :id`,
+      orderParams(updated)
+    );
+    await saveOrderLines(connection, updated);
+    await recordStatusChange(connection, {
+      orderId: current.id,
+      fromStatus: current.status,
+      toStatus: status,
+      userId: req.user.id,
+      note,
+      createdAt: now,
+    });
+    await recordAudit(connection, req, { entityType: 'order', entityId: current.id, action: 'transition', before: current, after: updated });
+    return updated;
+  });
+  res.json(order);
+}));
+
+app.get('/api/orders/:id/history', requirePermission('orders', 'read'), asyncHandler(async (req, res) => {
+  const [rows] = await pool.query(
+    `SELECT order_status_history.*, CONCAT(users.name, ' ', users.surname) AS user_name
+     FROM order_status_history
+     LEFT JOIN users ON users.id = order_status_history.user_id
+     WHERE order_status_history.order_id = :id
+     ORDER BY order_status_history.created_at`,
+    { id: req.params.id }
   );
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Order not found' });
-    return;
+  res.json(rows.map(mapOrderStatusChange));
+}));
+
+const repriceOrder = (current, catalog) => {
+  assertNotArchived(current, `Order ${current.orderNumber}`);
+  if (current.status === 'draft') {
+    throw new HttpError(409, 'Draft orders are always priced at current costs');
   }
+  return priceOrder({ ...current, pricedAt: undefined }, catalog);
+};
+
+// A preview only reads, so it takes no locks; the reprice itself locks the order.
+app.get('/api/orders/:id/reprice', requirePermission('orders', 'read'), asyncHandler(async (req, res) => {
+  const current = await findOrder(pool, req.params.id);
+  const repriced = repriceOrder(current, await loadCatalog(pool));
+  res.json({
+    orderId: current.id,
+    version: current.version,
+    pricedAt: current.pricedAt,
+    currentTotal: current.totalCost,
+    repricedTotal: repriced.totalCost,
+    lines: repriced.products.map((line) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      currentUnitCost: current.products.find((l) => l.productId === line.productId)?.unitCost,
+      repricedUnitCost: line.unitCost,
+    })),
+  });
+}));
+
+// Applies the preview the user saw: the order must be unchanged since, and current costs must
+// still give the previewed total.
+app.post('/api/orders/:id/reprice', requirePermission('orders', 'update'), validateBody(orderRepriceSchema), asyncHandler(async (req, res) => {
+  const order = await withTransaction(async (connection) => {
+    const current = await findOrderForUpdate(connection, req.params.id);
+    assertVersion(current, req.body.version, `Order ${current.orderNumber}`);
+    const updated = { ...repriceOrder(current, await loadCatalog(connection)), version: current.version + 1 };
+    if (updated.totalCost !== req.body.repricedTotal) {
+      throw new HttpError(409, `Costs have changed since order ${current.orderNumber} was previewed; review the new prices`);
+    }
+    await connection.query(
+      'UPDATE orders SET total_cost = :total_cost, priced_at = :priced_at, version = version + 1 WHERE id = :id',
+      orderParams(updated)
+    );
+    await saveOrderLines(connection, updated);
+    await recordAudit(connection, req, { entityType: 'order', entityId: current.id, action: 'reprice', before: current, after: updated });
+    return updated;
+  });
   res.json(order);
 }));
 
-app.delete('/api/orders/:id', asyncHandler(async (req, res) => {
-  const [result] = await pool.query('DELETE FROM orders WHERE id = :id', { id: req.params.id });
-  if (result.affectedRows === 0) {
-    res.status(404).json({ error: 'Order not found' });
-    return;
+// Archives the order, leaving its stock movements in place: what an in-progress or completed
+// order took from stock was used, and a cancelled order has already returned it. An archived
+// order cannot be changed until it is restored. `?permanent=true` deletes an archived order
+// and returns what it took from stock.
+app.delete('/api/orders/:id', requirePermission('orders', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'orders', req.params.id, 'Order');
+    const [current] = await attachOrderLines(connection, [mapOrder(row)]);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'orders', row);
+      await recordAudit(connection, req, { entityType: 'order', entityId: row.id, action: 'archive', before: current, after: { ...current, archivedAt } });
+      return;
+    }
+    assertArchived(row, `Order ${row.order_number}`);
+    // Syncing as a pending order with no lines returns everything the order took from stock.
+    await syncOrderStock(connection, { ...current, status: 'pending', products: [], leftovers: [] }, req.user.id);
+    await connection.query('DELETE FROM orders WHERE id = :id', { id: req.params.id });
+    await recordAudit(connection, req, { entityType: 'order', entityId: row.id, action: 'delete', before: current });
+  });
+  res.status(204).send();
+}));
+
+app.post('/api/orders/:id/restore', requirePermission('orders', 'delete'), asyncHandler(async (req, res) => {
+  const order = await withTransaction(async (connection) => {
+    const before = await findOrderForUpdate(connection, req.params.id);
+    await restoreRecord(connection, 'orders', req.params.id);
+    const after = { ...before, archivedAt: undefined, version: before.version + 1 };
+    await recordAudit(connection, req, { entityType: 'order', entityId: before.id, action: 'restore', before, after });
+    return after;
+  });
+  res.json(order);
+}));
+
+const PURCHASE_ORDER_SELECT = 'purchase_orders.*, suppliers.name AS supplier_name';
+
+const PURCHASE_ORDER_FROM = 'purchase_orders JOIN suppliers ON suppliers.id = purchase_orders.supplier_id';
+
+// Purchase orders without an expected date sort after those with one.
+const PURCHASE_ORDER_SORT_FIELDS = {
+  expected: "COALESCE(purchase_orders.expected_date, '9999-12-31')",
+  date: 'purchase_orders.created_at',
+  number: 'purchase_orders.po_number',
+  total: 'purchase_orders.total_cost',
+};
+
+// The purchase order with its lines as the API returns it, or undefined.
+const selectPurchaseOrder = async (connection, id) => {
+  const [[row]] = await connection.query(
+    `SELECT ${PURCHASE_ORDER_SELECT} FROM ${PURCHASE_ORDER_FROM} WHERE purchase_orders.id = :id`,
+    { id }
+  );
+  if (!row) return undefined;
+  const [purchaseOrder] = await attachPurchaseOrderLines(connection, [mapPurchaseOrder(row)]);
+  return purchaseOrder;
+};
+
+// Lines are saved separately with `savePurchaseOrderLines`.
+const purchaseOrderParams = (purchaseOrder) => ({
+  id: purchaseOrder.id,
+  po_number: purchaseOrder.poNumber,
+  supplier_id: purchaseOrder.supplierId,
+  status: purchaseOrder.status,
+  expected_date: purchaseOrder.expectedDate || null,
+  notes: purchaseOrder.notes || null,
+  total_cost: purchaseOrderTotal(purchaseOrder.lines),
+  created_at: purchaseOrder.createdAt,
+  sent_at: purchaseOrder.sentAt || null,
+  received_at: purchaseOrder.receivedAt || null,
+});
+
+// New purchase orders cannot go to an archived supplier; a purchase order keeps the supplier it already has.
+const assertPurchaseOrderSupplier = async (connection, supplierId, currentSupplierId) => {
+  if (supplierId === currentSupplierId) return;
+  const [[supplier]] = await connection.query('SELECT name, archived_at FROM suppliers WHERE id = :id', { id: supplierId });
+  if (!supplier) {
+    throw new HttpError(400, 'Supplier not found');
+  }
+  if (supplier.archived_at) {
+    throw new HttpError(400, `${supplier.name} is archived`);
   }
+};
+
+const hasReceivedGoods = (purchaseOrder) => purchaseOrder.lines.some((line) => line.receivedQuantity > 0);
+
+// An agreed price becomes the material's cost when goods arrive, so setting one other than the
+// current cost, or than the price already agreed for the material, takes the materials update
+// permission as well.
+const assertPurchasePricesAllowed = async (connection, req, before) => {
+  if (hasPermission(req.user.role, 'materials', 'update')) return;
+  const agreed = new Set(before.lines.map((line) => `${line.materialId}:${line.unitPrice}`));
+  for (const line of req.body.lines) {
+    if (agreed.has(`${line.materialId}:${line.unitPrice}`)) continue;
+    const [material] = await selectMaterials(connection, { id: line.materialId });
+    if (material && Number(material.cost) !== line.unitPrice) {
+      throw new HttpError(403, `You do not have permission to update materials, so ${material.name} must be ordered at its current cost`);
+    }
+  }
+};
+
+// Lists purchase orders; `status` takes a comma-separated list and `supplierId` limits it to
+// one supplier's purchase orders. `search` matches the number or supplier name.
+app.get('/api/purchase-orders', requirePermission('purchaseOrders', 'read'), asyncHandler(async (req, res) => {
+  const list = parseListQuery(req.query, { sortFields: PURCHASE_ORDER_SORT_FIELDS, defaultSort: 'date', defaultDirection: 'desc' });
+  const conditions = archivedFilter('purchase_orders.archived_at', req.query);
+  const params = {};
+  if (list.search) {
+    conditions.push('(purchase_orders.po_number LIKE :search OR suppliers.name LIKE :search)');
+    params.search = containing(list.search);
+  }
+  if (req.query.supplierId) {
+    conditions.push('purchase_orders.supplier_id = :supplierId');
+    params.supplierId = String(req.query.supplierId);
+  }
+  if (req.query.status) {
+    const statuses = String(req.query.status).split(',');
+    const unknown = statuses.filter((status) => !PURCHASE_ORDER_STATUSES.includes(status));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Unknown purchase order status: ${unknown.join(', ')}`);
+    }
+    conditions.push('purchase_orders.status IN (:statuses)');
+    params.statuses = statuses;
+  }
+  const page = await listPage(pool, {
+    select: PURCHASE_ORDER_SELECT,
+    from: PURCHASE_ORDER_FROM,
+    conditions,
+    params,
+    list,
+    sortFields: PURCHASE_ORDER_SORT_FIELDS,
+    tiebreaker: 'purchase_orders.id',
+    map: mapPurchaseOrder,
+  });
+  res.json({ ...page, items: await attachPurchaseOrderLines(pool, page.items) });
+}));
+
+app.get('/api/purchase-orders/:id', requirePermission('purchaseOrders', 'read'), asyncHandler(async (req, res) => {
+  const purchaseOrder = await selectPurchaseOrder(pool, req.params.id);
+  if (!purchaseOrder) {
+    throw new HttpError(404, 'Purchase order not found');
+  }
+  res.json(purchaseOrder);
+}));
+
+// Purchase orders are created as drafts and sent with a transition.
+app.post('/api/purchase-orders', requirePermission('purchaseOrders', 'create'), validateBody(purchaseOrderSchema), asyncHandler(async (req, res) => {
+  const purchaseOrder = await withTransaction(async (connection) => {
+    await assertPurchaseOrderSupplier(connection, req.body.supplierId);
+    const draft = { ...req.body, status: 'draft' };
+    await connection.query(
+      `INSERT INTO purchase_orders (id, po_number, supplier_id, status, expected_date, notes, total_cost, created_at, sent_at, received_at)
+       VALUES (:id, :po_number, :supplier_id, :status, :expected_date, :notes, :total_cost, :created_at, :sent_at, :received_at)`,
+      purchaseOrderParams(draft)
+    );
+    await savePurchaseOrderLines(connection, draft);
+    const created = await selectPurchaseOrder(connection, draft.id);
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: created.id, action: 'create', after: created });
+    return created;
+  });
+  res.status(201).json(purchaseOrder);
+}));
+
+// Lines can be changed until goods arrive against them. Status and its dates are owned by the
+// transitions and receipts endpoints and are not changed here.
+app.put('/api/purchase-orders/:id', requirePermission('purchaseOrders', 'update'), validateBody(purchaseOrderUpdateSchema), asyncHandler(async (req, res) => {
+  const purchaseOrder = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'purchase_orders', req.params.id, 'Purchase order');
+    const before = await selectPurchaseOrder(connection, req.params.id);
+    assertVersion(before, req.body.version, `Purchase order ${before.poNumber}`);
+    assertNotArchived(before, `Purchase order ${before.poNumber}`);
+    if (hasReceivedGoods(before)) {
+      throw new HttpError(409, `Purchase order ${before.poNumber} has goods received against it and can no longer be changed`);
+    }
+    await assertPurchaseOrderSupplier(connection, req.body.supplierId, before.supplierId);
+    await assertPurchasePricesAllowed(connection, req, before);
+    const updated = { ...before, ...req.body, id: before.id };
+    await connection.query(
+      `UPDATE purchase_orders
+       SET po_number = :po_number,
+           supplier_id = :supplier_id,
+           expected_date = :expected_date,
+           notes = :notes,
+           total_cost = :total_cost,
+           created_at = :created_at,
+           version = version + 1
+       WHERE id = :id`,
+      purchaseOrderParams(updated)
+    );
+    await savePurchaseOrderLines(connection, updated);
+    const after = await selectPurchaseOrder(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: after.id, action: 'update', before, after });
+    return after;
+  });
+  res.json(purchaseOrder);
+}));
+
+// Sends a draft to the supplier, or recalls a sent purchase order nothing has arrived against.
+app.post('/api/purchase-orders/:id/transitions', requirePermission('purchaseOrders', 'update'), validateBody(purchaseOrderTransitionSchema), asyncHandler(async (req, res) => {
+  const { status } = req.body;
+  const purchaseOrder = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'purchase_orders', req.params.id, 'Purchase order');
+    const before = await selectPurchaseOrder(connection, req.params.id);
+    assertVersion(before, req.body.version, `Purchase order ${before.poNumber}`);
+    assertNotArchived(before, `Purchase order ${before.poNumber}`);
+    if (!canTransitionPurchaseOrder(before.status, status)) {
+      throw new HttpError(409, `Purchase order ${before.poNumber} cannot move from ${before.status} to ${status}`);
+    }
+    await connection.query(
+      'UPDATE purchase_orders SET status = :status, sent_at = :sent_at, version = version + 1 WHERE id = :id',
+      purchaseOrderParams({ ...before, status, sentAt: status === 'sent' ? new Date().toISOString() : undefined })
+    );
+    const after = await selectPurchaseOrder(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: after.id, action: 'transition', before, after });
+    return after;
+  });
+  res.json(purchaseOrder);
+}));
+
+// Receives goods against a sent purchase order. Each line posts a stock receipt, and an agreed
+// price that differs from the material's current cost becomes its new cost, so receiving takes
+// the materials update permission as well.
+app.post('/api/purchase-orders/:id/receipts', requirePermission('purchaseOrders', 'update'), authorize('materials', 'update'), validateBody(purchaseReceiptSchema), asyncHandler(async (req, res) => {
+  const purchaseOrder = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'purchase_orders', req.params.id, 'Purchase order');
+    const before = await selectPurchaseOrder(connection, req.params.id);
+    const label = `Purchase order ${before.poNumber}`;
+    assertVersion(before, req.body.version, label);
+    assertNotArchived(before, label);
+    if (!OPEN_PURCHASE_ORDER_STATUSES.includes(before.status)) {
+      throw new HttpError(409, `${label} is ${before.status} and cannot receive goods`);
+    }
+
+    const lines = before.lines.map((line) => ({ ...line }));
+    req.body.lines.forEach((receipt) => {
+      const line = lines[receipt.line];
+      if (!line) {
+        throw new HttpError(400, `${label} has no line ${receipt.line + 1}`);
+      }
+      const outstanding = Math.round((line.quantity - line.receivedQuantity) * 100) / 100;
+      if (receipt.quantity > outstanding) {
+        throw new HttpError(409, `Line ${receipt.line + 1} of ${label} has ${outstanding} left to receive`);
+      }
+      line.receivedQuantity = Math.round((line.receivedQuantity + receipt.quantity) * 100) / 100;
+    });
+
+    const now = new Date().toISOString();
+    for (const receipt of req.body.lines) {
+      const { materialId, unitPrice } = lines[receipt.line];
+      const [materialBefore] = await selectMaterials(connection, { id: materialId });
+      const movement = { type: 'receipt', quantity: receipt.quantity, note: req.body.note ? `${label}: ${req.body.note}` : label };
+      await postStockMovement(connection, { ...movement, materialId, purchaseOrderId: before.id, userId: req.user.id });
+      const price = Number(materialBefore.cost) === unitPrice
+        ? undefined
+        : { cost: unitPrice, effectiveFrom: now, supplier: before.supplierName, note: label };
+      if (price) {
+        await recordMaterialPrice(connection, { ...price, materialId, userId: req.user.id });
+      }
+      const [materialAfter] = await selectMaterials(connection, { id: materialId });
+      await recordAudit(connection, req, {
+        entityType: 'material',
+        entityId: materialId,
+        action: 'stock_movement',
+        before: mapMaterial(materialBefore),
+        after: { ...mapMaterial(materialAfter), movement, price },
+      });
+    }
+
+    const status = receivedStatus(lines);
+    await connection.query(
+      'UPDATE purchase_orders SET status = :status, received_at = :received_at, version = version + 1 WHERE id = :id',
+      purchaseOrderParams({ ...before, lines, status, receivedAt: status === 'received' ? now : undefined })
+    );
+    await savePurchaseOrderLines(connection, { id: before.id, lines });
+    const after = await selectPurchaseOrder(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: after.id, action: 'receive', before, after });
+    return after;
+  });
+  res.status(201).json(purchaseOrder);
+}));
+
+// Archives the purchase order; `?permanent=true` deletes an archived purchase order that nothing
+// has been received against, since receipts stay in the stock ledger.
+app.delete('/api/purchase-orders/:id', requirePermission('purchaseOrders', 'delete'), asyncHandler(async (req, res) => {
+  await withTransaction(async (connection) => {
+    const row = await lockRecord(connection, 'purchase_orders', req.params.id, 'Purchase order');
+    const purchaseOrder = await selectPurchaseOrder(connection, row.id);
+    if (!isPermanentDelete(req.query)) {
+      const archivedAt = await archiveRecord(connection, 'purchase_orders', row);
+      await recordAudit(connection, req, { entityType: 'purchase_order', entityId: row.id, action: 'archive', before: purchaseOrder, after: { ...purchaseOrder, archivedAt } });
+      return;
+    }
+    assertArchived(row, `Purchase order ${row.po_number}`);
+    if (hasReceivedGoods(purchaseOrder)) {
+      throw new HttpError(409, `Purchase order ${row.po_number} has goods received against it and cannot be deleted`);
+    }
+    await connection.query('DELETE FROM purchase_orders WHERE id = :id', { id: row.id });
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: row.id, action: 'delete', before: purchaseOrder });
+  });
   res.status(204).send();
 }));
 
-app.use((err, _req, res, _next) => {
+app.post('/api/purchase-orders/:id/restore', requirePermission('purchaseOrders', 'delete'), asyncHandler(async (req, res) => {
+  const purchaseOrder = await withTransaction(async (connection) => {
+    await lockRecord(connection, 'purchase_orders', req.params.id, 'Purchase order');
+    const before = await selectPurchaseOrder(connection, req.params.id);
+    await restoreRecord(connection, 'purchase_orders', req.params.id);
+    const after = await selectPurchaseOrder(connection, req.params.id);
+    await recordAudit(connection, req, { entityType: 'purchase_order', entityId: after.id, action: 'restore', before, after });
+    return after;
+  });
+  res.json(purchaseOrder);
+}));
+
+// CSV imports, one endpoint per entity. Each creates records from the file's rows, or with
+// `mode: 'upsert'` also updates those whose name (number, for orders) exists already; blank
+// cells leave an updated record's field as it is. `dryRun` reports what would happen, row by
+// row, without saving anything.
+
+// A changed cost is recorded as a new price, and a changed stock level as an adjustment.
+const importMaterialUpdate = async (connection, req, id, row) => {
+  await lockRecord(connection, 'materials', id, 'Material');
+  const [beforeRow] = await selectMaterials(connection, { id });
+  const before = mapMaterial(beforeRow);
+  const material = { ...before, ...row };
+  await saveMaterialDetails(connection, material, before.unit);
+  if (material.cost !== before.cost) {
+    await recordMaterialPrice(connection, {
+      materialId: id,
+      cost: material.cost,
+      effectiveFrom: new Date().toISOString(),
+      userId: req.user.id,
+      note: 'Imported',
+    });
+  }
+  if (material.stock !== before.stock) {
+    await postStockMovement(connection, {
+      materialId: id,
+      type: 'adjustment',
+      quantity: material.stock - before.stock,
+      userId: req.user.id,
+      note: 'Imported stock level',
+    });
+  }
+  const [afterRow] = await selectMaterials(connection, { id });
+  await recordAudit(connection, req, { entityType: 'material', entityId: id, action: 'update', before, after: mapMaterial(afterRow) });
+};
+
+app.post('/api/import/materials', requirePermission('materials', 'create'), validateBody(importSchema), asyncHandler(async (req, res) => {
+  assertImportAllowed(req, 'materials');
+  const { groups, issues } = groupImportRows(req.body.rows, materialImportRowSchema, (row) => row.name, { single: true });
+  const report = await runImport(req, issues, async (connection, save) => {
+    const materials = await selectByName(connection, 'materials');
+    for (const [{ index, row }] of groups) {
+      const current = materials.get(nameKey(row.name));
+      // Blank cells keep an existing material's values, but a new one has none to keep.
+      const missing = current ? [] : ['unit', 'cost'].filter((field) => row[field] === undefined);
+      if (missing.length > 0) {
+        missing.forEach((field) => issues.push({ path: `rows.${index}.${field}`, message: 'Required for a new material' }));
+        continue;
+      }
+      await save([index], row.name, current ? 'update' : 'create', async () => {
+        assertImportTarget(req, current, `Material ${current?.name}`);
+        if (current) {
+          await importMaterialUpdate(connection, req, current.id, row);
+        } else {
+          await createMaterial(connection, req, { ...row, id: crypto.randomUUID(), stock: row.stock ?? 0, createdAt: new Date().toISOString() });
+        }
+      });
+    }
+  });
+  res.json(report);
+}));
+
+// Products in the file come after the sub-assemblies they use from it, so those exist by then.
+const orderBySubassemblies = (groups) => {
+  const byName = new Map(groups.map((group) => [nameKey(group[0].row.product), group]));
+  const visited = new Set();
+  const sorted = [];
+  const visit = (group) => {
+    const key = nameKey(group[0].row.product);
+    if (visited.has(key)) return;
+    visited.add(key);
+    group.forEach(({ row }) => {
+      const subassembly = byName.get(nameKey(row.component));
+      if (subassembly) visit(subassembly);
+    });
+    sorted.push(group);
+  };
+  groups.forEach(visit);
+  return sorted;
+};
+
+// Long format: one row per BOM line. A component is a material, or else a product used as a
+// sub-assembly. Updating a product replaces its whole BOM with the lines in the file.
+app.post('/api/import/products', requirePermission('products', 'create'), validateBody(importSchema), asyncHandler(async (req, res) => {
+  assertImportAllowed(req, 'products');
+  const { groups, issues } = groupImportRows(req.body.rows, productImportRowSchema, (row) => row.product);
+  const report = await runImport(req, issues, async (connection, save) => {
+    const materials = await selectByName(connection, 'materials');
+    const products = await selectByName(connection, 'products');
+    for (const group of orderBySubassemblies(groups)) {
+      const name = group[0].row.product;
+      const issueCount = issues.length;
+      const lines = group.map(({ index, row }) => {
+        const material = materials.get(nameKey(row.component));
+        const subassembly = material ? undefined : products.get(nameKey(row.component));
+        const component = material ?? subassembly;
+        if (!component) {
+          issues.push({ path: `rows.${index}.component`, message: `No material or product is named ${row.component}` });
+        } else if (component.archived_at) {
+          issues.push({ path: `rows.${index}.component`, message: `${component.name} is archived` });
+        }
+        return material
+          ? { materialId: material.id, quantity: row.quantity, unit: row.unit }
+          : { productId: subassembly?.id, quantity: row.quantity };
+      });
+      if (issues.length > issueCount) continue;
+
+      const current = products.get(nameKey(name));
+      await save(group.map(({ index }) => index), name, current ? 'update' : 'create', async () => {
+        assertImportTarget(req, current, `Product ${current?.name}`);
+        if (current) {
+          const before = await loadProduct(connection, current.id);
+          await updateProduct(connection, req, { ...before, name, materials: lines });
+        } else {
+          const id = crypto.randomUUID();
+          await createProduct(connection, req, { id, name, materials: lines, createdAt: new Date().toISOString() });
+          products.set(nameKey(name), { id, name, archived_at: null });
+        }
+      });
+    }
+  });
+  res.json(report);
+}));
+
+// Long format: one row per order line. The order's own fields are taken from the first of its
+// rows to fill them. Updating an order replaces its lines and keeps its status and leftovers.
+app.post('/api/import/orders', requirePermission('orders', 'create'), validateBody(importSchema), asyncHandler(async (req, res) => {
+  assertImportAllowed(req, 'orders');
+  const { groups, issues } = groupImportRows(req.body.rows, orderImportRowSchema, (row) => row.orderNumber);
+  const report = await runImport(req, issues, async (connection, save) => {
+    const orders = await selectByName(connection, 'orders', 'order_number');
+    const products = await selectByName(connection, 'products');
+    const customers = await selectByName(connection, 'customers');
+    for (const group of groups) {
+      // Blank cells are left out of rows, so earlier rows win.
+      const order = Object.assign({}, ...group.map(({ row }) => row).reverse());
+      const issueCount = issues.length;
+      const customerRow = group.find(({ row }) => row.customer);
+      const customer = order.customer && customers.get(nameKey(order.customer));
+      if (customerRow && !customer) {
+        issues.push({ path: `rows.${customerRow.index}.customer`, message: `No customer is named ${order.customer}` });
+      }
+      const lines = group.map(({ index, row }) => {
+        const product = products.get(nameKey(row.product));
+        if (!product) {
+          issues.push({ path: `rows.${index}.product`, message: `No product is named ${row.product}` });
+        } else if (product.archived_at) {
+          issues.push({ path: `rows.${index}.product`, message: `${product.name} is archived` });
+        }
+        return { productId: product?.id, quantity: row.quantity };
+      });
+      if (issues.length > issueCount) continue;
+
+      const current = orders.get(nameKey(order.orderNumber));
+      await save(group.map(({ index }) => index), order.orderNumber, current ? 'update' : 'create', async () => {
+        assertImportTarget(req, current, `Order ${current?.name}`);
+        if (current) {
+          const before = await findOrderForUpdate(connection, current.id);
+          await updateOrder(connection, req, current.id, {
+            ...before,
+            orderNumber: order.orderNumber,
+            products: lines,
+            customerId: customer?.id ?? before.customerId,
+            deliveryDate: order.deliveryDate ?? before.deliveryDate,
+            notes: order.notes ?? before.notes,
+          });
+        } else {
+          await createOrder(connection, req, {
+            id: crypto.randomUUID(),
+            orderNumber: order.orderNumber,
+            status: order.status ?? 'draft',
+            products: lines,
+            leftovers: [],
+            customerId: customer?.id,
+            deliveryDate: order.deliveryDate,
+            notes: order.notes,
+            createdAt: new Date().toISOString(),
+          });
+        }
+      });
+    }
+  });
+  res.json(report);
+}));
+
+const MATERIAL_EXPORT_HEADERS = ['Name', 'Cost', 'Unit', 'Stock', 'Reorder Point', 'Reorder Quantity', 'Safety Stock', 'Lead Time (days)', 'Created Date'];
+const PRODUCT_EXPORT_HEADERS = ['Name', 'Material Count', 'Total Cost', 'Created Date'];
+const ORDER_EXPORT_HEADERS = ['Order Number', 'Customer', 'Status', 'Total Cost', 'Product Count', 'Created Date', 'Completed Date', 'Delivery Date'];
+const ORDER_LINE_EXPORT_HEADERS = ['Order Number', 'Customer', 'Status', 'Created Date', 'Completed Date', 'Delivery Date', 'Notes', 'Product', 'Quantity', 'Unit Cost', 'Line Cost'];
+
+// Exports take the list filters and sort, and `delimiter`. Each reads one snapshot, in batches.
+app.get('/api/export/materials.csv', requirePermission('materials', 'read'), asyncHandler(async (req, res) => {
+  const delimiter = parseDelimiter(req.query.delimiter);
+  const query = materialListQuery(req.query);
+  await withTransaction((connection) =>
+    sendCsv(res, {
+      filename: 'materials',
+      delimiter,
+      headers: MATERIAL_EXPORT_HEADERS,
+      batches: listBatches(connection, query),
+      toRows: (m) => [[
+        m.name,
+        m.cost,
+        m.unit,
+        m.stock,
+        m.reorderPoint,
+        m.reorderQuantity,
+        m.safetyStock,
+        m.leadTimeDays,
+        day(m.createdAt),
+      ]],
+    })
+  );
+}));
+
+// Products carry their BOM and unit cost from the catalog; a cost sort is one sorted batch.
+app.get('/api/export/products.csv', requirePermission('products', 'read'), asyncHandler(async (req, res) => {
+  const delimiter = parseDelimiter(req.query.delimiter);
+  const { list, ...query } = productListQuery(req.query);
+  await withTransaction(async (connection) => {
+    const catalog = await loadCatalog(connection);
+    const byId = new Map(catalog.products.map((product) => [product.id, product]));
+    const batches = async function* () {
+      if (list.sort !== 'cost') {
+        yield* listBatches(connection, { ...query, list });
+        return;
+      }
+      const { items } = await listPage(connection, { ...query, list: { ...list, limit: 0 } });
+      yield sortByCost(items, catalog, list.direction);
+    };
+    await sendCsv(res, {
+      filename: 'products',
+      delimiter,
+      headers: PRODUCT_EXPORT_HEADERS,
+      batches: batches(),
+      toRows: (p) => [[
+        p.name,
+        byId.get(p.id)?.materials.length ?? 0,
+        money(calculateProductCost(p.id, catalog.products, catalog.materials)),
+        day(p.createdAt),
+      ]],
+    });
+  });
+}));
+
+// `lines=true` writes one row per order line, with the order's fields repeated on each.
+app.get('/api/export/orders.csv', requirePermission('orders', 'read'), asyncHandler(async (req, res) => {
+  const delimiter = parseDelimiter(req.query.delimiter);
+  const query = orderListQuery(req.query);
+  const perLine = req.query.lines === 'true';
+  await withTransaction(async (connection) => {
+    const [[customerRows], [productRows]] = await Promise.all([
+      connection.query('SELECT id, name FROM customers'),
+      connection.query('SELECT id, name FROM products'),
+    ]);
+    const customers = new Map(customerRows.map((row) => [row.id, row.name]));
+    const products = new Map(productRows.map((row) => [row.id, row.name]));
+    const batches = async function* () {
+      for await (const batch of listBatches(connection, query)) {
+        yield await attachOrderLines(connection, batch);
+      }
+    };
+    await sendCsv(res, {
+      filename: perLine ? 'order_lines' : 'orders',
+      delimiter,
+      headers: perLine ? ORDER_LINE_EXPORT_HEADERS : ORDER_EXPORT_HEADERS,
+      batches: batches(),
+      toRows: (o) => {
+        const customer = customers.get(o.customerId);
+        if (!perLine) {
+          return [[
+            o.orderNumber,
+            customer,
+            o.status,
+            money(o.totalCost),
+            o.products.length,
+            day(o.createdAt),
+            day(o.completedAt),
+            o.deliveryDate,
+          ]];
+        }
+        return o.products.map((line) => [
+          o.orderNumber,
+          customer,
+          o.status,
+          day(o.createdAt),
+          day(o.completedAt),
+          o.deliveryDate,
+          o.notes,
+          products.get(line.productId),
+          line.quantity,
+          line.unitCost === undefined ? undefined : money(line.unitCost),
+          line.unitCost === undefined ? undefined : money(line.unitCost * line.quantity),
+        ]);
+      },
+    });
+  });
+}));
+
+const AUDIT_SORT_FIELDS = { date: 'audit_log.created_at' };
+const AUDIT_FILTERS = { entityId: 'entity_id', userId: 'user_id', action: 'action' };
+
+// Lists audit entries, newest first; filters by `entityType`, `entityId`, `userId`, `action` and date.
+app.get('/api/audit', requirePermission('audit', 'read'), asyncHandler(async (req, res) => {
+  const list = parseListQuery(req.query, { sortFields: AUDIT_SORT_FIELDS, defaultSort: 'date', defaultDirection: 'desc' });
+  const dates = dateRangeFilter('audit_log.created_at', req.query);
+  const conditions = [...dates.conditions];
+  const params = { ...dates.params };
+  if (req.query.entityType) {
+    if (!AUDIT_ENTITY_TYPES.includes(req.query.entityType)) {
+      throw new HttpError(400, `Unknown entity type: ${req.query.entityType}`);
+    }
+    conditions.push('audit_log.entity_type = :entityType');
+    params.entityType = req.query.entityType;
+  }
+  Object.entries(AUDIT_FILTERS).forEach(([filter, column]) => {
+    if (req.query[filter]) {
+      conditions.push(`audit_log.${column} = :${filter}`);
+      params[filter] = String(req.query[filter]);
+    }
+  });
+  res.json(
+    await listPage(pool, {
+      select: "audit_log.*, CONCAT(users.name, ' ', users.surname) AS user_name",
+      from: 'audit_log LEFT JOIN users ON users.id = audit_log.user_id',
+      conditions,
+      params,
+      list,
+      sortFields: AUDIT_SORT_FIELDS,
+      tiebreaker: 'audit_log.id',
+      map: mapAuditEntry,
+    })
+  );
+}));
+
+app.use((err, _req, res, next) => {
+  // A streamed download that fails part way can only be cut off.
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message, ...err.details });
+    return;
+  }
+  // Foreign keys back up the explicit checks, e.g. for a record deleted by another request.
+  if (err?.code === 'ER_NO_REFERENCED_ROW_2') {
+    res.status(400).json({ error: 'A referenced customer, supplier, material or product does not exist' });
+    return;
+  }
+  if (err?.code === 'ER_ROW_IS_REFERENCED_2') {
+    res.status(409).json({ error: 'The record is still used elsewhere' });
+    return;
+  }
   res.status(500).json({ error: err instanceof Error ? err.message : 'Server error' });
 });
 
 const start = async () => {
   try {
-    await ensureSchema();
+    await migrateUp(pool, { log: (message) => process.stdout.write(`${message}\n`) });
+    await prepareData();
     const port = Number(process.env.PORT || 4000);
     app.listen(port, () => {
       process.stdout.write(`Server listening on ${port}\n`);
@@ -0,0 +1,264 @@
+import { parseJsonField } from './db.js';
+import { HttpError } from './errors.js';
+
+// BOM lines, order lines, leftovers and purchase order lines live in their own tables so
+// foreign keys can stop a material or product from being deleted while something still
+// refers to it.
+
+const groupBy = (rows, key, map) => {
+  const groups = new Map();
+  rows.forEach((row) => {
+    const group = groups.get(row[key]) ?? [];
+    group.push(map(row));
+    groups.set(row[key], group);
+  });
+  return groups;
+};
+
+// `factor` converts a line given in its own unit to its material's unit.
+const mapBomLine = (row) =>
+  row.material_id
+    ? {
+        materialId: row.material_id,
+        quantity: Number(row.quantity),
+        ...(row.unit && { unit: row.unit, factor: Number(row.line_factor) / Number(row.base_factor) }),
+      }
+    : { productId: row.subassembly_id, quantity: Number(row.quantity) };
+
+const mapOrderLine = (row) => ({
+  productId: row.product_id,
+  quantity: Number(row.quantity),
+  unitCost: row.unit_cost === null ? undefined : Number(row.unit_cost),
+  materialCosts: row.material_costs === null ? undefined : parseJsonField(row.material_costs),
+});
+
+const mapLeftover = (row) => ({ materialId: row.material_id, quantity: Number(row.quantity) });
+
+const mapPurchaseOrderLine = (row) => ({
+  materialId: row.material_id,
+  quantity: Number(row.quantity),
+  unitPrice: Number(row.unit_price),
+  receivedQuantity: Number(row.received_quantity),
+});
+
+/**
+ * Returns the products with their `materials` read from `product_materials`, in the
+ * order the lines were saved.
+ */
+export const attachBomLines = async (connection, products) => {
+  if (products.length === 0) return products;
+  const [rows] = await connection.query(
+    `SELECT product_materials.*, line_units.factor AS line_factor, base_units.factor AS base_factor
+     FROM product_materials
+     LEFT JOIN units AS line_units ON line_units.code = product_materials.unit
+     LEFT JOIN materials ON materials.id = product_materials.material_id
+     LEFT JOIN units AS base_units ON base_units.code = materials.unit
+     WHERE product_materials.product_id IN (:ids)
+     ORDER BY product_materials.position`,
+    { ids: products.map((product) => product.id) }
+  );
+  const lines = groupBy(rows, 'product_id', mapBomLine);
+  return products.map((product) => ({ ...product, materials: lines.get(product.id) ?? [] }));
+};
+
+/**
+ * Returns the orders with their `products` and `leftovers` read from `order_lines` and
+ * `order_leftovers`.
+ */
+export const attachOrderLines = async (connection, orders) => {
+  if (orders.length === 0) return orders;
+  const ids = orders.map((order) => order.id);
+  const [[lineRows], [leftoverRows]] = await Promise.all([
+    connection.query('SELECT * FROM order_lines WHERE order_id IN (:ids) ORDER BY position', { ids }),
+    connection.query('SELECT * FROM order_leftovers WHERE order_id IN (:ids) ORDER BY position', { ids }),
+  ]);
+  const lines = groupBy(lineRows, 'order_id', mapOrderLine);
+  const leftovers = groupBy(leftoverRows, 'order_id', mapLeftover);
+  return orders.map((order) => ({
+    ...order,
+    products: lines.get(order.id) ?? [],
+    leftovers: leftovers.get(order.id) ?? [],
+  }));
+};
+
+/**
+ * Returns the purchase orders with their `lines` read from `purchase_order_lines`, in the
+ * order the lines were saved.
+ */
+export const attachPurchaseOrderLines = async (connection, purchaseOrders) => {
+  if (purchaseOrders.length === 0) return purchaseOrders;
+  const [rows] = await connection.query(
+    'SELECT * FROM purchase_order_lines WHERE purchase_order_id IN (:ids) ORDER BY position',
+    { ids: purchaseOrders.map((purchaseOrder) => purchaseOrder.id) }
+  );
+  const lines = groupBy(rows, 'purchase_order_id', mapPurchaseOrderLine);
+  return purchaseOrders.map((purchaseOrder) => ({ ...purchaseOrder, lines: lines.get(purchaseOrder.id) ?? [] }));
+};
+
+// Replaces a product's BOM lines.
+export const saveBomLines = async (connection, productId, lines) => {
+  await connection.query('DELETE FROM product_materials WHERE product_id = :productId', { productId });
+  for (const [position, line] of lines.entries()) {
+    await connection.query(
+      `INSERT INTO product_materials (product_id, position, material_id, subassembly_id, quantity, unit)
+       VALUES (:product_id, :position, :material_id, :subassembly_id, :quantity, :unit)`,
+      {
+        product_id: productId,
+        position,
+        material_id: line.materialId || null,
+        subassembly_id: line.materialId ? null : line.productId,
+        quantity: line.quantity,
+        unit: (line.materialId && line.unit) || null,
+      }
+    );
+  }
+};
+
+// Replaces an order's lines, with their price snapshots, and its leftovers.
+export const saveOrderLines = async (connection, order) => {
+  await connection.query('DELETE FROM order_lines WHERE order_id = :orderId', { orderId: order.id });
+  await connection.query('DELETE FROM order_leftovers WHERE order_id = :orderId', { orderId: order.id });
+  for (const [position, line] of order.products.entries()) {
+    await connection.query(
+      `INSERT INTO order_lines (order_id, position, product_id, quantity, unit_cost, material_costs)
+       VALUES (:order_id, :position, :product_id, :quantity, :unit_cost, :material_costs)`,
+      {
+        order_id: order.id,
+        position,
+        product_id: line.productId,
+        quantity: line.quantity,
+        unit_cost: line.unitCost ?? null,
+        material_costs: line.materialCosts ? JSON.stringify(line.materialCosts) : null,
+      }
+    );
+  }
+  for (const [position, leftover] of order.leftovers.entries()) {
+    await connection.query(
+      `INSERT INTO order_leftovers (order_id, position, material_id, quantity)
+       VALUES (:order_id, :position, :material_id, :quantity)`,
+      { order_id: order.id, position, material_id: leftover.materialId, quantity: leftover.quantity }
+    );
+  }
+};
+
+// Replaces a purchase order's lines, with how much of each has been received.
+export const savePurchaseOrderLines = async (connection, purchaseOrder) => {
+  await connection.query('DELETE FROM purchase_order_lines WHERE purchase_order_id = :id', { id: purchaseOrder.id });
+  for (const [position, line] of purchaseOrder.lines.entries()) {
+    await connection.query(
+      `INSERT INTO purchase_order_lines (purchase_order_id, position, material_id, quantity, unit_price, received_quantity)
+       VALUES (:purchase_order_id, :position, :material_id, :quantity, :unit_price, :received_quantity)`,
+      {
+        purchase_order_id: purchaseOrder.id,
+        position,
+        material_id: line.materialId,
+        quantity: line.quantity,
+        unit_price: line.unitPrice,
+        received_quantity: line.receivedQuantity ?? 0,
+      }
+    );
+  }
+};
+
+const mapDependentProduct = (row) => ({ id: row.id, name: row.name });
+
+const mapDependentOrder = (row) => ({ id: row.id, orderNumber: row.order_number });
+
+const mapDependentPurchaseOrder = (row) => ({ id: row.id, poNumber: row.po_number });
+
+// Products whose BOM uses the material, orders that return it as a leftover and purchase
+// orders buying it.
+export const findMaterialDependents = async (connection, materialId) => {
+  const [[productRows], [orderRows], [purchaseOrderRows]] = await Promise.all([
+    connection.query(
+      `SELECT DISTINCT products.id, products.name
+       FROM product_materials
+       JOIN products ON products.id = product_materials.product_id
+       WHERE product_materials.material_id = :materialId
+       ORDER BY products.name`,
+      { materialId }
+    ),
+    connection.query(
+      `SELECT DISTINCT orders.id, orders.order_number
+       FROM order_leftovers
+       JOIN orders ON orders.id = order_leftovers.order_id
+       WHERE order_leftovers.material_id = :materialId
+       ORDER BY orders.order_number`,
+      { materialId }
+    ),
+    connection.query(
+      `SELECT DISTINCT purchase_orders.id, purchase_orders.po_number
+       FROM purchase_order_lines
+       JOIN purchase_orders ON purchase_orders.id = purchase_order_lines.purchase_order_id
+       WHERE purchase_order_lines.material_id = :materialId
+       ORDER BY purchase_orders.po_number`,
+      { materialId }
+    ),
+  ]);
+  return {
+    products: productRows.map(mapDependentProduct),
+    orders: orderRows.map(mapDependentOrder),
+    purchaseOrders: purchaseOrderRows.map(mapDependentPurchaseOrder),
+  };
+};
+
+// Products that use the product as a sub-assembly and orders with a line for it.
+export const findProductDependents = async (connection, productId) => {
+  const [[productRows], [orderRows]] = await Promise.all([
+    connection.query(
+      `SELECT DISTINCT products.id, products.name
+       FROM product_materials
+       JOIN products ON products.id = product_materials.product_id
+       WHERE product_materials.subassembly_id = :productId
+       ORDER BY products.name`,
+      { productId }
+    ),
+    connection.query(
+      `SELECT DISTINCT orders.id, orders.order_number
+       FROM order_lines
+       JOIN orders ON orders.id = order_lines.order_id
+       WHERE order_lines.product_id = :productId
+       ORDER BY orders.order_number`,
+      { productId }
+    ),
+  ]);
+  return { products: productRows.map(mapDependentProduct), orders: orderRows.map(mapDependentOrder), purchaseOrders: [] };
+};
+
+// Orders placed by the customer.
+export const findCustomerDependents = async (connection, customerId) => {
+  const [orderRows] = await connection.query(
+    'SELECT id, order_number FROM orders WHERE customer_id = :customerId ORDER BY order_number',
+    { customerId }
+  );
+  return { products: [], orders: orderRows.map(mapDependentOrder), purchaseOrders: [] };
+};
+
+// Purchase orders placed with the supplier.
+export const findSupplierDependents = async (connection, supplierId) => {
+  const [purchaseOrderRows] = await connection.query(
+    'SELECT id, po_number FROM purchase_orders WHERE supplier_id = :supplierId ORDER BY po_number',
+    { supplierId }
+  );
+  return { products: [], orders: [], purchaseOrders: purchaseOrderRows.map(mapDependentPurchaseOrder) };
+};
+
+/**
+ * Rejects deleting `name` with a 409 while `dependents` (from the find*Dependents helpers)
+ * is not empty. The response lists the dependents so the client can show them.
+ */
+export const assertNoDependents = (name, dependents) => {
+  const uses = [];
+  if (dependents.products.length > 0) {
+    uses.push(`products ${dependents.products.map((product) => product.name).join(', ')}`);
+  }
+  if (dependents.orders.length > 0) {
+    uses.push(`orders ${dependents.orders.map((order) => order.orderNumber).join(', ')}`);
+  }
+  if (dependents.purchaseOrders.length > 0) {
+    uses.push(`purchase orders ${dependents.purchaseOrders.map((purchaseOrder) => purchaseOrder.poNumber).join(', ')}`);
+  }
+  if (uses.length > 0) {
+    throw new HttpError(409, `${name} is still used by ${uses.join(' and ')}`, { dependents });
+  }
+};
@@ -0,0 +1,125 @@
+import { HttpError } from './errors.js';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+const DIRECTIONS = ['asc', 'desc'];
+
+/**
+ * Reads `page`, `limit`, `sort`, `direction` and `search` from a list request.
+ * `sortFields` maps the sort names a client may use to SQL expressions. `limit=0`
+ * returns every matching row on a single page, for lookups such as select options.
+ */
+export const parseListQuery = (query, { sortFields, defaultSort, defaultDirection = 'asc' }) => {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  const sort = query.sort || defaultSort;
+  const direction = String(query.direction || defaultDirection).toLowerCase();
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new HttpError(400, 'page must be a positive integer');
+  }
+  if (!Number.isInteger(limit) || limit < 0 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be an integer between 0 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Object.hasOwn(sortFields, sort)) {
+    throw new HttpError(400, `sort must be one of: ${Object.keys(sortFields).join(', ')}`);
+  }
+  if (!DIRECTIONS.includes(direction)) {
+    throw new HttpError(400, 'direction must be asc or desc');
+  }
+
+  return {
+    page,
+    limit,
+    sort,
+    direction,
+    search: typeof query.search === 'string' ? query.search.trim() : '',
+  };
+};
+
+// LIKE pattern matching `search` anywhere, with wildcard characters taken literally.
+export const containing = (search) => `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+
+const parseDateBound = (value, name, endOfDay) => {
+  const text = String(value);
+  const isDay = /^\d{4}-\d{2}-\d{2}$/.test(text);
+  const date = new Date(isDay ? `${text}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : text);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `${name} is not a valid date`);
+  }
+  return date.toISOString();
+};
+
+/**
+ * Conditions restricting `column` (an ISO timestamp) to the `from`/`to` query parameters.
+ * Bare dates are inclusive: `to=2024-03-31` includes the whole of March 31st.
+ */
+export const dateRangeFilter = (column, query) => {
+  const conditions = [];
+  const params = {};
+  if (query.from) {
+    conditions.push(`${column} >= :from`);
+    params.from = parseDateBound(query.from, 'from', false);
+  }
+  if (query.to) {
+    conditions.push(`${column} <= :to`);
+    params.to = parseDateBound(query.to, 'to', true);
+  }
+  return { conditions, params };
+};
+
+/**
+ * Condition on `column` (an `archived_at` timestamp) for the `includeArchived` query
+ * parameter: archived rows are left out by default, `true` includes them and `only`
+ * returns nothing else.
+ */
+export const archivedFilter = (column, query) => {
+  const value = query.includeArchived === undefined ? 'false' : String(query.includeArchived);
+  if (value === 'false') return [`${column} IS NULL`];
+  if (value === 'true') return [];
+  if (value === 'only') return [`${column} IS NOT NULL`];
+  throw new HttpError(400, 'includeArchived must be true, false or only');
+};
+
+const whereClause = (conditions) => (conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '');
+
+/**
+ * Runs a filtered, sorted and paginated query and returns `{ items, total, page, limit }`,
+ * where `total` counts every row matching the filters.
+ */
+export const listPage = async (connection, { select = '*', from, conditions = [], params = {}, list, sortFields, tiebreaker, map }) => {
+  const where = whereClause(conditions);
+  const [[{ total }]] = await connection.query(`SELECT COUNT(*) AS total FROM ${from} ${where}`, params);
+  const [rows] = await connection.query(
+    `SELECT ${select}
+     FROM ${from}
+     ${where}
+     ORDER BY ${sortFields[list.sort]} ${list.direction}, ${tiebreaker}
+     ${list.limit > 0 ? 'LIMIT :limit OFFSET :offset' : ''}`,
+    { ...params, limit: list.limit, offset: (list.page - 1) * list.limit }
+  );
+  return { items: rows.map(map), total: Number(total), page: list.page, limit: list.limit };
+};
+
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Yields every row matching the filters, in `listPage` order, one batch at a time, so an
+ * export never holds the whole table. `list.page` and `list.limit` are ignored. Run it in a
+ * transaction, whose snapshot keeps rows from shifting between batches.
+ */
+export async function* listBatches(connection, { select = '*', from, conditions = [], params = {}, list, sortFields, tiebreaker, map }) {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const [rows] = await connection.query(
+      `SELECT ${select}
+       FROM ${from}
+       ${whereClause(conditions)}
+       ORDER BY ${sortFields[list.sort]} ${list.direction}, ${tiebreaker}
+       LIMIT :limit OFFSET :offset`,
+      { ...params, limit: EXPORT_BATCH_SIZE, offset }
+    );
+    if (rows.length > 0) yield rows.map(map);
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+  }
+}
@@ -0,0 +1,41 @@
+// Command line for schema migrations: `npm run migrate -- up|down|status`.
+
+import { pool } from './db.js';
+import { migrateDown, migrateUp, migrationStatus } from './migrator.js';
+
+const log = (message) => process.stdout.write(`${message}\n`);
+
+const commands = {
+  up: async () => {
+    const applied = await migrateUp(pool, { log });
+    log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema is up to date');
+  },
+  down: async () => {
+    const reverted = await migrateDown(pool, { log });
+    log(reverted ? `Reverted ${reverted.file}` : 'No migrations to revert');
+  },
+  status: async () => {
+    const { migrations, unknown, changed } = await migrationStatus(pool);
+    migrations.forEach((migration) => {
+      const state = changed.some(({ version }) => version === migration.version) ? 'changed since applied' : migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+      log(`${migration.file.padEnd(40)} ${state}`);
+    });
+    unknown.forEach((row) => log(`${`${row.version}_${row.name}`.padEnd(40)} unknown, applied ${row.applied_at}`));
+  },
+};
+
+const command = commands[process.argv[2] ?? 'status'];
+
+if (!command) {
+  process.stderr.write(`Usage: node server/migrate.js <${Object.keys(commands).join('|')}>\n`);
+  process.exit(1);
+}
+
+try {
+  await command();
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
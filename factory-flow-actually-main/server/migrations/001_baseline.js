@@ -0,0 +1,360 @@
+import crypto from 'node:crypto';
+
+// The schema as it stood when versioned migrations were introduced. Databases created
+// before then already hold some or all of it, so unlike later migrations every step here
+// checks what exists and upgrades older layouts in place. The helpers below are frozen
+// copies rather than imports, so that the file's checksum covers everything it does.
+
+/** Checksums of earlier revisions of this file, which did the same on every database. */
+export const previousChecksums = [
+  'e2084a7edf688a3617560b3406b332c342a3759baf3ef1800a86b974cbf88cd2',
+  '3e937d069bdfe1e7d76a3e3711fd35c35419f8ca346d6ab6a6b4e0f00a408941',
+  '18bf4540a41a70c77a9a03464c9d6b2c489e7cf61c0af3540529132f311f1b37',
+];
+
+const columnExists = async (connection, table, column) => {
+  const [rows] = await connection.query(
+    `SELECT COUNT(*) AS count
+     FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name = :table AND column_name = :column`,
+    { table, column }
+  );
+  return rows[0].count > 0;
+};
+
+const ensureColumn = async (connection, table, column, definition) => {
+  if (!(await columnExists(connection, table, column))) {
+    await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+const parseJsonField = (value) => {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return JSON.parse(value);
+  return value;
+};
+
+// Passwords are hashed in the format the server verifies: `scrypt$<salt>$<64-byte key>`, in hex.
+const isPasswordHash = (value) => typeof value === 'string' && value.startsWith('scrypt$');
+
+const hashPassword = (password) =>
+  new Promise((resolve, reject) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    crypto.scrypt(password, salt, 64, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(`scrypt$${salt}$${derivedKey.toString('hex')}`);
+    });
+  });
+
+export const up = async (connection) => {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS users (
+      id VARCHAR(36) PRIMARY KEY,
+      email VARCHAR(255) UNIQUE NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      surname VARCHAR(255) NOT NULL,
+      phone VARCHAR(50) NOT NULL,
+      role VARCHAR(20) NOT NULL,
+      password VARCHAR(255) NOT NULL
+    )
+  `);
+
+  await ensureColumn(connection, 'users', 'archived_at', 'VARCHAR(50)');
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS materials (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      unit VARCHAR(50) NOT NULL,
+      stock DECIMAL(12,2) NOT NULL,
+      created_at VARCHAR(50) NOT NULL
+    )
+  `);
+
+  await ensureColumn(connection, 'materials', 'archived_at', 'VARCHAR(50)');
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS material_prices (
+      id VARCHAR(36) PRIMARY KEY,
+      material_id VARCHAR(36) NOT NULL,
+      cost DECIMAL(10,2) NOT NULL,
+      effective_from VARCHAR(50) NOT NULL,
+      supplier VARCHAR(255),
+      note VARCHAR(255),
+      user_id VARCHAR(36),
+      created_at VARCHAR(50) NOT NULL,
+      INDEX idx_material_prices_effective (material_id, effective_from),
+      FOREIGN KEY (material_id) REFERENCES materials(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Materials used to hold a single cost; it becomes the first entry of their price history.
+  if (await columnExists(connection, 'materials', 'cost')) {
+    await connection.query(
+      `INSERT INTO material_prices (id, material_id, cost, effective_from, note, created_at)
+       SELECT UUID(), id, cost, created_at, 'Initial cost', created_at
+       FROM materials
+       WHERE NOT EXISTS (SELECT 1 FROM material_prices WHERE material_prices.material_id = materials.id)`
+    );
+    await connection.query('ALTER TABLE materials DROP COLUMN cost');
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS products (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      created_at VARCHAR(50) NOT NULL
+    )
+  `);
+
+  await ensureColumn(connection, 'products', 'archived_at', 'VARCHAR(50)');
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS product_materials (
+      product_id VARCHAR(36) NOT NULL,
+      position INT NOT NULL,
+      material_id VARCHAR(36),
+      subassembly_id VARCHAR(36),
+      quantity DECIMAL(12,4) NOT NULL,
+      PRIMARY KEY (product_id, position),
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+      FOREIGN KEY (material_id) REFERENCES materials(id),
+      FOREIGN KEY (subassembly_id) REFERENCES products(id)
+    )
+  `);
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS orders (
+      id VARCHAR(36) PRIMARY KEY,
+      order_number VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      total_cost DECIMAL(12,2) NOT NULL,
+      created_at VARCHAR(50) NOT NULL,
+      completed_at VARCHAR(50)
+    )
+  `);
+
+  await ensureColumn(connection, 'orders', 'priced_at', 'VARCHAR(50)');
+  await ensureColumn(connection, 'orders', 'archived_at', 'VARCHAR(50)');
+
+  // `material_costs` is the price snapshot of a locked line, kept as recorded.
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS order_lines (
+      order_id VARCHAR(36) NOT NULL,
+      position INT NOT NULL,
+      product_id VARCHAR(36) NOT NULL,
+      quantity DECIMAL(12,2) NOT NULL,
+      unit_cost DECIMAL(12,2),
+      material_costs JSON,
+      PRIMARY KEY (order_id, position),
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (product_id) REFERENCES products(id)
+    )
+  `);
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS order_leftovers (
+      order_id VARCHAR(36) NOT NULL,
+      position INT NOT NULL,
+      material_id VARCHAR(36) NOT NULL,
+      quantity DECIMAL(12,2) NOT NULL,
+      PRIMARY KEY (order_id, position),
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (material_id) REFERENCES materials(id)
+    )
+  `);
+
+  // BOMs, order lines and leftovers used to be JSON columns. Lines pointing at a material or
+  // product that had already been deleted cannot be kept under the foreign keys and are dropped.
+  if (await columnExists(connection, 'products', 'materials') || await columnExists(connection, 'orders', 'products')) {
+    const idsOf = async (table) => new Set((await connection.query(`SELECT id FROM ${table}`))[0].map((row) => row.id));
+    const materialIds = await idsOf('materials');
+    const productIds = await idsOf('products');
+    let dropped = 0;
+    const existing = (lines, isKnown) => {
+      const kept = lines.filter(isKnown);
+      dropped += lines.length - kept.length;
+      return kept;
+    };
+
+    if (await columnExists(connection, 'products', 'materials')) {
+      const [legacy] = await connection.query('SELECT id, materials FROM products');
+      for (const product of legacy) {
+        const lines = existing(parseJsonField(product.materials), (line) =>
+          line.materialId ? materialIds.has(line.materialId) : productIds.has(line.productId)
+        );
+        await connection.query('DELETE FROM product_materials WHERE product_id = :productId', { productId: product.id });
+        for (const [position, line] of lines.entries()) {
+          await connection.query(
+            `INSERT INTO product_materials (product_id, position, material_id, subassembly_id, quantity)
+             VALUES (:product_id, :position, :material_id, :subassembly_id, :quantity)`,
+            {
+              product_id: product.id,
+              position,
+              material_id: line.materialId || null,
+              subassembly_id: line.materialId ? null : line.productId,
+              quantity: line.quantity,
+            }
+          );
+        }
+      }
+      await connection.query('ALTER TABLE products DROP COLUMN materials');
+    }
+
+    if (await columnExists(connection, 'orders', 'products')) {
+      const [legacy] = await connection.query('SELECT id, products, leftovers FROM orders');
+      for (const order of legacy) {
+        const lines = existing(parseJsonField(order.products), (line) => productIds.has(line.productId));
+        const leftovers = existing(parseJsonField(order.leftovers), (line) => materialIds.has(line.materialId));
+        await connection.query('DELETE FROM order_lines WHERE order_id = :orderId', { orderId: order.id });
+        await connection.query('DELETE FROM order_leftovers WHERE order_id = :orderId', { orderId: order.id });
+        for (const [position, line] of lines.entries()) {
+          await connection.query(
+            `INSERT INTO order_lines (order_id, position, product_id, quantity, unit_cost, material_costs)
+             VALUES (:order_id, :position, :product_id, :quantity, :unit_cost, :material_costs)`,
+            {
+              order_id: order.id,
+              position,
+              product_id: line.productId,
+              quantity: line.quantity,
+              unit_cost: line.unitCost ?? null,
+              material_costs: line.materialCosts ? JSON.stringify(line.materialCosts) : null,
+            }
+          );
+        }
+        for (const [position, leftover] of leftovers.entries()) {
+          await connection.query(
+            `INSERT INTO order_leftovers (order_id, position, material_id, quantity)
+             VALUES (:order_id, :position, :material_id, :quantity)`,
+            { order_id: order.id, position, material_id: leftover.materialId, quantity: leftover.quantity }
+          );
+        }
+      }
+      await connection.query('ALTER TABLE orders DROP COLUMN products, DROP COLUMN leftovers');
+    }
+
+    if (dropped > 0) {
+      process.stdout.write(`Dropped ${dropped} BOM or order lines referring to deleted records\n`);
+    }
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS order_status_history (
+      id VARCHAR(36) PRIMARY KEY,
+      order_id VARCHAR(36) NOT NULL,
+      from_status VARCHAR(20),
+      to_status VARCHAR(20) NOT NULL,
+      user_id VARCHAR(36),
+      note VARCHAR(255),
+      created_at VARCHAR(50) NOT NULL,
+      INDEX idx_order_status_history_order (order_id),
+      FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+    )
+  `);
+  // Orders that predate the history start their timeline at their current status.
+  await connection.query(
+    `INSERT INTO order_status_history (id, order_id, to_status, created_at)
+     SELECT UUID(), orders.id, orders.status, orders.created_at
+     FROM orders
+     WHERE NOT EXISTS (SELECT 1 FROM order_status_history WHERE order_status_history.order_id = orders.id)`
+  );
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS stock_movements (
+      id VARCHAR(36) PRIMARY KEY,
+      material_id VARCHAR(36) NOT NULL,
+      type VARCHAR(20) NOT NULL,
+      quantity DECIMAL(12,2) NOT NULL,
+      order_id VARCHAR(36),
+      user_id VARCHAR(36),
+      note VARCHAR(255),
+      created_at VARCHAR(50) NOT NULL,
+      INDEX idx_stock_movements_material (material_id),
+      INDEX idx_stock_movements_order (order_id),
+      FOREIGN KEY (material_id) REFERENCES materials(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Orders used to track the stock they had consumed in a JSON column; move it into the ledger.
+  if (await columnExists(connection, 'orders', 'stock_applied')) {
+    const [applied] = await connection.query('SELECT id, created_at, stock_applied FROM orders');
+    for (const order of applied) {
+      for (const { materialId, quantity } of parseJsonField(order.stock_applied)) {
+        await connection.query(
+          `INSERT INTO stock_movements (id, material_id, type, quantity, order_id, created_at)
+           SELECT :id, id, :type, :quantity, :order_id, :created_at FROM materials WHERE id = :material_id`,
+          {
+            id: crypto.randomUUID(),
+            material_id: materialId,
+            type: quantity < 0 ? 'consumption' : 'leftover_return',
+            quantity,
+            order_id: order.id,
+            created_at: order.created_at,
+          }
+        );
+      }
+    }
+    await connection.query('ALTER TABLE orders DROP COLUMN stock_applied');
+  }
+
+  // Stock that predates the ledger is recorded as an opening balance so the ledger always sums to it.
+  const [unbalanced] = await connection.query(
+    `SELECT materials.id, materials.created_at,
+            materials.stock - COALESCE(SUM(stock_movements.quantity), 0) AS difference
+     FROM materials
+     LEFT JOIN stock_movements ON stock_movements.material_id = materials.id
+     GROUP BY materials.id, materials.stock, materials.created_at
+     HAVING difference <> 0`
+  );
+  for (const material of unbalanced) {
+    await connection.query(
+      `INSERT INTO stock_movements (id, material_id, type, quantity, note, created_at)
+       VALUES (:id, :material_id, 'adjustment', :quantity, 'Opening balance', :created_at)`,
+      {
+        id: crypto.randomUUID(),
+        material_id: material.id,
+        quantity: material.difference,
+        created_at: material.created_at,
+      }
+    );
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id VARCHAR(64) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL,
+      created_at VARCHAR(50) NOT NULL,
+      expires_at VARCHAR(50) NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Databases created before passwords were hashed still hold plain-text values.
+  const [legacyUsers] = await connection.query('SELECT id, password FROM users');
+  for (const user of legacyUsers) {
+    if (!isPasswordHash(user.password)) {
+      await connection.query('UPDATE users SET password = :password WHERE id = :id', {
+        id: user.id,
+        password: await hashPassword(user.password),
+      });
+    }
+  }
+};
+
+export const down = async (connection) => {
+  for (const table of [
+    'sessions',
+    'stock_movements',
+    'order_status_history',
+    'order_leftovers',
+    'order_lines',
+    'orders',
+    'product_materials',
+    'products',
+    'material_prices',
+    'materials',
+    'users',
+  ]) {
+    await connection.query(`DROP TABLE IF EXISTS ${table}`);
+  }
+};
@@ -0,0 +1,21 @@
+export const up = async (connection) => {
+  await connection.query(`
+    CREATE TABLE audit_log (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36),
+      entity_type VARCHAR(50) NOT NULL,
+      entity_id VARCHAR(36) NOT NULL,
+      action VARCHAR(50) NOT NULL,
+      changes JSON NOT NULL,
+      ip VARCHAR(64),
+      created_at VARCHAR(50) NOT NULL,
+      INDEX idx_audit_log_entity (entity_type, entity_id),
+      INDEX idx_audit_log_user (user_id),
+      INDEX idx_audit_log_created (created_at)
+    )
+  `);
+};
+
+export const down = async (connection) => {
+  await connection.query('DROP TABLE audit_log');
+};
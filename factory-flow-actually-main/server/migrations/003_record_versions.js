@@ -0,0 +1,15 @@
+// A version counter on every editable record, for optimistic concurrency on updates.
+
+const TABLES = ['users', 'materials', 'products', 'orders'];
+
+export const up = async (connection) => {
+  for (const table of TABLES) {
+    await connection.query(`ALTER TABLE ${table} ADD COLUMN version INT NOT NULL DEFAULT 1`);
+  }
+};
+
+export const down = async (connection) => {
+  for (const table of TABLES) {
+    await connection.query(`ALTER TABLE ${table} DROP COLUMN version`);
+  }
+};
@@ -0,0 +1,37 @@
+// Customers, and the customer, requested delivery date and notes on orders.
+
+export const up = async (connection) => {
+  await connection.query(`
+    CREATE TABLE customers (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      contact_name VARCHAR(255),
+      email VARCHAR(255),
+      phone VARCHAR(50),
+      address TEXT,
+      notes TEXT,
+      created_at VARCHAR(50) NOT NULL,
+      archived_at VARCHAR(50),
+      version INT NOT NULL DEFAULT 1,
+      INDEX idx_customers_name (name)
+    )
+  `);
+  await connection.query(`
+    ALTER TABLE orders
+      ADD COLUMN customer_id VARCHAR(36),
+      ADD COLUMN delivery_date VARCHAR(10),
+      ADD COLUMN notes TEXT,
+      ADD CONSTRAINT fk_orders_customer FOREIGN KEY (customer_id) REFERENCES customers(id)
+  `);
+};
+
+export const down = async (connection) => {
+  await connection.query(`
+    ALTER TABLE orders
+      DROP FOREIGN KEY fk_orders_customer,
+      DROP COLUMN customer_id,
+      DROP COLUMN delivery_date,
+      DROP COLUMN notes
+  `);
+  await connection.query('DROP TABLE customers');
+};
@@ -0,0 +1,67 @@
+// Suppliers and purchase orders. Receiving a purchase order posts stock receipts, which
+// point back at it through `stock_movements.purchase_order_id`.
+
+export const up = async (connection) => {
+  await connection.query(`
+    CREATE TABLE suppliers (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      contact_name VARCHAR(255),
+      email VARCHAR(255),
+      phone VARCHAR(50),
+      address TEXT,
+      notes TEXT,
+      created_at VARCHAR(50) NOT NULL,
+      archived_at VARCHAR(50),
+      version INT NOT NULL DEFAULT 1,
+      INDEX idx_suppliers_name (name)
+    )
+  `);
+  await connection.query(`
+    CREATE TABLE purchase_orders (
+      id VARCHAR(36) PRIMARY KEY,
+      po_number VARCHAR(100) NOT NULL,
+      supplier_id VARCHAR(36) NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      expected_date VARCHAR(10),
+      notes TEXT,
+      total_cost DECIMAL(12,2) NOT NULL,
+      created_at VARCHAR(50) NOT NULL,
+      sent_at VARCHAR(50),
+      received_at VARCHAR(50),
+      archived_at VARCHAR(50),
+      version INT NOT NULL DEFAULT 1,
+      INDEX idx_purchase_orders_status (status, expected_date),
+      FOREIGN KEY (supplier_id) REFERENCES suppliers(id)
+    )
+  `);
+  await connection.query(`
+    CREATE TABLE purchase_order_lines (
+      purchase_order_id VARCHAR(36) NOT NULL,
+      position INT NOT NULL,
+      material_id VARCHAR(36) NOT NULL,
+      quantity DECIMAL(12,2) NOT NULL,
+      unit_price DECIMAL(10,2) NOT NULL,
+      received_quantity DECIMAL(12,2) NOT NULL DEFAULT 0,
+      PRIMARY KEY (purchase_order_id, position),
+      FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+      FOREIGN KEY (material_id) REFERENCES materials(id)
+    )
+  `);
+  await connection.query(`
+    ALTER TABLE stock_movements
+      ADD COLUMN purchase_order_id VARCHAR(36),
+      ADD INDEX idx_stock_movements_purchase_order (purchase_order_id)
+  `);
+};
+
+export const down = async (connection) => {
+  await connection.query(`
+    ALTER TABLE stock_movements
+      DROP INDEX idx_stock_movements_purchase_order,
+      DROP COLUMN purchase_order_id
+  `);
+  await connection.query('DROP TABLE purchase_order_lines');
+  await connection.query('DROP TABLE purchase_orders');
+  await connection.query('DROP TABLE suppliers');
+};
@@ -0,0 +1,22 @@
+// Per-material reorder settings. All are optional: a material without them is only
+// suggested for reordering when open orders need more than is on hand and on order.
+
+export const up = async (connection) => {
+  await connection.query(`
+    ALTER TABLE materials
+      ADD COLUMN reorder_point DECIMAL(12,2),
+      ADD COLUMN reorder_quantity DECIMAL(12,2),
+      ADD COLUMN safety_stock DECIMAL(12,2),
+      ADD COLUMN lead_time_days INT
+  `);
+};
+
+export const down = async (connection) => {
+  await connection.query(`
+    ALTER TABLE materials
+      DROP COLUMN reorder_point,
+      DROP COLUMN reorder_quantity,
+      DROP COLUMN safety_stock,
+      DROP COLUMN lead_time_days
+  `);
+};
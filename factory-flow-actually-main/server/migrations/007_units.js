@@ -0,0 +1,113 @@
+// Units of measure. Each unit belongs to a dimension and has a factor to that dimension's
+// base unit (kg, m, pcs, l, m2). `materials.unit` becomes a reference to a unit code, and a
+// BOM line may name its own unit in the same dimension as its material's.
+
+const UNITS = [
+  ['kg', 'Kilogram', 'mass', 1],
+  ['g', 'Gram', 'mass', 0.001],
+  ['mg', 'Milligram', 'mass', 0.000001],
+  ['t', 'Tonne', 'mass', 1000],
+  ['lb', 'Pound', 'mass', 0.45359237],
+  ['oz', 'Ounce', 'mass', 0.028349523125],
+  ['m', 'Metre', 'length', 1],
+  ['cm', 'Centimetre', 'length', 0.01],
+  ['mm', 'Millimetre', 'length', 0.001],
+  ['km', 'Kilometre', 'length', 1000],
+  ['in', 'Inch', 'length', 0.0254],
+  ['ft', 'Foot', 'length', 0.3048],
+  ['yd', 'Yard', 'length', 0.9144],
+  ['pcs', 'Piece', 'count', 1],
+  ['dozen', 'Dozen', 'count', 12],
+  ['l', 'Litre', 'volume', 1],
+  ['ml', 'Millilitre', 'volume', 0.001],
+  ['m3', 'Cubic metre', 'volume', 1000],
+  ['gal', 'US gallon', 'volume', 3.785411784],
+  ['m2', 'Square metre', 'area', 1],
+  ['cm2', 'Square centimetre', 'area', 0.0001],
+  ['ft2', 'Square foot', 'area', 0.09290304],
+];
+
+// Spellings found in free-text material units, by the unit they mean.
+const ALIASES = {
+  kg: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms', 'kilogramme', 'kilogrammes'],
+  g: ['gr', 'gram', 'grams', 'gramme', 'grammes'],
+  mg: ['milligram', 'milligrams'],
+  t: ['ton', 'tons', 'tonne', 'tonnes'],
+  lb: ['lbs', 'pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  m: ['meter', 'meters', 'metre', 'metres', 'mtr', 'mtrs'],
+  cm: ['centimeter', 'centimeters', 'centimetre', 'centimetres'],
+  mm: ['millimeter', 'millimeters', 'millimetre', 'millimetres'],
+  km: ['kilometer', 'kilometers', 'kilometre', 'kilometres'],
+  in: ['inch', 'inches'],
+  ft: ['foot', 'feet'],
+  yd: ['yard', 'yards'],
+  pcs: ['pc', 'piece', 'pieces', 'unit', 'units', 'each', 'ea', 'pcs.', 'pc.'],
+  dozen: ['dz', 'doz'],
+  l: ['liter', 'liters', 'litre', 'litres', 'ltr'],
+  ml: ['milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  m3: ['m³', 'cubic meter', 'cubic meters', 'cubic metre', 'cubic metres'],
+  gal: ['gallon', 'gallons'],
+  m2: ['m²', 'sqm', 'square meter', 'square meters', 'square metre', 'square metres'],
+  cm2: ['cm²'],
+  ft2: ['ft²', 'sqft', 'square foot', 'square feet'],
+};
+
+const unitFor = (text) => {
+  const key = text.trim().toLowerCase();
+  return Object.entries(ALIASES).find(([code, aliases]) => code === key || aliases.includes(key))?.[0];
+};
+
+export const up = async (connection) => {
+  await connection.query(`
+    CREATE TABLE units (
+      code VARCHAR(50) PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      dimension VARCHAR(20) NOT NULL,
+      factor DECIMAL(24,12) NOT NULL
+    )
+  `);
+  for (const [code, name, dimension, factor] of UNITS) {
+    await connection.query(
+      'INSERT INTO units (code, name, dimension, factor) VALUES (:code, :name, :dimension, :factor)',
+      { code, name, dimension, factor }
+    );
+  }
+
+  // Units nobody recognises are kept as count units of their own, to be corrected by hand.
+  const [rows] = await connection.query('SELECT DISTINCT unit FROM materials');
+  for (const { unit } of rows) {
+    const code = unitFor(unit);
+    if (code) {
+      await connection.query('UPDATE materials SET unit = :code WHERE unit = :unit', { code, unit });
+      continue;
+    }
+    const custom = unit.trim() || 'pcs';
+    await connection.query(
+      `INSERT IGNORE INTO units (code, name, dimension, factor) VALUES (:code, :code, 'count', 1)`,
+      { code: custom }
+    );
+    await connection.query('UPDATE materials SET unit = :custom WHERE unit = :unit', { custom, unit });
+  }
+
+  await connection.query(`
+    ALTER TABLE materials
+      ADD CONSTRAINT fk_materials_unit FOREIGN KEY (unit) REFERENCES units(code)
+  `);
+  await connection.query(`
+    ALTER TABLE product_materials
+      ADD COLUMN unit VARCHAR(50),
+      ADD CONSTRAINT fk_product_materials_unit FOREIGN KEY (unit) REFERENCES units(code)
+  `);
+};
+
+// Material units keep their normalised codes.
+export const down = async (connection) => {
+  await connection.query(`
+    ALTER TABLE product_materials
+      DROP FOREIGN KEY fk_product_materials_unit,
+      DROP COLUMN unit
+  `);
+  await connection.query('ALTER TABLE materials DROP FOREIGN KEY fk_materials_unit');
+  await connection.query('DROP TABLE units');
+};
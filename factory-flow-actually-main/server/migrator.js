@@ -0,0 +1,152 @@
+import crypto from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+// Schema changes are numbered files in server/migrations (`NNN_name.js`) exporting
+// `up(connection)` and `down(connection)`. Applied migrations are recorded in
+// `schema_migrations` with a checksum of the file, so editing a migration after it has run
+// is detected instead of silently diverging. Migrations import nothing from the application,
+// whose code keeps changing, so the checksum covers all they do. A migration that had to be
+// fixed after release lists the checksums of its earlier revisions in `previousChecksums`;
+// those are accepted and updated on the next run. MySQL commits DDL implicitly, so a
+// migration is not atomic: a failure leaves it unrecorded, to be fixed and run again.
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.js$/;
+const LOCK_NAME = 'schema_migrations';
+const LOCK_TIMEOUT_SECONDS = 60;
+
+const checksumOf = (source) => crypto.createHash('sha256').update(source).digest('hex');
+
+const loadMigrations = async () => {
+  const files = (await readdir(MIGRATIONS_DIR)).filter((file) => FILE_PATTERN.test(file));
+  const migrations = await Promise.all(
+    files.map(async (file) => {
+      const [, version, name] = file.match(FILE_PATTERN);
+      const filePath = path.join(MIGRATIONS_DIR, file);
+      const { up, down, previousChecksums = [] } = await import(pathToFileURL(filePath).href);
+      return { version: Number(version), name, file, checksum: checksumOf(await readFile(filePath)), previousChecksums, up, down };
+    })
+  );
+  migrations.sort((a, b) => a.version - b.version);
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Two migrations share version ${migration.version}: ${migrations[index - 1].file}, ${migration.file}`);
+    }
+  });
+  return migrations;
+};
+
+const ensureMigrationsTable = (connection) =>
+  connection.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at VARCHAR(50) NOT NULL
+    )
+  `);
+
+/**
+ * Compares the migration files with what the database has recorded. `unknown` lists
+ * applied versions with no file, as when the database was migrated by a newer server,
+ * `changed` lists applied migrations whose file no longer matches its checksum, and
+ * `revised` those recorded under one of their `previousChecksums`.
+ */
+const inspect = async (connection) => {
+  await ensureMigrationsTable(connection);
+  const migrations = await loadMigrations();
+  const [rows] = await connection.query('SELECT * FROM schema_migrations ORDER BY version');
+  const applied = new Map(rows.map((row) => [row.version, row]));
+  const known = new Set(migrations.map((migration) => migration.version));
+  return {
+    migrations: migrations.map((migration) => ({ ...migration, appliedAt: applied.get(migration.version)?.applied_at })),
+    pending: migrations.filter((migration) => !applied.has(migration.version)),
+    unknown: rows.filter((row) => !known.has(row.version)),
+    changed: migrations.filter((migration) => {
+      const recorded = applied.get(migration.version)?.checksum;
+      return recorded !== undefined && recorded !== migration.checksum && !migration.previousChecksums.includes(recorded);
+    }),
+    revised: migrations.filter((migration) => migration.previousChecksums.includes(applied.get(migration.version)?.checksum)),
+  };
+};
+
+const assertKnownSchema = (state) => {
+  if (state.unknown.length > 0) {
+    const versions = state.unknown.map((row) => `${row.version}_${row.name}`).join(', ');
+    throw new Error(`The database has migrations this server does not know (${versions}); it was migrated by a newer version`);
+  }
+  if (state.changed.length > 0) {
+    throw new Error(`Migrations changed after they were applied: ${state.changed.map((migration) => migration.file).join(', ')}`);
+  }
+};
+
+// Only one process migrates at a time; the lock is held on the connection doing the work.
+const withMigrationLock = async (pool, work) => {
+  const connection = await pool.getConnection();
+  try {
+    const [[{ acquired }]] = await connection.query('SELECT GET_LOCK(:name, :timeout) AS acquired', {
+      name: LOCK_NAME,
+      timeout: LOCK_TIMEOUT_SECONDS,
+    });
+    if (acquired !== 1) {
+      throw new Error('Timed out waiting for another process to finish migrating');
+    }
+    try {
+      return await work(connection);
+    } finally {
+      await connection.query('SELECT RELEASE_LOCK(:name)', { name: LOCK_NAME });
+    }
+  } finally {
+    connection.release();
+  }
+};
+
+/** Every migration file with its `appliedAt` date, plus any unknown or changed ones. */
+export const migrationStatus = (pool) => withMigrationLock(pool, inspect);
+
+/**
+ * Applies pending migrations in order and returns them. Refuses to touch a database
+ * with unknown or changed migrations.
+ */
+export const migrateUp = (pool, { log = () => {} } = {}) =>
+  withMigrationLock(pool, async (connection) => {
+    const state = await inspect(connection);
+    assertKnownSchema(state);
+    for (const migration of state.revised) {
+      log(`Recording the revised checksum of ${migration.file}`);
+      await connection.query('UPDATE schema_migrations SET checksum = :checksum WHERE version = :version', {
+        version: migration.version,
+        checksum: migration.checksum,
+      });
+    }
+    for (const migration of state.pending) {
+      log(`Applying migration ${migration.file}`);
+      await migration.up(connection);
+      await connection.query(
+        `INSERT INTO schema_migrations (version, name, checksum, applied_at)
+         VALUES (:version, :name, :checksum, :applied_at)`,
+        {
+          version: migration.version,
+          name: migration.name,
+          checksum: migration.checksum,
+          applied_at: new Date().toISOString(),
+        }
+      );
+    }
+    return state.pending;
+  });
+
+/** Reverts the most recently applied migration and returns it, or null when none is applied. */
+export const migrateDown = (pool, { log = () => {} } = {}) =>
+  withMigrationLock(pool, async (connection) => {
+    const state = await inspect(connection);
+    assertKnownSchema(state);
+    const last = state.migrations.filter((migration) => migration.appliedAt).pop();
+    if (!last) return null;
+    log(`Reverting migration ${last.file}`);
+    await last.down(connection);
+    await connection.query('DELETE FROM schema_migrations WHERE version = :version', { version: last.version });
+    return last;
+  });
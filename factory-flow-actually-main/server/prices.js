@@ -0,0 +1,71 @@
+import crypto from 'node:crypto';
+import { HttpError } from './errors.js';
+
+export const mapMaterialPrice = (row) => ({
+  id: row.id,
+  materialId: row.material_id,
+  cost: Number(row.cost),
+  effectiveFrom: row.effective_from,
+  supplier: row.supplier || undefined,
+  note: row.note || undefined,
+  userId: row.user_id || undefined,
+  userName: row.user_name || undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Normalizes an "as of" value to an ISO timestamp. A bare date (YYYY-MM-DD) means the end
+ * of that day, so prices effective on it are included. Defaults to now.
+ */
+export const parseAsOf = (value) => {
+  if (value === undefined || value === '') return new Date().toISOString();
+  const text = String(value);
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T23:59:59.999Z` : text);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `Invalid date: ${text}`);
+  }
+  return date.toISOString();
+};
+
+// A material's cost as of :asOf is the latest price effective on or before it.
+const COST_AS_OF = `(
+  SELECT material_prices.cost
+  FROM material_prices
+  WHERE material_prices.material_id = materials.id AND material_prices.effective_from <= :asOf
+  ORDER BY material_prices.effective_from DESC, material_prices.created_at DESC
+  LIMIT 1
+)`;
+
+// Material columns with `cost` resolved as of the `:asOf` parameter; 0 before the first price.
+export const MATERIAL_COLUMNS = `materials.*, COALESCE(${COST_AS_OF}, 0) AS cost`;
+
+/**
+ * Material rows with `cost` resolved from the price history as of `asOf` (default now).
+ */
+export const selectMaterials = async (connection, { id, asOf } = {}) => {
+  const [rows] = await connection.query(
+    `SELECT ${MATERIAL_COLUMNS}
+     FROM materials
+     ${id ? 'WHERE materials.id = :id' : ''}`,
+    { id, asOf: asOf ?? new Date().toISOString() }
+  );
+  return rows;
+};
+
+export const recordMaterialPrice = async (connection, price) => {
+  const now = new Date().toISOString();
+  await connection.query(
+    `INSERT INTO material_prices (id, material_id, cost, effective_from, supplier, note, user_id, created_at)
+     VALUES (:id, :material_id, :cost, :effective_from, :supplier, :note, :user_id, :created_at)`,
+    {
+      id: crypto.randomUUID(),
+      material_id: price.materialId,
+      cost: price.cost,
+      effective_from: price.effectiveFrom ?? now,
+      supplier: price.supplier || null,
+      note: price.note || null,
+      user_id: price.userId ?? null,
+      created_at: now,
+    }
+  );
+};
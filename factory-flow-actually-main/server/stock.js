@@ -0,0 +1,231 @@
+import crypto from 'node:crypto';
+import { flattenBom } from '../shared/bom.js';
+import { HttpError } from './errors.js';
+import { attachBomLines, attachOrderLines } from './lines.js';
+
+export const MOVEMENT_TYPES = ['receipt', 'consumption', 'leftover_return', 'adjustment', 'scrap'];
+
+const CONSUMING_STATUSES = ['in-progress', 'completed'];
+
+// An order put on hold keeps whatever it has already taken from stock.
+const FROZEN_STATUSES = ['on-hold'];
+
+// Orders whose materials are still to be taken from stock, in part or in full.
+const OPEN_ORDER_STATUSES = ['pending', 'in-progress', 'on-hold'];
+
+// Drafts count as on order, so a suggested draft is not suggested again.
+const ON_ORDER_STATUSES = ['draft', 'sent', 'partially-received'];
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const keyOf = (materialId, type) => `${materialId}:${type}`;
+
+const addTo = (movement, materialId, type, quantity) => {
+  const key = keyOf(materialId, type);
+  const current = movement.get(key) ?? { materialId, type, quantity: 0 };
+  movement.set(key, { ...current, quantity: current.quantity + quantity });
+};
+
+const nonZero = (movement) =>
+  [...movement.values()]
+    .map((entry) => ({ ...entry, quantity: round(entry.quantity) }))
+    .filter(({ quantity }) => quantity !== 0);
+
+export const mapStockMovement = (row) => ({
+  id: row.id,
+  materialId: row.material_id,
+  type: row.type,
+  quantity: Number(row.quantity),
+  orderId: row.order_id || undefined,
+  orderNumber: row.order_number || undefined,
+  purchaseOrderId: row.purchase_order_id || undefined,
+  purchaseOrderNumber: row.po_number || undefined,
+  userId: row.user_id || undefined,
+  userName: row.user_name || undefined,
+  note: row.note || undefined,
+  createdAt: row.created_at,
+});
+
+const lockMaterials = async (connection, materialIds) => {
+  if (materialIds.length === 0) return new Map();
+  const [rows] = await connection.query(
+    'SELECT id, name, unit, stock FROM materials WHERE id IN (:ids) FOR UPDATE',
+    { ids: materialIds }
+  );
+  return new Map(rows.map((row) => [row.id, row]));
+};
+
+const assertSufficientStock = (materialsById, netByMaterial) => {
+  const shortages = [...netByMaterial]
+    .filter(([materialId, quantity]) => {
+      const material = materialsById.get(materialId);
+      return material && quantity < 0 && Number(material.stock) + quantity < 0;
+    })
+    .map(([materialId, quantity]) => {
+      const material = materialsById.get(materialId);
+      return {
+        materialId,
+        name: material.name,
+        unit: material.unit,
+        required: round(-quantity),
+        available: Number(material.stock),
+      };
+    });
+
+  if (shortages.length > 0) {
+    const summary = shortages
+      .map(({ name, unit, required, available }) => `${name} needs ${required} ${unit}, ${available} ${unit} available`)
+      .join('; ');
+    throw new HttpError(409, `Insufficient stock: ${summary}`, { shortages });
+  }
+};
+
+const insertMovement = async (connection, movement) => {
+  await connection.query(
+    `INSERT INTO stock_movements (id, material_id, type, quantity, order_id, purchase_order_id, user_id, note, created_at)
+     VALUES (:id, :material_id, :type, :quantity, :order_id, :purchase_order_id, :user_id, :note, :created_at)`,
+    {
+      id: crypto.randomUUID(),
+      material_id: movement.materialId,
+      type: movement.type,
+      quantity: movement.quantity,
+      order_id: movement.orderId ?? null,
+      purchase_order_id: movement.purchaseOrderId ?? null,
+      user_id: movement.userId ?? null,
+      note: movement.note ?? null,
+      created_at: new Date().toISOString(),
+    }
+  );
+  await connection.query('UPDATE materials SET stock = stock + :quantity WHERE id = :id', {
+    id: movement.materialId,
+    quantity: movement.quantity,
+  });
+};
+
+/**
+ * Records a single ledger entry and applies it to the material's stock balance.
+ * `quantity` is signed. Must run inside a transaction.
+ */
+export const postStockMovement = async (connection, movement) => {
+  const materialsById = await lockMaterials(connection, [movement.materialId]);
+  if (!materialsById.has(movement.materialId)) {
+    throw new HttpError(404, 'Material not found');
+  }
+  assertSufficientStock(materialsById, new Map([[movement.materialId, movement.quantity]]));
+  await insertMovement(connection, movement);
+};
+
+// Stock movement an order should have posted for its status: BOM consumption, rolled up
+// through sub-assemblies, once production starts, plus leftovers returned to stock once
+// it is completed.
+const targetMovement = async (connection, order) => {
+  const movement = new Map();
+
+  if (CONSUMING_STATUSES.includes(order.status) && order.products.length > 0) {
+    const [rows] = await connection.query('SELECT id FROM products');
+    const products = await attachBomLines(connection, rows);
+    order.products.forEach(({ productId, quantity }) => {
+      flattenBom(productId, products, quantity).forEach((amount, materialId) => {
+        addTo(movement, materialId, 'consumption', -amount);
+      });
+    });
+  }
+
+  if (order.status === 'completed') {
+    order.leftovers.forEach(({ materialId, quantity }) => addTo(movement, materialId, 'leftover_return', quantity));
+  }
+
+  return movement;
+};
+
+/**
+ * Brings material stock in line with an order's status. The movement already posted
+ * for the order is read back from the ledger and only the difference is posted, so
+ * reverting or deleting an order returns what it took. Must run inside a transaction.
+ */
+export const syncOrderStock = async (connection, order, userId) => {
+  if (FROZEN_STATUSES.includes(order.status)) return;
+
+  const delta = await targetMovement(connection, order);
+
+  const [posted] = await connection.query(
+    `SELECT material_id, type, SUM(quantity) AS quantity
+     FROM stock_movements
+     WHERE order_id = :orderId
+     GROUP BY material_id, type`,
+    { orderId: order.id }
+  );
+  posted.forEach((row) => addTo(delta, row.material_id, row.type, -Number(row.quantity)));
+
+  const changes = nonZero(delta);
+  if (changes.length === 0) return;
+
+  const netByMaterial = new Map();
+  changes.forEach(({ materialId, quantity }) => {
+    netByMaterial.set(materialId, (netByMaterial.get(materialId) ?? 0) + quantity);
+  });
+  const materialsById = await lockMaterials(connection, [...netByMaterial.keys()]);
+  assertSufficientStock(materialsById, netByMaterial);
+
+  for (const change of changes) {
+    if (!materialsById.has(change.materialId)) continue;
+    const isReversal = change.type === 'consumption' ? change.quantity > 0 : change.quantity < 0;
+    await insertMovement(connection, {
+      ...change,
+      orderId: order.id,
+      userId,
+      note: isReversal ? `Reversal for order ${order.orderNumber}` : `Order ${order.orderNumber}`,
+    });
+  }
+};
+
+/**
+ * What open orders still need from stock, by material id: their BOM requirement, rolled
+ * up through sub-assemblies, less what they have already consumed.
+ */
+export const openOrderDemand = async (connection) => {
+  const [orderRows] = await connection.query(
+    'SELECT id FROM orders WHERE status IN (:statuses) AND archived_at IS NULL',
+    { statuses: OPEN_ORDER_STATUSES }
+  );
+  const demand = new Map();
+  if (orderRows.length === 0) return demand;
+
+  const [productRows] = await connection.query('SELECT id FROM products');
+  const products = await attachBomLines(connection, productRows);
+  for (const order of await attachOrderLines(connection, orderRows)) {
+    order.products.forEach(({ productId, quantity }) => {
+      flattenBom(productId, products, quantity).forEach((amount, materialId) => {
+        demand.set(materialId, (demand.get(materialId) ?? 0) + amount);
+      });
+    });
+  }
+
+  const [consumed] = await connection.query(
+    `SELECT order_id, material_id, -SUM(quantity) AS quantity
+     FROM stock_movements
+     WHERE type = 'consumption' AND order_id IN (:ids)
+     GROUP BY order_id, material_id`,
+    { ids: orderRows.map((order) => order.id) }
+  );
+  consumed.forEach((row) => {
+    if (!demand.has(row.material_id)) return;
+    demand.set(row.material_id, demand.get(row.material_id) - Number(row.quantity));
+  });
+
+  return new Map([...demand].map(([materialId, quantity]) => [materialId, Math.max(round(quantity), 0)]));
+};
+
+/** Quantities ordered from suppliers but not yet received, by material id. */
+export const onOrderQuantities = async (connection) => {
+  const [rows] = await connection.query(
+    `SELECT purchase_order_lines.material_id,
+            SUM(purchase_order_lines.quantity - purchase_order_lines.received_quantity) AS quantity
+     FROM purchase_order_lines
+     JOIN purchase_orders ON purchase_orders.id = purchase_order_lines.purchase_order_id
+     WHERE purchase_orders.status IN (:statuses) AND purchase_orders.archived_at IS NULL
+     GROUP BY purchase_order_lines.material_id`,
+    { statuses: ON_ORDER_STATUSES }
+  );
+  return new Map(rows.map((row) => [row.material_id, Number(row.quantity)]));
+};
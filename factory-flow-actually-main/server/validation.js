@@ -0,0 +1,18 @@
+import { HttpError } from './errors.js';
+
+/**
+ * Parses the request body with a zod schema, replacing it with the parsed value (unknown
+ * keys stripped, defaults applied). Failures become a 400 listing each issue's field path.
+ */
+export const validateBody = (schema) => (req, _res, next) => {
+  const result = schema.safeParse(req.body ?? {});
+  if (result.success) {
+    req.body = result.data;
+    next();
+    return;
+  }
+
+  const issues = result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  const summary = issues.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join('; ');
+  next(new HttpError(400, `Invalid request: ${summary}`, { issues }));
+};
@@ -0,0 +1,16 @@
+import { HttpError } from './errors.js';
+
+// Users, materials, products and orders carry a `version` that goes up by one with every
+// change made through their endpoints. An update sends back the version it was based on,
+// and one based on an older version is rejected instead of overwriting the newer change.
+// Stock movements and prices are appended rather than edited, so they leave it alone.
+
+/**
+ * Fails with a 409 when `version` is not the version of `current`, the record as the API
+ * returns it. The response carries `current` so the client can merge or reload.
+ */
+export const assertVersion = (current, version, label) => {
+  if (current.version !== version) {
+    throw new HttpError(409, `${label} was changed by someone else since you opened it`, { current });
+  }
+};
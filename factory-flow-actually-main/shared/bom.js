@@ -0,0 +1,127 @@
+// Multi-level bill of materials helpers shared by the API server and the frontend.
+// A BOM line references either a raw material (`materialId`) or a sub-assembly (`productId`).
+// A material line may be given in another unit than its material's; `factor`, resolved by the
+// server, converts its quantity to the material's unit, so the helpers below work in that unit.
+
+/**
+ * @typedef {{ materialId?: string; productId?: string; quantity: number; unit?: string; factor?: number }} BomLine
+ * @typedef {{ id: string; name?: string; materials: BomLine[] }} BomProduct
+ * @typedef {{ id: string; cost: number }} CostedMaterial
+ * @typedef {{
+ *   kind: 'material' | 'product';
+ *   id: string;
+ *   quantity: number;
+ *   children: BomNode[];
+ * }} BomNode
+ */
+
+const indexById = (products) => new Map(products.map((product) => [product.id, product]));
+
+const baseQuantity = (line) => line.quantity * (line.factor ?? 1);
+
+/**
+ * Returns the ids along the first cycle reachable from `productId`, starting and ending
+ * with the same product, or null when the BOM is acyclic.
+ *
+ * @param {string} productId
+ * @param {BomProduct[]} products
+ * @returns {string[] | null}
+ */
+export const findBomCycle = (productId, products) => {
+  const byId = indexById(products);
+  const path = [];
+  const done = new Set();
+
+  const visit = (id) => {
+    const start = path.indexOf(id);
+    if (start !== -1) return [...path.slice(start), id];
+    if (done.has(id)) return null;
+    path.push(id);
+    for (const line of byId.get(id)?.materials ?? []) {
+      if (!line.productId) continue;
+      const cycle = visit(line.productId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(id);
+    return null;
+  };
+
+  return visit(productId);
+};
+
+/**
+ * Raw material quantities needed for `quantity` units of a product, summed over every
+ * level of sub-assemblies. Unknown sub-assemblies contribute nothing.
+ *
+ * @param {string} productId
+ * @param {BomProduct[]} products
+ * @param {number} [quantity]
+ * @returns {Map<string, number>}
+ */
+export const flattenBom = (productId, products, quantity = 1) => {
+  const byId = indexById(products);
+  const totals = new Map();
+
+  const walk = (id, multiplier, seen) => {
+    if (seen.has(id)) return;
+    const next = new Set(seen).add(id);
+    (byId.get(id)?.materials ?? []).forEach((line) => {
+      const amount = baseQuantity(line) * multiplier;
+      if (line.productId) {
+        walk(line.productId, amount, next);
+      } else if (line.materialId) {
+        totals.set(line.materialId, (totals.get(line.materialId) ?? 0) + amount);
+      }
+    });
+  };
+
+  walk(productId, quantity, new Set());
+  return totals;
+};
+
+/**
+ * Exploded BOM tree for `quantity` units of a product.
+ *
+ * @param {string} productId
+ * @param {BomProduct[]} products
+ * @param {number} [quantity]
+ * @returns {BomNode[]}
+ */
+export const explodeBom = (productId, products, quantity = 1) => {
+  const byId = indexById(products);
+
+  const walk = (id, multiplier, seen) =>
+    (byId.get(id)?.materials ?? []).map((line) => {
+      const amount = baseQuantity(line) * multiplier;
+      if (line.productId) {
+        const next = new Set(seen).add(id);
+        return {
+          kind: 'product',
+          id: line.productId,
+          quantity: amount,
+          children: next.has(line.productId) ? [] : walk(line.productId, amount, next),
+        };
+      }
+      return { kind: 'material', id: line.materialId, quantity: amount, children: [] };
+    });
+
+  return walk(productId, quantity, new Set());
+};
+
+/**
+ * Rolled-up material cost of one unit of a product.
+ *
+ * @param {string} productId
+ * @param {BomProduct[]} products
+ * @param {CostedMaterial[]} materials
+ * @returns {number}
+ */
+export const calculateProductCost = (productId, products, materials) => {
+  let cost = 0;
+  flattenBom(productId, products).forEach((quantity, materialId) => {
+    const material = materials.find((m) => m.id === materialId);
+    if (material) cost += material.cost * quantity;
+  });
+  return cost;
+};
@@ -0,0 +1,79 @@
+// CSV handling shared by the API server and the frontend. Files follow RFC 4180: a field
+// holding the delimiter, a quote or a line break is wrapped in double quotes, and a quote
+// inside one is doubled.
+
+/** @type {string[]} */
+export const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Guesses the delimiter from the first line: spreadsheets in locales that write decimal
+ * commas save CSV with `;`. Quoted text is not counted.
+ * @param {string} text
+ * @returns {string}
+ */
+export const detectDelimiter = (text) => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map((delimiter) => firstLine.split(delimiter).length);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Splits CSV text into rows of fields, leaving out a byte order mark and blank lines.
+ * @param {string} text
+ * @param {string} [delimiter]
+ * @returns {string[][]}
+ */
+export const parseCsv = (text, delimiter = ',') => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+/**
+ * One CSV line, without its line break. Missing values are written as empty fields.
+ * @param {unknown[]} fields
+ * @param {string} [delimiter]
+ * @returns {string}
+ */
+export const formatCsvRow = (fields, delimiter = ',') =>
+  fields
+    .map((field) => {
+      const text = field === undefined || field === null ? '' : String(field);
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter);
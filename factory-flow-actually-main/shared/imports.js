@@ -0,0 +1,64 @@
+// CSV import fields shared by the API server and the frontend. Products and orders are
+// imported in long format: one row per BOM line or order line, with the product name or
+// order number repeated on each of its rows.
+
+/** @typedef {'materials' | 'products' | 'orders'} ImportEntity */
+/** @typedef {{ key: string; label: string; required?: boolean; aliases?: string[] }} ImportField */
+
+/** @type {ImportEntity[]} */
+export const IMPORT_ENTITIES = ['materials', 'products', 'orders'];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * The fields each import fills, in the order the column mapping lists them. Labels match
+ * the headers the list pages export.
+ * @type {Record<ImportEntity, ImportField[]>}
+ */
+export const IMPORT_FIELDS = {
+  materials: [
+    { key: 'name', label: 'Name', required: true, aliases: ['material'] },
+    { key: 'unit', label: 'Unit', required: true },
+    { key: 'cost', label: 'Cost', required: true },
+    { key: 'stock', label: 'Stock' },
+    { key: 'reorderPoint', label: 'Reorder Point' },
+    { key: 'reorderQuantity', label: 'Reorder Quantity' },
+    { key: 'safetyStock', label: 'Safety Stock' },
+    { key: 'leadTimeDays', label: 'Lead Time (days)', aliases: ['leadtime'] },
+  ],
+  products: [
+    { key: 'product', label: 'Product', required: true, aliases: ['name'] },
+    { key: 'component', label: 'Material or sub-assembly', required: true, aliases: ['material', 'subassembly'] },
+    { key: 'quantity', label: 'Quantity', required: true, aliases: ['qty'] },
+    { key: 'unit', label: 'Unit' },
+  ],
+  orders: [
+    { key: 'orderNumber', label: 'Order Number', required: true, aliases: ['number', 'order'] },
+    { key: 'product', label: 'Product', required: true },
+    { key: 'quantity', label: 'Quantity', required: true, aliases: ['qty'] },
+    { key: 'customer', label: 'Customer' },
+    { key: 'status', label: 'Status' },
+    { key: 'deliveryDate', label: 'Delivery Date' },
+    { key: 'notes', label: 'Notes' },
+  ],
+};
+
+const normalizeHeader = (text) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Matches each field to the first column headed with its key, label or an alias, ignoring
+ * case, spaces and punctuation. Fields with no such column are left out.
+ * @param {ImportEntity} entity
+ * @param {string[]} headers
+ * @returns {Record<string, number>} column index by field key
+ */
+export const matchColumns = (entity, headers) => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {};
+  IMPORT_FIELDS[entity].forEach(({ key, label, aliases = [] }) => {
+    const names = [key, label, ...aliases].map(normalizeHeader);
+    const column = normalized.findIndex((header) => names.includes(header));
+    if (column >= 0) mapping[key] = column;
+  });
+  return mapping;
+};
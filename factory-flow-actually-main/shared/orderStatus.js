@@ -0,0 +1,27 @@
+// Order status state machine shared by the API server and the frontend.
+
+/** @typedef {'draft' | 'pending' | 'in-progress' | 'on-hold' | 'completed' | 'cancelled'} OrderStatus */
+
+/** @type {OrderStatus[]} */
+export const ORDER_STATUSES = ['draft', 'pending', 'in-progress', 'on-hold', 'completed', 'cancelled'];
+
+/** Statuses an order may be created in. */
+/** @type {OrderStatus[]} */
+export const INITIAL_ORDER_STATUSES = ['draft', 'pending'];
+
+/** @type {Record<OrderStatus, OrderStatus[]>} */
+export const ORDER_TRANSITIONS = {
+  draft: ['pending', 'cancelled'],
+  pending: ['in-progress', 'on-hold', 'draft', 'cancelled'],
+  'in-progress': ['completed', 'on-hold', 'pending', 'cancelled'],
+  'on-hold': ['pending', 'in-progress', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * @param {OrderStatus} from
+ * @param {OrderStatus} to
+ * @returns {boolean}
+ */
+export const canTransition = (from, to) => ORDER_TRANSITIONS[from]?.includes(to) ?? false;
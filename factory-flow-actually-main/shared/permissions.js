@@ -0,0 +1,50 @@
+// Role permission matrix shared by the API server and the frontend.
+
+/** @typedef {'admin' | 'manager' | 'employee'} Role */
+/** @typedef {'users' | 'customers' | 'suppliers' | 'purchaseOrders' | 'materials' | 'products' | 'orders' | 'audit'} Resource */
+/** @typedef {'read' | 'create' | 'update' | 'delete'} Action */
+
+const ALL_ACTIONS = ['read', 'create', 'update', 'delete'];
+
+/** @type {Record<Role, Record<Resource, Action[]>>} */
+export const PERMISSION_MATRIX = {
+  admin: {
+    users: ALL_ACTIONS,
+    customers: ALL_ACTIONS,
+    suppliers: ALL_ACTIONS,
+    purchaseOrders: ALL_ACTIONS,
+    materials: ALL_ACTIONS,
+    products: ALL_ACTIONS,
+    orders: ALL_ACTIONS,
+    audit: ['read'],
+  },
+  manager: {
+    users: [],
+    customers: ALL_ACTIONS,
+    suppliers: ALL_ACTIONS,
+    purchaseOrders: ALL_ACTIONS,
+    materials: ALL_ACTIONS,
+    products: ALL_ACTIONS,
+    orders: ALL_ACTIONS,
+    audit: [],
+  },
+  employee: {
+    users: [],
+    customers: ['read'],
+    suppliers: ['read'],
+    purchaseOrders: ['read', 'update'],
+    materials: ['read'],
+    products: ['read'],
+    orders: ['read', 'update'],
+    audit: [],
+  },
+};
+
+/**
+ * @param {Role | undefined} role
+ * @param {Resource} resource
+ * @param {Action} action
+ * @returns {boolean}
+ */
+export const hasPermission = (role, resource, action) =>
+  PERMISSION_MATRIX[role]?.[resource]?.includes(action) ?? false;
@@ -0,0 +1,52 @@
+// Order and purchase order pricing shared by the API server and the frontend.
+
+import { flattenBom } from './bom.js';
+
+/**
+ * @typedef {{ materialId: string; quantity: number; unitCost: number }} MaterialCost
+ * @typedef {{
+ *   productId: string;
+ *   quantity: number;
+ *   unitCost?: number;
+ *   materialCosts?: MaterialCost[];
+ * }} PricedLine
+ */
+
+const round = (value, places = 2) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Snapshots the current cost of one unit of the line's product: the rolled-up quantity
+ * and unit cost of every raw material, and their total.
+ *
+ * @param {{ productId: string; quantity: number }} line
+ * @param {import('./bom.js').BomProduct[]} products
+ * @param {import('./bom.js').CostedMaterial[]} materials
+ * @returns {PricedLine}
+ */
+export const priceOrderLine = (line, products, materials) => {
+  const materialCosts = [...flattenBom(line.productId, products)].map(([materialId, quantity]) => ({
+    materialId,
+    quantity: round(quantity, 4),
+    unitCost: materials.find((m) => m.id === materialId)?.cost ?? 0,
+  }));
+  const unitCost = round(materialCosts.reduce((sum, m) => sum + m.quantity * m.unitCost, 0));
+  return { productId: line.productId, quantity: line.quantity, unitCost, materialCosts };
+};
+
+/**
+ * @param {PricedLine[]} lines
+ * @returns {number}
+ */
+export const orderLinesTotal = (lines) =>
+  round(lines.reduce((sum, line) => sum + (line.unitCost ?? 0) * line.quantity, 0));
+
+/**
+ * Total of a purchase order at its agreed prices.
+ * @param {{ quantity: number; unitPrice: number }[]} lines
+ * @returns {number}
+ */
+export const purchaseOrderTotal = (lines) =>
+  round(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
@@ -0,0 +1,39 @@
+// Purchase order status state machine shared by the API server and the frontend.
+
+/** @typedef {'draft' | 'sent' | 'partially-received' | 'received'} PurchaseOrderStatus */
+
+/** @type {PurchaseOrderStatus[]} */
+export const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'partially-received', 'received'];
+
+/**
+ * Statuses still waiting for goods.
+ * @type {PurchaseOrderStatus[]}
+ */
+export const OPEN_PURCHASE_ORDER_STATUSES = ['sent', 'partially-received'];
+
+/**
+ * Transitions a user may make. A purchase order becomes partially received or received
+ * by receiving goods against it, never by hand.
+ * @type {Record<PurchaseOrderStatus, PurchaseOrderStatus[]>}
+ */
+export const PURCHASE_ORDER_TRANSITIONS = {
+  draft: ['sent'],
+  sent: ['draft'],
+  'partially-received': [],
+  received: [],
+};
+
+/**
+ * @param {PurchaseOrderStatus} from
+ * @param {PurchaseOrderStatus} to
+ * @returns {boolean}
+ */
+export const canTransitionPurchaseOrder = (from, to) => PURCHASE_ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+
+/**
+ * The status after receiving, from how much of each line has arrived.
+ * @param {{ quantity: number, receivedQuantity: number }[]} lines
+ * @returns {PurchaseOrderStatus}
+ */
+export const receivedStatus = (lines) =>
+  lines.every((line) => line.receivedQuantity >= line.quantity) ? 'received' : 'partially-received';
@@ -0,0 +1,88 @@
+// Reorder rules shared by the API server and the frontend.
+
+/**
+ * @typedef {{
+ *   id: string;
+ *   name: string;
+ *   unit: string;
+ *   cost: number;
+ *   stock: number;
+ *   reorderPoint?: number;
+ *   reorderQuantity?: number;
+ *   safetyStock?: number;
+ *   leadTimeDays?: number;
+ * }} ReorderMaterial
+ * @typedef {{
+ *   materialId: string;
+ *   name: string;
+ *   unit: string;
+ *   unitCost: number;
+ *   stock: number;
+ *   onOrder: number;
+ *   demand: number;
+ *   projected: number;
+ *   reorderPoint?: number;
+ *   safetyStock?: number;
+ *   leadTimeDays?: number;
+ *   suggestedQuantity: number;
+ * }} ReorderSuggestion
+ */
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/**
+ * The stock level at or below which a material should be reordered: its reorder point, or
+ * its safety stock when it has none. Undefined when neither is set.
+ * @param {Pick<ReorderMaterial, 'reorderPoint' | 'safetyStock'>} material
+ * @returns {number | undefined}
+ */
+export const reorderLevel = (material) => material.reorderPoint ?? material.safetyStock;
+
+/**
+ * Whether `quantity`, by default the stock on hand, has fallen to the material's reorder level.
+ * @param {Pick<ReorderMaterial, 'stock' | 'reorderPoint' | 'safetyStock'>} material
+ * @param {number} [quantity]
+ * @returns {boolean}
+ */
+export const isBelowReorderLevel = (material, quantity = material.stock) => {
+  const level = reorderLevel(material);
+  return level !== undefined && quantity <= level;
+};
+
+/**
+ * Materials whose projected stock (on hand, plus on order, less what open orders still need)
+ * is negative or at their reorder level. The suggested quantity brings projected stock back up
+ * to the reorder point and safety stock, and is never less than the reorder quantity.
+ *
+ * @param {ReorderMaterial[]} materials
+ * @param {{ demand: Map<string, number>; onOrder: Map<string, number> }} totals
+ * @returns {ReorderSuggestion[]}
+ */
+export const calculateReorderSuggestions = (materials, { demand, onOrder }) =>
+  materials.flatMap((material) => {
+    const needed = round(demand.get(material.id) ?? 0);
+    const ordered = round(onOrder.get(material.id) ?? 0);
+    const projected = round(material.stock + ordered - needed);
+    if (projected >= 0 && !isBelowReorderLevel(material, projected)) return [];
+
+    const target = Math.max(material.reorderPoint ?? 0, material.safetyStock ?? 0);
+    const suggestedQuantity = round(Math.max(target - projected, material.reorderQuantity ?? 0));
+    if (suggestedQuantity <= 0) return [];
+
+    return [
+      {
+        materialId: material.id,
+        name: material.name,
+        unit: material.unit,
+        unitCost: material.cost,
+        stock: material.stock,
+        onOrder: ordered,
+        demand: needed,
+        projected,
+        reorderPoint: material.reorderPoint,
+        safetyStock: material.safetyStock,
+        leadTimeDays: material.leadTimeDays,
+        suggestedQuantity,
+      },
+    ];
+  });
@@ -0,0 +1,56 @@
+// Material requirements of a set of order lines, shared by the API server and the frontend.
+
+import { flattenBom } from './bom.js';
+
+/**
+ * @typedef {{ productId: string; quantity: number }} OrderLine
+ * @typedef {import('./bom.js').BomProduct} BomProduct
+ * @typedef {{ id: string; name: string; unit: string; stock: number }} StockMaterial
+ * @typedef {{
+ *   materialId: string;
+ *   name: string;
+ *   unit: string;
+ *   required: number;
+ *   onHand: number;
+ *   shortfall: number;
+ * }} MaterialRequirement
+ */
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Multiplies each product's bill of materials, including sub-assemblies, by the ordered
+ * quantity and compares the totals with current stock. `products` must contain every
+ * product the BOMs reference. Unknown products and materials are ignored.
+ *
+ * @param {OrderLine[]} lines
+ * @param {BomProduct[]} products
+ * @param {StockMaterial[]} materials
+ * @returns {MaterialRequirement[]}
+ */
+export const calculateMaterialRequirements = (lines, products, materials) => {
+  const required = new Map();
+
+  lines.forEach(({ productId, quantity }) => {
+    if (!(quantity > 0)) return;
+    flattenBom(productId, products, quantity).forEach((amount, materialId) => {
+      required.set(materialId, (required.get(materialId) ?? 0) + amount);
+    });
+  });
+
+  return [...required].flatMap(([materialId, quantity]) => {
+    const material = materials.find((m) => m.id === materialId);
+    if (!material) return [];
+    const total = round(quantity);
+    return [
+      {
+        materialId,
+        name: material.name,
+        unit: material.unit,
+        required: total,
+        onHand: material.stock,
+        shortfall: round(Math.max(0, total - material.stock)),
+      },
+    ];
+  });
+};
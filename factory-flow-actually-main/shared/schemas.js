@@ -0,0 +1,291 @@
+// Request body schemas shared by the API server and the frontend forms, so both enforce
+// the same rules. The server strips unknown keys; ids and timestamps come from the client.
+
+import { z } from 'zod';
+import { MAX_IMPORT_ROWS } from './imports.js';
+import { INITIAL_ORDER_STATUSES, ORDER_STATUSES } from './orderStatus.js';
+import { PURCHASE_ORDER_STATUSES } from './purchaseOrderStatus.js';
+import { UNIT_DIMENSIONS } from './units.js';
+
+const id = z.string({ required_error: 'Required' }).trim().min(1, 'Required').max(36);
+
+const text = (max) => z.string({ required_error: 'Required' }).trim().min(1, 'Required').max(max);
+
+const timestamp = z.string({ required_error: 'Required' }).datetime({ offset: true, message: 'Must be an ISO date-time' });
+
+const optionalText = (max) => z.string().trim().max(max).optional();
+
+const blankToUndefined = (value) => value || undefined;
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)');
+
+const number = (label) =>
+  z.number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` });
+
+// The version of the record an update was based on; a stale one is rejected with a 409.
+const version = z
+  .number({ required_error: 'Version is required', invalid_type_error: 'Version must be a number' })
+  .int()
+  .positive();
+
+export const passwordSchema = z
+  .string({ required_error: 'Password is required' })
+  .min(6, 'Password must be at least 6 characters long');
+
+// Updates leave the password unchanged when it is omitted.
+export const userSchema = z.object({
+  id,
+  email: text(255).email('Must be a valid email address'),
+  name: text(255),
+  surname: text(255),
+  phone: text(50),
+  role: z.enum(['admin', 'manager', 'employee'], { message: 'Role must be admin, manager or employee' }),
+  password: passwordSchema.optional(),
+});
+
+export const newUserSchema = userSchema.extend({ password: passwordSchema });
+
+export const userUpdateSchema = userSchema.omit({ id: true }).extend({ version });
+
+// Customers and suppliers share their contact details; only the name is required.
+const contactFields = {
+  name: text(255),
+  contactName: optionalText(255),
+  email: z.string().trim().email('Must be a valid email address').max(255).or(z.literal('')).optional().transform(blankToUndefined),
+  phone: optionalText(50),
+  address: optionalText(1000),
+  notes: optionalText(2000),
+};
+
+export const customerSchema = z.object({ id, ...contactFields, createdAt: timestamp });
+
+export const customerUpdateSchema = customerSchema.omit({ id: true }).extend({ version });
+
+export const supplierSchema = z.object({ id, ...contactFields, createdAt: timestamp });
+
+export const supplierUpdateSchema = supplierSchema.omit({ id: true }).extend({ version });
+
+// Unit codes are what materials and BOM lines refer to, so they cannot contain spaces.
+export const unitSchema = z.object({
+  code: text(20).regex(/^\S+$/, 'Code cannot contain spaces'),
+  name: text(100),
+  dimension: z.enum(UNIT_DIMENSIONS, { message: `Dimension must be one of ${UNIT_DIMENSIONS.join(', ')}` }),
+  factor: number('Factor').positive('Factor must be greater than 0'),
+});
+
+// Cost and stock are only accepted on creation; afterwards they change through prices and movements.
+// Reorder settings are optional; see shared/reorder.js for how they are used.
+export const materialSchema = z.object({
+  id,
+  name: text(255),
+  unit: text(50),
+  reorderPoint: number('Reorder point').nonnegative('Reorder point cannot be negative').optional(),
+  reorderQuantity: number('Reorder quantity').positive('Reorder quantity must be greater than 0').optional(),
+  safetyStock: number('Safety stock').nonnegative('Safety stock cannot be negative').optional(),
+  leadTimeDays: number('Lead time').int('Lead time must be whole days').nonnegative('Lead time cannot be negative').optional(),
+  createdAt: timestamp,
+});
+
+export const newMaterialSchema = materialSchema.extend({
+  cost: number('Cost').nonnegative('Cost cannot be negative'),
+  stock: number('Opening stock').nonnegative('Opening stock cannot be negative'),
+});
+
+export const materialUpdateSchema = materialSchema.omit({ id: true }).extend({ version });
+
+// A price takes effect from the start of a day, or from a moment; either is stored as UTC, so
+// that prices compare correctly as text. Without a date it takes effect now.
+export const materialPriceSchema = z.object({
+  cost: number('Cost').nonnegative('Cost cannot be negative'),
+  effectiveFrom: z
+    .string()
+    .refine(
+      (value) =>
+        date.safeParse(value).success
+          ? new Date(Date.parse(value) || 0).toISOString().startsWith(value)
+          : timestamp.safeParse(value).success,
+      'Must be a date (YYYY-MM-DD) or an ISO date-time'
+    )
+    .transform((value) => new Date(value).toISOString())
+    .optional(),
+  supplier: optionalText(255).transform(blankToUndefined),
+  note: optionalText(255).transform(blankToUndefined),
+});
+
+// Stock movements posted by hand; the other types are posted by orders and purchase orders.
+// Receipts and scrap are positive quantities, and scrap is deducted; adjustments carry a sign.
+export const stockMovementSchema = z
+  .object({
+    type: z.enum(['receipt', 'adjustment', 'scrap'], { message: 'Movement type must be receipt, adjustment or scrap' }),
+    quantity: number('Quantity').refine((quantity) => quantity !== 0, 'Quantity cannot be 0'),
+    note: optionalText(255).transform(blankToUndefined),
+  })
+  .refine((movement) => movement.type === 'adjustment' || movement.quantity >= 0, {
+    message: 'Receipt and scrap quantities must be positive',
+    path: ['quantity'],
+  });
+
+// An empty reference counts as missing, so an unfinished line reports a single issue. A
+// material line without a unit is in its material's unit; sub-assemblies are counted.
+export const bomLineSchema = z
+  .object({
+    materialId: z.string().max(36).optional(),
+    productId: z.string().max(36).optional(),
+    quantity: number('Quantity').positive('Quantity must be greater than 0'),
+    unit: z.string().max(50).optional().transform(blankToUndefined),
+  })
+  .refine((line) => !line.materialId !== !line.productId, {
+    message: 'Choose a material or a sub-assembly',
+    path: ['materialId'],
+  })
+  .transform(({ materialId, productId, quantity, unit }) =>
+    materialId ? { materialId, quantity, unit } : { productId, quantity }
+  );
+
+export const productSchema = z.object({
+  id,
+  name: text(255),
+  materials: z.array(bomLineSchema).min(1, 'Add at least one material'),
+  createdAt: timestamp,
+});
+
+export const productUpdateSchema = productSchema.omit({ id: true }).extend({ version });
+
+export const orderLineSchema = z.object({
+  productId: id,
+  quantity: number('Quantity').int('Quantity must be a whole number').positive('Quantity must be greater than 0'),
+});
+
+export const leftoverSchema = z.object({
+  materialId: id,
+  quantity: number('Quantity').positive('Quantity must be greater than 0'),
+});
+
+// Status changes go through transitions, so only new orders carry one.
+export const orderSchema = z.object({
+  id,
+  orderNumber: text(100),
+  products: z.array(orderLineSchema).min(1, 'Add at least one product'),
+  leftovers: z.array(leftoverSchema).default([]),
+  customerId: z.string().max(36).optional().transform(blankToUndefined),
+  deliveryDate: date.or(z.literal('')).optional().transform(blankToUndefined),
+  notes: optionalText(2000),
+  createdAt: timestamp,
+});
+
+export const orderUpdateSchema = orderSchema.omit({ id: true }).extend({ version });
+
+export const newOrderSchema = orderSchema.extend({
+  status: z
+    .string()
+    .refine((status) => INITIAL_ORDER_STATUSES.includes(status), {
+      message: `New orders must start as ${INITIAL_ORDER_STATUSES.join(' or ')}`,
+    })
+    .default('draft'),
+});
+
+// The order lines to work out material requirements for, as they stand in an order being edited.
+export const orderRequirementsSchema = z.object({
+  lines: z.array(orderLineSchema),
+});
+
+// A status change carries the version of the order it was chosen on, like an edit.
+export const orderTransitionSchema = z.object({
+  status: z.enum(ORDER_STATUSES, { message: `Status must be one of ${ORDER_STATUSES.join(', ')}` }),
+  note: optionalText(255).transform(blankToUndefined),
+  version,
+});
+
+// Applies a reprice preview: `version` is the order's version when it was previewed and
+// `repricedTotal` the total it showed, so a reprice to figures nobody saw is rejected.
+export const orderRepriceSchema = z.object({
+  version,
+  repricedTotal: number('Total'),
+});
+
+export const purchaseOrderLineSchema = z.object({
+  materialId: id,
+  quantity: number('Quantity').positive('Quantity must be greater than 0'),
+  unitPrice: number('Price').nonnegative('Price cannot be negative'),
+});
+
+// Status changes go through transitions and receipts; new purchase orders start as drafts.
+export const purchaseOrderSchema = z.object({
+  id,
+  poNumber: text(100),
+  supplierId: id,
+  lines: z.array(purchaseOrderLineSchema).min(1, 'Add at least one material'),
+  expectedDate: date.or(z.literal('')).optional().transform(blankToUndefined),
+  notes: optionalText(2000),
+  createdAt: timestamp,
+});
+
+export const purchaseOrderUpdateSchema = purchaseOrderSchema.omit({ id: true }).extend({ version });
+
+// Like an order's, a purchase order's status change carries the version it was chosen on.
+export const purchaseOrderTransitionSchema = z.object({
+  status: z.enum(PURCHASE_ORDER_STATUSES, { message: `Status must be one of ${PURCHASE_ORDER_STATUSES.join(', ')}` }),
+  version,
+});
+
+// Goods received against a purchase order; `line` is the index of the line in the order, and
+// `version` the version of the order the quantities were entered on.
+export const purchaseReceiptSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        line: z.number().int().nonnegative(),
+        quantity: number('Quantity').positive('Quantity must be greater than 0'),
+      })
+    )
+    .min(1, 'Enter a quantity for at least one line'),
+  note: optionalText(255),
+  version,
+});
+
+// A CSV import; see shared/imports.js. Rows hold the file's cells by field key, as text.
+export const importSchema = z.object({
+  mode: z.enum(['create', 'upsert'], { message: 'Mode must be create or upsert' }).default('create'),
+  dryRun: z.boolean().default(false),
+  rows: z
+    .array(z.record(z.string()))
+    .min(1, 'The file has no rows')
+    .max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+});
+
+// Numbers in CSV cells may be written with a decimal comma.
+const numberCell = (schema) =>
+  z.preprocess((value) => (typeof value === 'string' ? Number(value.trim().replace(',', '.')) : value), schema);
+
+// Each import row schema reads one row of cells, blank cells left out. Names refer to
+// records by name, or by number for orders. A material's unit and cost may be left blank
+// on a row that updates an existing one; the import requires them for new materials.
+export const materialImportRowSchema = z.object({
+  name: materialSchema.shape.name,
+  unit: materialSchema.shape.unit.optional(),
+  cost: numberCell(newMaterialSchema.shape.cost.optional()),
+  stock: numberCell(newMaterialSchema.shape.stock.optional()),
+  reorderPoint: numberCell(materialSchema.shape.reorderPoint),
+  reorderQuantity: numberCell(materialSchema.shape.reorderQuantity),
+  safetyStock: numberCell(materialSchema.shape.safetyStock),
+  leadTimeDays: numberCell(materialSchema.shape.leadTimeDays),
+});
+
+export const productImportRowSchema = z.object({
+  product: text(255),
+  component: text(255),
+  quantity: numberCell(number('Quantity').positive('Quantity must be greater than 0')),
+  unit: optionalText(50),
+});
+
+export const orderImportRowSchema = z.object({
+  orderNumber: orderSchema.shape.orderNumber,
+  product: text(255),
+  quantity: numberCell(orderLineSchema.shape.quantity),
+  customer: optionalText(255),
+  status: z
+    .enum(INITIAL_ORDER_STATUSES, { message: `New orders must start as ${INITIAL_ORDER_STATUSES.join(' or ')}` })
+    .optional(),
+  deliveryDate: date.optional(),
+  notes: orderSchema.shape.notes,
+});
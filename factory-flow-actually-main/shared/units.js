@@ -0,0 +1,26 @@
+// Units of measure shared by the API server and the frontend.
+
+/** @typedef {'mass' | 'length' | 'count' | 'volume' | 'area'} UnitDimension */
+/** @typedef {{ code: string; name: string; dimension: UnitDimension; factor: number }} Unit */
+
+/** @type {UnitDimension[]} */
+export const UNIT_DIMENSIONS = ['mass', 'length', 'count', 'volume', 'area'];
+
+/**
+ * Whether quantities in one unit can be converted to the other.
+ * @param {Unit | undefined} from
+ * @param {Unit | undefined} to
+ * @returns {boolean}
+ */
+export const areUnitsCompatible = (from, to) => !!from && !!to && from.dimension === to.dimension;
+
+/**
+ * The units a quantity of a material in `code` may be given in: those of the same dimension.
+ * @param {Unit[]} units
+ * @param {string} code
+ * @returns {Unit[]}
+ */
+export const compatibleUnits = (units, code) => {
+  const base = units.find((unit) => unit.code === code);
+  return units.filter((unit) => areUnitsCompatible(unit, base));
+};
@@ -3,10 +3,36 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequirePermission } from "@/components/RouteGuards";
+import { ApiError } from "@/lib/storage";
+import { Dashboard } from "@/components/Dashboard";
+import { OrdersPage } from "@/components/OrdersPage";
+import { OrderDetailPage } from "@/components/OrderDetailPage";
+import { CustomersPage } from "@/components/CustomersPage";
+import { CustomerDetailPage } from "@/components/CustomerDetailPage";
+import { ProductsPage } from "@/components/ProductsPage";
+import { ProductDetailPage } from "@/components/ProductDetailPage";
+import { MaterialsPage } from "@/components/MaterialsPage";
+import { MaterialDetailPage } from "@/components/MaterialDetailPage";
+import { PurchasingPage } from "@/components/PurchasingPage";
+import { PurchaseOrderDetailPage } from "@/components/PurchaseOrderDetailPage";
+import { SuppliersPage } from "@/components/SuppliersPage";
+import { SupplierDetailPage } from "@/components/SupplierDetailPage";
+import { UsersPage } from "@/components/UsersPage";
+import { AuditPage } from "@/components/AuditPage";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      // An answer from the API will not change on retry; only network failures are retried.
+      retry: (failureCount, error) => !(error instanceof ApiError) && failureCount < 2,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -15,7 +41,24 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/" element={<Index />}>
+            <Route index element={<Dashboard />} />
+            <Route path="orders" element={<RequirePermission resource="orders"><OrdersPage /></RequirePermission>} />
+            <Route path="orders/:id" element={<RequirePermission resource="orders"><OrderDetailPage /></RequirePermission>} />
+            <Route path="customers" element={<RequirePermission resource="customers"><CustomersPage /></RequirePermission>} />
+            <Route path="customers/:id" element={<RequirePermission resource="customers"><CustomerDetailPage /></RequirePermission>} />
+            <Route path="products" element={<RequirePermission resource="products"><ProductsPage /></RequirePermission>} />
+            <Route path="products/:id" element={<RequirePermission resource="products"><ProductDetailPage /></RequirePermission>} />
+            <Route path="materials" element={<RequirePermission resource="materials"><MaterialsPage /></RequirePermission>} />
+            <Route path="materials/:id" element={<RequirePermission resource="materials"><MaterialDetailPage /></RequirePermission>} />
+            <Route path="purchasing" element={<RequirePermission resource="purchaseOrders"><PurchasingPage /></RequirePermission>} />
+            <Route path="purchasing/:id" element={<RequirePermission resource="purchaseOrders"><PurchaseOrderDetailPage /></RequirePermission>} />
+            <Route path="suppliers" element={<RequirePermission resource="suppliers"><SuppliersPage /></RequirePermission>} />
+            <Route path="suppliers/:id" element={<RequirePermission resource="suppliers"><SupplierDetailPage /></RequirePermission>} />
+            <Route path="users" element={<RequirePermission resource="users"><UsersPage /></RequirePermission>} />
+            <Route path="audit" element={<RequirePermission resource="audit"><AuditPage /></RequirePermission>} />
+          </Route>
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
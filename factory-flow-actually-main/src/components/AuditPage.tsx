@@ -0,0 +1,237 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AuditEntityType, PAGE_SIZE } from '@/lib/storage';
+import { useAuditLog, useQueryErrorToast, useUserList } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { ListPagination } from '@/components/ListPagination';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { Search, Shield } from 'lucide-react';
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  user: 'User',
+  customer: 'Customer',
+  supplier: 'Supplier',
+  unit: 'Unit',
+  material: 'Material',
+  product: 'Product',
+  order: 'Order',
+  purchase_order: 'Purchase order',
+};
+
+const actionLabels: Record<string, string> = {
+  create: 'Created',
+  update: 'Updated',
+  archive: 'Archived',
+  restore: 'Restored',
+  delete: 'Deleted',
+  transition: 'Status changed',
+  reprice: 'Repriced',
+  record_price: 'Price recorded',
+  stock_movement: 'Stock movement',
+  receive: 'Received',
+};
+
+// Lists and line items are shown as indented JSON; empty values as a dash.
+const AuditValue = ({ value }: { value: unknown }) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  if (typeof value === 'object') {
+    return <pre className="text-xs whitespace-pre-wrap break-all max-h-48 overflow-auto">{JSON.stringify(value, null, 2)}</pre>;
+  }
+  return <span className="break-all">{String(value)}</span>;
+};
+
+export const AuditPage = () => {
+  const [entityType, setEntityType] = useQueryState<AuditEntityType | 'all'>('type', 'all', ['all', ...(Object.keys(entityTypeLabels) as AuditEntityType[])]);
+  const [action, setAction] = useQueryState('action', 'all');
+  const [userId, setUserId] = useQueryState('user', 'all');
+  const [entityId, setEntityId] = useQueryState('entity', '');
+  const [fromDate, setFromDate] = useQueryState('from', '');
+  const [toDate, setToDate] = useQueryState('to', '');
+  const debouncedEntityId = useDebouncedValue(entityId);
+
+  const filters = useMemo(
+    () => ({
+      entityType: entityType === 'all' ? undefined : entityType,
+      action: action === 'all' ? undefined : action,
+      userId: userId === 'all' ? undefined : userId,
+      entityId: debouncedEntityId.trim(),
+      from: fromDate,
+      to: toDate,
+    }),
+    [entityType, action, userId, debouncedEntityId, fromDate, toDate]
+  );
+
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
+
+  const entriesQuery = useAuditLog({ ...filters, page, limit: PAGE_SIZE });
+  const entries = entriesQuery.data?.items ?? [];
+  const total = entriesQuery.data?.total ?? 0;
+  useQueryErrorToast(entriesQuery.error, 'Unable to load audit log');
+
+  // Archived users are included so their past changes can still be filtered on. Without them
+  // the user filter is simply left out.
+  const usersQuery = useUserList({ limit: 0, includeArchived: true }, can('users', 'read'));
+  const users = usersQuery.data?.items ?? [];
+
+  if (!can('audit', 'read')) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              You don't have permission to view the audit log.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+        <p className="text-muted-foreground">Who changed what, and when</p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Record ID..."
+                value={entityId}
+                onChange={(e) => setEntityId(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={entityType} onValueChange={(value: AuditEntityType | 'all') => setEntityType(value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All records</SelectItem>
+                {(Object.keys(entityTypeLabels) as AuditEntityType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {entityTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {Object.entries(actionLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-4 mt-4">
+            {users.length > 0 && (
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} {user.surname}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditFrom" className="whitespace-nowrap">From</Label>
+              <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auditTo">to</Label>
+              <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4">
+        {entries.map((entry) => (
+          <Card key={entry.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex justify-between items-start gap-4">
+                <span>
+                  {actionLabels[entry.action] ?? entry.action} {entityTypeLabels[entry.entityType].toLowerCase()}{' '}
+                  <button
+                    type="button"
+                    className="font-mono text-xs text-muted-foreground hover:underline"
+                    title="Show all changes to this record"
+                    onClick={() => setEntityId(entry.entityId)}
+                  >
+                    {entry.entityId}
+                  </button>
+                </span>
+                <span className="text-xs font-normal text-muted-foreground text-right whitespace-nowrap">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  <br />
+                  {entry.userName ?? 'System'}
+                  {entry.ip && ` · ${entry.ip}`}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40">Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entry.changes.map((change) => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-medium align-top">{change.field}</TableCell>
+                      <TableCell className="align-top">
+                        <AuditValue value={change.before} />
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <AuditValue value={change.after} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No changes recorded for these filters.
+          </CardContent>
+        </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
+      )}
+    </div>
+  );
+};
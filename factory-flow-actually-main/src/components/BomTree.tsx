@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { explodeBom, type BomNode } from '@shared/bom.js';
+import { Material, Product } from '@/lib/storage';
+import { Box, Package } from 'lucide-react';
+
+interface BomTreeProps {
+  productId: string;
+  products: Product[];
+  materials: Material[];
+}
+
+export const BomTree = ({ productId, products, materials }: BomTreeProps) => {
+  const tree = useMemo(() => explodeBom(productId, products), [productId, products]);
+
+  const renderNodes = (nodes: BomNode[]) => (
+    <ul className="space-y-1 pl-4 border-l border-border">
+      {nodes.map((node, index) => {
+        if (node.kind === 'product') {
+          const product = products.find(p => p.id === node.id);
+          return (
+            <li key={`${node.id}-${index}`} className="text-xs">
+              <div className="flex items-center gap-1 font-medium">
+                <Package className="h-3 w-3" />
+                {product?.name ?? 'Unknown product'} × {node.quantity}
+              </div>
+              {node.children.length > 0 && renderNodes(node.children)}
+            </li>
+          );
+        }
+        const material = materials.find(m => m.id === node.id);
+        return (
+          <li key={`${node.id}-${index}`} className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Box className="h-3 w-3" />
+            {material?.name ?? 'Unknown material'}: {node.quantity} {material?.unit}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return tree.length > 0 ? renderNodes(tree) : null;
+};
@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface ConflictDialogProps<T extends object> {
+  /** The server's copy of the record; the dialog is open while it is set. */
+  current: T | null;
+  /** The copy the edit started from. */
+  base: T | null;
+  /** Fields worth naming when they changed; changes to other fields are not listed. */
+  labels: Partial<Record<keyof T, string>>;
+  /** Replaces the form with the server's copy. */
+  onReload: (current: T) => void;
+  /** Keeps the form as it is; the next save overwrites the other change. */
+  onKeepMine: (current: T) => void;
+  onClose: () => void;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const ConflictDialog = <T extends object>({ current, base, labels, onReload, onKeepMine, onClose }: ConflictDialogProps<T>) => {
+  const changed = current && base
+    ? (Object.keys(labels) as (keyof T)[]).filter((field) => !same(base[field], current[field])).map((field) => labels[field])
+    : [];
+
+  return (
+    <AlertDialog open={current !== null} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Changed by someone else</AlertDialogTitle>
+          <AlertDialogDescription>
+            This record was saved by someone else while you were editing it
+            {changed.length > 0 ? `; they changed ${changed.join(', ')}.` : '.'} Load their version to start again from
+            it, or keep your changes and save again to overwrite theirs.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => current && onKeepMine(current)}>Keep my changes</AlertDialogCancel>
+          <AlertDialogAction onClick={() => current && onReload(current)}>Load their version</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
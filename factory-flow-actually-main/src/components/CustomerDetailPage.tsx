@@ -0,0 +1,110 @@
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQueryPage } from '@/hooks/use-query-state';
+import { formatDay } from '@/lib/utils';
+import { PAGE_SIZE } from '@/lib/storage';
+import { useCustomer, useOrderList, useQueryErrorToast } from '@/lib/queries';
+import { orderStatusLabels, orderStatusStyles } from '@/lib/orderStatus';
+import { DetailPage } from '@/components/DetailPage';
+import { ListPagination } from '@/components/ListPagination';
+
+export const CustomerDetailPage = () => {
+  const { id } = useParams();
+  const { record: customer, missing } = useCustomer(id);
+  const [page, setPage] = useQueryPage(id);
+
+  // Archived orders are part of the customer's history too.
+  const ordersQuery = useOrderList({ customerId: id, includeArchived: true, page, limit: PAGE_SIZE });
+  const orders = ordersQuery.data?.items ?? [];
+  const total = ordersQuery.data?.total ?? 0;
+  useQueryErrorToast(ordersQuery.error, 'Unable to load order history');
+
+  return (
+    <DetailPage
+      backTo="/customers"
+      backLabel="Customers"
+      missing={missing}
+      title={customer?.name}
+      subtitle={customer?.archivedAt && `Archived ${new Date(customer.archivedAt).toLocaleDateString()}`}
+    >
+      {customer && (
+        <Card>
+          <CardContent className="pt-6 grid md:grid-cols-2 gap-4 text-sm">
+            <div className="space-y-1 text-muted-foreground">
+              {customer.contactName && <div><span className="font-medium">Contact:</span> {customer.contactName}</div>}
+              {customer.email && <div><span className="font-medium">Email:</span> {customer.email}</div>}
+              {customer.phone && <div><span className="font-medium">Phone:</span> {customer.phone}</div>}
+              {customer.address && <div className="whitespace-pre-line"><span className="font-medium">Address:</span> {customer.address}</div>}
+              {customer.notes && <div className="whitespace-pre-line italic">{customer.notes}</div>}
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Lifetime value:</span>
+                <span className="font-bold text-lg">€{(customer.lifetimeValue ?? 0).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Orders:</span>
+                <span className="font-medium">{customer.orderCount ?? 0}</span>
+              </div>
+              {customer.lastOrderAt && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Last order:</span>
+                  <span>{new Date(customer.lastOrderAt).toLocaleDateString()}</span>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">Cancelled orders are not counted.</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!missing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Delivery</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/orders/${order.id}`} className="underline">{order.orderNumber}</Link>
+                      {order.archivedAt && <span className="text-xs text-muted-foreground"> (archived)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`text-xs px-2 py-1 rounded-full ${orderStatusStyles[order.status]}`}>
+                        {orderStatusLabels[order.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{order.deliveryDate ? formatDay(order.deliveryDate) : '—'}</TableCell>
+                    <TableCell className="text-right">€{order.totalCost.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                {orders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      No orders yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            {orders.length > 0 && <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />}
+          </CardContent>
+        </Card>
+      )}
+    </DetailPage>
+  );
+};
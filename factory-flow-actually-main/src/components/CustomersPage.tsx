@@ -0,0 +1,399 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Customer, PAGE_SIZE } from '@/lib/storage';
+import { useArchiveCustomer, useCreateCustomer, useCustomerList, useDeleteCustomer, useQueryErrorToast, useRestoreCustomer, useUpdateCustomer } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, staleRecord } from '@/lib/forms';
+import { customerSchema } from '@shared/schemas.js';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, Archive, ArchiveRestore, Eye } from 'lucide-react';
+
+const customerForm = customerSchema.pick({ name: true, contactName: true, email: true, phone: true, address: true, notes: true });
+
+type CustomerFormValues = Pick<Customer, 'name' | 'contactName' | 'email' | 'phone' | 'address' | 'notes'>;
+
+const emptyForm: CustomerFormValues = { name: '', contactName: '', email: '', phone: '', address: '', notes: '' };
+
+const sortLabels = { name: 'name', date: 'date', value: 'lifetime value', orders: 'orders' };
+
+export const CustomersPage = () => {
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'name' | 'date' | 'value' | 'orders'>('sort', 'name', ['name', 'date', 'value', 'orders']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'asc', ['asc', 'desc']);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [conflict, setConflict] = useState<Customer | null>(null);
+  const { toast } = useToast();
+  const createCustomer = useCreateCustomer();
+  const updateCustomer = useUpdateCustomer();
+  const archiveCustomer = useArchiveCustomer();
+  const restoreCustomer = useRestoreCustomer();
+  const deleteCustomer = useDeleteCustomer();
+  const canCreate = can('customers', 'create');
+  const canUpdate = can('customers', 'update');
+  const canDelete = can('customers', 'delete');
+
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerForm),
+    defaultValues: emptyForm,
+  });
+
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, view]
+  );
+
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
+
+  const customersQuery = useCustomerList({ ...filters, page, limit: PAGE_SIZE });
+  const customers = customersQuery.data?.items ?? [];
+  const total = customersQuery.data?.total ?? 0;
+  useQueryErrorToast(customersQuery.error, 'Unable to load customers');
+
+  const handleSubmit = async (values: CustomerFormValues) => {
+    const customerData: Customer = editingCustomer
+      ? { ...editingCustomer, ...values }
+      : {
+          id: crypto.randomUUID(),
+          ...values,
+          createdAt: new Date().toISOString(),
+        };
+
+    try {
+      if (editingCustomer) {
+        const saved = await updateCustomer.mutateAsync(customerData);
+        toast({
+          title: 'Customer updated',
+          description: `${saved.name} has been updated successfully.`,
+        });
+      } else {
+        const saved = await createCustomer.mutateAsync(customerData);
+        toast({
+          title: 'Customer created',
+          description: `${saved.name} has been added successfully.`,
+        });
+      }
+
+      form.reset(emptyForm);
+      setEditingCustomer(null);
+      setIsDialogOpen(false);
+    } catch (error) {
+      const current = staleRecord<Customer>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
+      toast({
+        title: 'Unable to save customer',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleArchive = async (customer: Customer) => {
+    try {
+      await archiveCustomer.mutateAsync(customer.id);
+      toast({ title: 'Customer archived', description: `${customer.name} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive customer',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (customer: Customer) => {
+    try {
+      await restoreCustomer.mutateAsync(customer.id);
+      toast({ title: 'Customer restored', description: `${customer.name} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore customer',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    try {
+      await deleteCustomer.mutateAsync(customer.id);
+      toast({ title: 'Customer deleted', description: `${customer.name} has been deleted permanently.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to delete customer',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setEditingCustomer(customer);
+    form.reset({
+      name: customer.name,
+      contactName: customer.contactName ?? '',
+      email: customer.email ?? '',
+      phone: customer.phone ?? '',
+      address: customer.address ?? '',
+      notes: customer.notes ?? '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const textField = (name: keyof CustomerFormValues, label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Customers</h1>
+          <p className="text-muted-foreground">Manage customers and their order history</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingCustomer(null);
+            form.reset(emptyForm);
+          }
+        }}>
+          {canCreate && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingCustomer ? 'Edit Customer' : 'Add New Customer'}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                {textField('name', 'Name', 'e.g., Acme Furniture Ltd')}
+                <div className="grid grid-cols-2 gap-4">
+                  {textField('contactName', 'Contact Person')}
+                  {textField('phone', 'Phone Number', '+370 600 00000')}
+                </div>
+                {textField('email', 'Email')}
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Delivery Address</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full">
+                  {editingCustomer ? 'Update Customer' : 'Add Customer'}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+        <ConflictDialog
+          current={conflict}
+          base={editingCustomer}
+          labels={{
+            name: 'the name',
+            contactName: 'the contact person',
+            email: 'the email',
+            phone: 'the phone number',
+            address: 'the address',
+            notes: 'the notes',
+            archivedAt: 'its archive state',
+          }}
+          onReload={handleEdit}
+          onKeepMine={(current) => setEditingCustomer({ ...editingCustomer, version: current.version })}
+          onClose={() => setConflict(null)}
+        />
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search customers..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (sortBy === 'name') setSortBy('value');
+                else if (sortBy === 'value') setSortBy('orders');
+                else if (sortBy === 'orders') setSortBy('date');
+                else setSortBy('name');
+              }}
+            >
+              <ArrowUpDown className="h-4 w-4 mr-2" />
+              Sort by: {sortLabels[sortBy]}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            >
+              {sortOrder === 'asc' ? '↑' : '↓'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {customers.map((customer) => (
+          <Card key={customer.id}>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-start">
+                <Link to={`/customers/${customer.id}`} className="hover:underline">{customer.name}</Link>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="ghost" title="Details and order history" asChild>
+                    <Link to={`/customers/${customer.id}`}>
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  {canUpdate && !customer.archivedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(customer)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && !customer.archivedAt && (
+                    <ConfirmDialog
+                      title={`Archive ${customer.name}?`}
+                      description="They will be hidden from lists and pickers. Their orders are not affected, and they can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(customer)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {canDelete && customer.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(customer)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete ${customer.name} permanently?`}
+                        description="A customer with orders cannot be deleted. This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(customer)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  {[customer.contactName, customer.email, customer.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Lifetime value:</span>
+                  <span className="font-medium">€{(customer.lifetimeValue ?? 0).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Orders:</span>
+                  <span className="font-medium">{customer.orderCount ?? 0}</span>
+                </div>
+                <div className="text-xs text-muted-foreground pt-2">
+                  Added: {new Date(customer.createdAt).toLocaleDateString()}
+                  {customer.archivedAt && <> · Archived: {new Date(customer.archivedAt).toLocaleDateString()}</>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {customers.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {view === 'archived' ? 'No archived customers.' : 'No customers found. Add your first customer to get started.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
+      )}
+    </div>
+  );
+};
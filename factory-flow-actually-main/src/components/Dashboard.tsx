@@ -1,27 +1,20 @@
-import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { getOrders, getMaterials, getProducts, Material, Order, Product } from '@/lib/storage';
+import { useMaterials, useOrders, useProducts, useQueryErrorToast } from '@/lib/queries';
+import { orderStatusLabels, orderStatusStyles } from '@/lib/orderStatus';
+import { isBelowReorderLevel, reorderLevel } from '@shared/reorder.js';
 import { ShoppingCart, Package, Box, TrendingUp } from 'lucide-react';
 
 export const Dashboard = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
+  const ordersQuery = useOrders();
+  const materialsQuery = useMaterials();
+  const productsQuery = useProducts();
+  const orders = ordersQuery.data ?? [];
+  const materials = materialsQuery.data ?? [];
+  const products = productsQuery.data ?? [];
+  useQueryErrorToast(ordersQuery.error ?? materialsQuery.error ?? productsQuery.error, 'Unable to load dashboard');
 
-  useEffect(() => {
-    const loadData = async () => {
-      const [orderData, materialData, productData] = await Promise.all([
-        getOrders(),
-        getMaterials(),
-        getProducts(),
-      ]);
-      setOrders(orderData);
-      setMaterials(materialData);
-      setProducts(productData);
-    };
-
-    loadData();
-  }, []);
+  const lowStockMaterials = materials.filter(m => isBelowReorderLevel(m));
 
   const totalRevenue = orders
     .filter(o => o.status === 'completed')
@@ -93,19 +86,15 @@ export const Dashboard = () => {
             {orders.slice(-5).reverse().map((order) => (
               <div key={order.id} className="flex items-center justify-between py-3 border-b last:border-0">
                 <div>
-                  <p className="font-medium">{order.orderNumber}</p>
+                  <Link to={`/orders/${order.id}`} className="font-medium hover:underline">{order.orderNumber}</Link>
                   <p className="text-sm text-muted-foreground">
                     {new Date(order.createdAt).toLocaleDateString()}
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="font-medium">€{order.totalCost.toFixed(2)}</p>
-                  <span className={`text-xs px-2 py-1 rounded-full ${
-                    order.status === 'completed' ? 'bg-green-100 text-green-700' :
-                    order.status === 'in-progress' ? 'bg-blue-100 text-blue-700' :
-                    'bg-yellow-100 text-yellow-700'
-                  }`}>
-                    {order.status}
+                  <span className={`text-xs px-2 py-1 rounded-full ${orderStatusStyles[order.status]}`}>
+                    {orderStatusLabels[order.status]}
                   </span>
                 </div>
               </div>
@@ -121,23 +110,22 @@ export const Dashboard = () => {
             <CardTitle>Low Stock Materials</CardTitle>
           </CardHeader>
           <CardContent>
-            {materials
-              .filter(m => m.stock < 100)
+            {lowStockMaterials
               .slice(0, 5)
               .map((material) => (
                 <div key={material.id} className="flex items-center justify-between py-3 border-b last:border-0">
                   <div>
-                    <p className="font-medium">{material.name}</p>
+                    <Link to={`/materials/${material.id}`} className="font-medium hover:underline">{material.name}</Link>
                     <p className="text-sm text-muted-foreground">{material.unit}</p>
                   </div>
                   <div className="text-right">
                     <p className="font-medium">{material.stock}</p>
-                    <p className="text-xs text-destructive">Low stock</p>
+                    <p className="text-xs text-destructive">Reorder at {reorderLevel(material)}</p>
                   </div>
                 </div>
               ))}
-            {materials.filter(m => m.stock < 100).length === 0 && (
-              <p className="text-center text-muted-foreground py-8">All materials well stocked</p>
+            {lowStockMaterials.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">All materials above their reorder level</p>
             )}
           </CardContent>
         </Card>
@@ -0,0 +1,47 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+
+interface DetailPageProps {
+  /** The list page the record belongs to. */
+  backTo: string;
+  backLabel: string;
+  title?: ReactNode;
+  subtitle?: ReactNode;
+  actions?: ReactNode;
+  /** Set when the record does not exist; a message is shown instead of the children. */
+  missing?: boolean;
+  children?: ReactNode;
+}
+
+// Shared frame of the record detail pages, reached at URLs such as /orders/:id.
+export const DetailPage = ({ backTo, backLabel, title, subtitle, actions, missing, children }: DetailPageProps) => (
+  <div className="p-8 space-y-6">
+    <Link to={backTo} className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+      <ArrowLeft className="h-4 w-4" />
+      {backLabel}
+    </Link>
+
+    {missing ? (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          This record does not exist. It may have been deleted.
+        </CardContent>
+      </Card>
+    ) : (
+      <>
+        {title && (
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">{title}</h1>
+              {subtitle && <div className="text-muted-foreground">{subtitle}</div>}
+            </div>
+            {actions && <div className="flex gap-2">{actions}</div>}
+          </div>
+        )}
+        {children}
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { ChevronDown, FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { ExportEntity, ExportQuery, downloadExport } from '@/lib/storage';
+
+interface ExportMenuProps {
+  entity: ExportEntity;
+  /** The list's current filters and sort; the export holds every record matching them. */
+  query: ExportQuery;
+}
+
+const labels: Record<ExportEntity, string> = { materials: 'Materials', products: 'Products', orders: 'Orders' };
+
+/** Downloads the list as CSV, comma- or semicolon-separated; orders can have a row per line. */
+export const ExportMenu = ({ entity, query }: ExportMenuProps) => {
+  const [perLine, setPerLine] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (delimiter: ExportQuery['delimiter']) => {
+    setIsExporting(true);
+    try {
+      await downloadExport(entity, { ...query, delimiter, lines: entity === 'orders' && perLine ? true : undefined });
+      toast({ title: 'Export successful', description: `${labels[entity]} data has been exported to CSV.` });
+    } catch (error) {
+      toast({
+        title: `Unable to export ${entity}`,
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          <FileDown className="h-4 w-4 mr-2" />
+          Export CSV
+          <ChevronDown className="h-4 w-4 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport(',')}>Comma-separated</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport(';')}>Semicolon-separated, decimal commas</DropdownMenuItem>
+        {entity === 'orders' && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={perLine}
+              onCheckedChange={(checked) => setPerLine(checked === true)}
+              onSelect={(event) => event.preventDefault()}
+            >
+              One row per order line
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError, ImportEntity, ImportReport, ImportRequest, ValidationIssue } from '@/lib/storage';
+import { useImportRecords } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { DELIMITERS, detectDelimiter, parseCsv } from '@shared/csv.js';
+import { IMPORT_FIELDS, matchColumns } from '@shared/imports.js';
+
+interface ImportDialogProps {
+  entity: ImportEntity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const titles: Record<ImportEntity, string> = {
+  materials: 'Import materials',
+  products: 'Import product BOMs',
+  orders: 'Import orders',
+};
+
+const descriptions: Record<ImportEntity, string> = {
+  materials: 'One row per material. Cost and stock are the opening cost and stock of new materials.',
+  products: 'One row per BOM line, with the product name repeated on each of its rows. A component is a material, or else a product used as a sub-assembly.',
+  orders: 'One row per order line, with the order number repeated on each of its rows. The order\'s customer, status, delivery date and notes are read from the first row that has them.',
+};
+
+const matchedBy: Record<ImportEntity, string> = { materials: 'name', products: 'name', orders: 'number' };
+
+const delimiterLabels: Record<string, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab' };
+
+// Rows shown in the preview; those with problems come first.
+const PREVIEW_ROWS = 100;
+
+const NOT_IMPORTED = 'none';
+
+// The index of the row an issue is about, from its `rows.<index>.<field>` path.
+const issueRow = (issue: ValidationIssue) => Number(issue.path.split('.')[1]);
+
+export const ImportDialog = ({ entity, open, onOpenChange }: ImportDialogProps) => {
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [mode, setMode] = useState<ImportRequest['mode']>('create');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const { toast } = useToast();
+  const importRecords = useImportRecords();
+  const fields = IMPORT_FIELDS[entity];
+
+  const parsed = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const headers = parsed[0] ?? [];
+  const dataRows = useMemo(() => parsed.slice(1), [parsed]);
+
+  const rows = useMemo(
+    () => dataRows.map((cells) => Object.fromEntries(Object.entries(mapping).map(([key, column]) => [key, cells[column] ?? '']))),
+    [dataRows, mapping]
+  );
+
+  const missingFields = fields.filter((field) => field.required && mapping[field.key] === undefined);
+
+  const issuesByRow = useMemo(() => {
+    const byRow = new Map<number, ValidationIssue[]>();
+    report?.issues.forEach((issue) => byRow.set(issueRow(issue), [...(byRow.get(issueRow(issue)) ?? []), issue]));
+    return byRow;
+  }, [report]);
+
+  const actionsByRow = useMemo(
+    () => new Map(report?.records.flatMap((record) => record.rows.map((row) => [row, record.action] as const))),
+    [report]
+  );
+
+  const previewRows = useMemo(() => {
+    const indexes = rows.map((_, index) => index);
+    return [...indexes.filter((index) => issuesByRow.has(index)), ...indexes.filter((index) => !issuesByRow.has(index))].slice(0, PREVIEW_ROWS);
+  }, [rows, issuesByRow]);
+
+  const reset = () => {
+    setFileName('');
+    setText('');
+    setMapping({});
+    setMode('create');
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    const detected = detectDelimiter(content);
+    setFileName(file.name);
+    setText(content);
+    setDelimiter(detected);
+    setMapping(matchColumns(entity, parseCsv(content, detected)[0] ?? []));
+    setReport(null);
+  };
+
+  const handleDelimiterChange = (value: string) => {
+    setDelimiter(value);
+    setMapping(matchColumns(entity, parseCsv(text, value)[0] ?? []));
+    setReport(null);
+  };
+
+  const handleMappingChange = (key: string, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_IMPORTED) delete next[key];
+    else next[key] = Number(value);
+    setMapping(next);
+    setReport(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setReport(await importRecords.mutateAsync({ entity, mode, dryRun: true, rows }));
+    } catch (error) {
+      toast({
+        title: 'Unable to preview import',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importRecords.mutateAsync({ entity, mode, rows });
+      toast({
+        title: 'Import complete',
+        description: `${result.created} created, ${result.updated} updated.`,
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      // Someone may have changed the data since the preview; show what is wrong now.
+      if (error instanceof ApiError && error.issues.length > 0 && report) {
+        setReport({ ...report, issues: error.issues });
+      }
+      toast({
+        title: 'Nothing was imported',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fieldLabel = (key: string | undefined) => fields.find((field) => field.key === key)?.label;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{titles[entity]}</DialogTitle>
+          <DialogDescription>{descriptions[entity]}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="importFile">CSV file</Label>
+            <Input id="importFile" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </div>
+          {text && (
+            <div className="space-y-2 w-40">
+              <Label>Delimiter</Label>
+              <Select value={delimiter} onValueChange={handleDelimiterChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map((value) => (
+                    <SelectItem key={value} value={value}>{delimiterLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {text && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}
+            </p>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              {fields.map((field) => (
+                <div key={field.key} className="flex items-center gap-2">
+                  <Label className="w-44 shrink-0">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] === undefined ? NOT_IMPORTED : String(mapping[field.key])}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {headers.map((header, column) => (
+                        <SelectItem key={column} value={String(column)}>{header || `Column ${column + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {can(entity, 'update') && (
+              <RadioGroup
+                value={mode}
+                onValueChange={(value) => {
+                  setMode(value as ImportRequest['mode']);
+                  setReport(null);
+                }}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="create" id="importCreate" />
+                  <Label htmlFor="importCreate">Only create new records</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="upsert" id="importUpsert" />
+                  <Label htmlFor="importUpsert">Update records with the same {matchedBy[entity]}</Label>
+                </div>
+              </RadioGroup>
+            )}
+
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                Choose a column for {missingFields.map((field) => field.label).join(', ')}.
+              </p>
+            )}
+          </>
+        )}
+
+        {report && (
+          <>
+            <p className="text-sm">
+              {report.created} to create, {report.updated} to update
+              {report.issues.length > 0 && (
+                <span className="text-destructive">, {issuesByRow.size} {issuesByRow.size === 1 ? 'row' : 'rows'} with problems</span>
+              )}
+              {rows.length > PREVIEW_ROWS && <span className="text-muted-foreground"> · showing {PREVIEW_ROWS} of {rows.length} rows</span>}
+            </p>
+            <div className="max-h-80 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    {fields.filter((field) => mapping[field.key] !== undefined).map((field) => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((index) => (
+                    <TableRow key={index}>
+                      {/* Line numbers count the header, as a spreadsheet does. */}
+                      <TableCell className="text-muted-foreground">{index + 2}</TableCell>
+                      {fields.filter((field) => mapping[field.key] !== undefined).map((field) => (
+                        <TableCell key={field.key}>{rows[index][field.key]}</TableCell>
+                      ))}
+                      <TableCell>
+                        {issuesByRow.has(index) ? (
+                          <ul className="text-xs text-destructive">
+                            {issuesByRow.get(index)?.map((issue, i) => {
+                              const label = fieldLabel(issue.path.split('.')[2]);
+                              return <li key={i}>{label ? `${label}: ${issue.message}` : issue.message}</li>;
+                            })}
+                          </ul>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            {actionsByRow.get(index) === 'update' ? 'Update' : actionsByRow.get(index) === 'create' ? 'New' : 'Skipped'}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {!report || report.issues.length > 0 ? (
+            <Button onClick={handlePreview} disabled={!text || rows.length === 0 || missingFields.length > 0 || importRecords.isPending}>
+              {report ? 'Check again' : 'Preview'}
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={importRecords.isPending}>
+              Import {rows.length} {rows.length === 1 ? 'row' : 'rows'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,29 +1,40 @@
 import { ReactNode } from 'react';
+import { NavLink, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { Package, ShoppingCart, Box, Users, LogOut, LayoutDashboard, FileDown } from 'lucide-react';
-import { getCurrentUser, setCurrentUser } from '@/lib/storage';
+import { Package, ShoppingCart, Box, Users, LogOut, LayoutDashboard, FileDown, ScrollText, Contact, ClipboardList, Truck } from 'lucide-react';
+import { getCurrentUser, logout } from '@/lib/storage';
+import { can } from '@/lib/permissions';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 
 interface LayoutProps {
   children: ReactNode;
-  currentPage: string;
-  onNavigate: (page: string) => void;
-  onLogout: () => void;
 }
 
-export const Layout = ({ children, currentPage, onNavigate, onLogout }: LayoutProps) => {
+export const Layout = ({ children }: LayoutProps) => {
   const user = getCurrentUser();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  useLiveUpdates();
 
-  const handleLogout = () => {
-    setCurrentUser(null);
-    onLogout();
+  const handleLogout = async () => {
+    // The local session is cleared even if the server cannot be reached.
+    await logout().catch(() => undefined);
+    // The next user may not be allowed to see what this one loaded.
+    queryClient.clear();
+    navigate('/login');
   };
 
   const navigation = [
-    { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
-    { id: 'orders', label: 'Orders', icon: ShoppingCart },
-    { id: 'products', label: 'Products', icon: Package },
-    { id: 'materials', label: 'Materials', icon: Box },
-    ...(user?.role === 'admin' ? [{ id: 'users', label: 'Users', icon: Users }] : []),
+    { to: '/', label: 'Dashboard', icon: LayoutDashboard },
+    { to: '/orders', label: 'Orders', icon: ShoppingCart },
+    ...(can('customers', 'read') ? [{ to: '/customers', label: 'Customers', icon: Contact }] : []),
+    { to: '/products', label: 'Products', icon: Package },
+    { to: '/materials', label: 'Materials', icon: Box },
+    ...(can('purchaseOrders', 'read') ? [{ to: '/purchasing', label: 'Purchasing', icon: ClipboardList }] : []),
+    ...(can('suppliers', 'read') ? [{ to: '/suppliers', label: 'Suppliers', icon: Truck }] : []),
+    ...(can('users', 'read') ? [{ to: '/users', label: 'Users', icon: Users }] : []),
+    ...(can('audit', 'read') ? [{ to: '/audit', label: 'Audit Log', icon: ScrollText }] : []),
   ];
 
   return (
@@ -45,18 +56,21 @@ export const Layout = ({ children, currentPage, onNavigate, onLogout }: LayoutPr
           {navigation.map((item) => {
             const Icon = item.icon;
             return (
-              <button
-                key={item.id}
-                onClick={() => onNavigate(item.id)}
-                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
-                  currentPage === item.id
-                    ? 'bg-sidebar-accent text-sidebar-accent-foreground'
-                    : 'text-sidebar-foreground hover:bg-sidebar-accent/50'
-                }`}
+              <NavLink
+                key={item.to}
+                to={item.to}
+                end={item.to === '/'}
+                className={({ isActive }) =>
+                  `w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                    isActive
+                      ? 'bg-sidebar-accent text-sidebar-accent-foreground'
+                      : 'text-sidebar-foreground hover:bg-sidebar-accent/50'
+                  }`
+                }
               >
                 <Icon className="h-5 w-5" />
                 <span className="font-medium">{item.label}</span>
-              </button>
+              </NavLink>
             );
           })}
         </nav>
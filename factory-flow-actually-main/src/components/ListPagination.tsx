@@ -0,0 +1,79 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface ListPaginationProps {
+  page: number;
+  limit: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers to show: the first, the last and two either side of the current page.
+const visiblePages = (page: number, pageCount: number) => {
+  const pages: (number | 'gap')[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 2) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap');
+    }
+  }
+  return pages;
+};
+
+export const ListPagination = ({ page, limit, total, onPageChange }: ListPaginationProps) => {
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const first = total === 0 ? 0 : (page - 1) * limit + 1;
+  const last = Math.min(page * limit, total);
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <div className="flex items-center justify-between mt-6">
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {first}–{last} of {total}
+      </p>
+      {pageCount > 1 && (
+        <Pagination className="justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={goTo(page - 1)}
+                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+            {visiblePages(page, pageCount).map((p, index) => (
+              <PaginationItem key={p === 'gap' ? `gap-${index}` : p}>
+                {p === 'gap' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                    {p}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={goTo(page + 1)}
+                className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { getUsers, setCurrentUser } from '@/lib/storage';
+import { login } from '@/lib/storage';
 import { Package } from 'lucide-react';
 
 interface LoginPageProps {
@@ -20,23 +20,12 @@ export const LoginPage = ({ onLogin }: LoginPageProps) => {
     e.preventDefault();
 
     try {
-      const users = await getUsers();
-      const user = users.find(u => u.email === email && u.password === password);
-
-      if (user) {
-        setCurrentUser(user);
-        toast({
-          title: 'Login successful',
-          description: `Welcome back, ${user.name}!`,
-        });
-        onLogin();
-      } else {
-        toast({
-          title: 'Login failed',
-          description: 'Invalid email or password',
-          variant: 'destructive',
-        });
-      }
+      const { user } = await login(email, password);
+      toast({
+        title: 'Login successful',
+        description: `Welcome back, ${user.name}!`,
+      });
+      onLogin();
     } catch (error) {
       toast({
         title: 'Login failed',
@@ -88,11 +77,6 @@ export const LoginPage = ({ onLogin }: LoginPageProps) => {
               Sign In
             </Button>
           </form>
-          <div className="mt-4 p-3 bg-muted rounded-md text-sm">
-            <p className="font-medium mb-1">Default Admin Credentials:</p>
-            <p className="text-muted-foreground">Email: admin@company.com</p>
-            <p className="text-muted-foreground">Password: admin123</p>
-          </div>
         </CardContent>
       </Card>
     </div>
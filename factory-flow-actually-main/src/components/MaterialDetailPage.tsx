@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { isBelowReorderLevel, reorderLevel } from '@shared/reorder.js';
+import { useMaterial, useProducts, useQueryErrorToast } from '@/lib/queries';
+import { DetailPage } from '@/components/DetailPage';
+import { StockMovementsDialog } from '@/components/StockMovementsDialog';
+import { MaterialPricesDialog } from '@/components/MaterialPricesDialog';
+import { History, TrendingUp } from 'lucide-react';
+
+export const MaterialDetailPage = () => {
+  const { id } = useParams();
+  const { record: material, missing } = useMaterial(id);
+  const productsQuery = useProducts({ includeArchived: true });
+  const products = productsQuery.data ?? [];
+  useQueryErrorToast(productsQuery.error, 'Unable to load products');
+  // The dialogs show the cached material, so a recorded movement or price shows up in them too.
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [pricesOpen, setPricesOpen] = useState(false);
+
+  // Only direct use; products that reach it through a sub-assembly are listed on that sub-assembly.
+  const usedIn = material ? products.filter(p => p.materials.some(pm => pm.materialId === material.id)) : [];
+
+  return (
+    <DetailPage
+      backTo="/materials"
+      backLabel="Materials"
+      missing={missing}
+      title={material?.name}
+      subtitle={material?.archivedAt && `Archived ${new Date(material.archivedAt).toLocaleDateString()}`}
+      actions={
+        material && (
+          <>
+            <Button variant="outline" onClick={() => setPricesOpen(true)}>
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Price history
+            </Button>
+            <Button variant="outline" onClick={() => setHistoryOpen(true)}>
+              <History className="h-4 w-4 mr-2" />
+              Stock history
+            </Button>
+          </>
+        )
+      }
+    >
+      {material && (
+        <>
+          <div className="grid md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Stock</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Cost per {material.unit}:</span>
+                  <span className="font-medium">€{material.cost.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Stock:</span>
+                  <span className={`font-medium ${isBelowReorderLevel(material) ? 'text-destructive' : ''}`}>
+                    {material.stock} {material.unit}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground pt-2">
+                  Added: {new Date(material.createdAt).toLocaleDateString()}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Reorder settings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {reorderLevel(material) === undefined ? (
+                  <p className="text-muted-foreground">No reorder point is set.</p>
+                ) : (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Reorder at:</span>
+                      <span>{reorderLevel(material)} {material.unit}</span>
+                    </div>
+                    {material.reorderQuantity !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Reorder quantity:</span>
+                        <span>{material.reorderQuantity} {material.unit}</span>
+                      </div>
+                    )}
+                    {material.leadTimeDays !== undefined && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Lead time:</span>
+                        <span>{material.leadTimeDays} days</span>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Used in</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {usedIn.map((product) => (
+                <div key={product.id}>
+                  <Link to={`/products/${product.id}`} className="underline">{product.name}</Link>
+                </div>
+              ))}
+              {usedIn.length === 0 && <p className="text-muted-foreground">No product uses this material.</p>}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <StockMovementsDialog material={historyOpen ? material : null} onOpenChange={setHistoryOpen} />
+
+      <MaterialPricesDialog material={pricesOpen ? material : null} onOpenChange={setPricesOpen} />
+    </DetailPage>
+  );
+};
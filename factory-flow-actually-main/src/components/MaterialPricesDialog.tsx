@@ -0,0 +1,190 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Material, MaterialPrice } from '@/lib/storage';
+import { useMaterialPrices, useQueryErrorToast, useRecordMaterialPrice } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField } from '@/lib/forms';
+import { materialPriceSchema } from '@shared/schemas.js';
+
+const chartConfig = {
+  cost: { label: 'Cost', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// A stand-in while the history loads, kept stable so that the chart is not recomputed.
+const noPrices: MaterialPrice[] = [];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface PriceFormValues {
+  cost?: number;
+  effectiveFrom: string;
+  supplier: string;
+}
+
+const emptyForm = (): PriceFormValues => ({ cost: undefined, effectiveFrom: today(), supplier: '' });
+
+interface MaterialPricesDialogProps {
+  material: Material | null;
+  onOpenChange: (open: boolean) => void;
+  /** For callers that hold their own copy of the material; the cache is updated either way. */
+  onMaterialChange?: (material: Material) => void;
+}
+
+export const MaterialPricesDialog = ({ material, onOpenChange, onMaterialChange }: MaterialPricesDialogProps) => {
+  const form = useForm<PriceFormValues>({
+    resolver: zodResolver(materialPriceSchema),
+    defaultValues: emptyForm(),
+  });
+  const { toast } = useToast();
+  const recordPrice = useRecordMaterialPrice();
+  // Archived materials are read-only; their history can still be viewed.
+  const canRecord = can('materials', 'update') && !material?.archivedAt;
+  const pricesQuery = useMaterialPrices(material?.id);
+  const prices = pricesQuery.data ?? noPrices;
+  useQueryErrorToast(pricesQuery.error, 'Unable to load price history');
+
+  // Prices arrive newest first; the chart reads left to right.
+  const chartData = useMemo(
+    () =>
+      [...prices].reverse().map((price) => ({
+        date: new Date(price.effectiveFrom).toLocaleDateString(),
+        cost: price.cost,
+      })),
+    [prices]
+  );
+
+  // The resolver has already turned the effective date into a UTC timestamp.
+  const handleSubmit = async ({ cost, effectiveFrom, supplier }: PriceFormValues) => {
+    if (!material || cost === undefined) return;
+
+    try {
+      const saved = await recordPrice.mutateAsync({
+        materialId: material.id,
+        cost,
+        effectiveFrom,
+        supplier: supplier || undefined,
+      });
+      onMaterialChange?.(saved);
+      form.reset(emptyForm());
+      toast({
+        title: 'Price recorded',
+        description: `${saved.name} currently costs €${saved.cost.toFixed(2)} per ${saved.unit}.`,
+      });
+    } catch (error) {
+      applyServerIssues(error, form.setError);
+      toast({
+        title: 'Unable to record price',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!material} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price history: {material?.name}</DialogTitle>
+        </DialogHeader>
+
+        {chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `€${value}`} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="cost" type="stepAfter" stroke="var(--color-cost)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {canRecord && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-4 gap-2 items-start">
+              <FormField
+                control={form.control}
+                name="cost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost per {material?.unit} (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...numberField(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effectiveFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective from</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="supplier"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="mt-8">Record</Button>
+            </form>
+          </Form>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Effective from</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Note</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {prices.map((price) => (
+              <TableRow key={price.id}>
+                <TableCell>{new Date(price.effectiveFrom).toLocaleDateString()}</TableCell>
+                <TableCell className="text-right font-medium">€{price.cost.toFixed(2)}</TableCell>
+                <TableCell>{price.supplier ?? '—'}</TableCell>
+                <TableCell>{price.userName ?? '—'}</TableCell>
+                <TableCell className="text-muted-foreground">{price.note ?? ''}</TableCell>
+              </TableRow>
+            ))}
+            {prices.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  No prices recorded yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,57 @@
+import { useMemo } from 'react';
+import { calculateMaterialRequirements } from '@shared/requirements.js';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Material, MaterialRequirement, Order, Product } from '@/lib/storage';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface MaterialRequirementsPanelProps {
+  lines: Order['products'];
+  products: Product[];
+  materials: Material[];
+}
+
+export const MaterialRequirementsPanel = ({ lines, products, materials }: MaterialRequirementsPanelProps) => {
+  const requirements: MaterialRequirement[] = useMemo(
+    () => calculateMaterialRequirements(lines, products, materials),
+    [lines, products, materials]
+  );
+
+  if (requirements.length === 0) return null;
+
+  const hasShortage = requirements.some(r => r.shortfall > 0);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        {hasShortage ? (
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+        ) : (
+          <CheckCircle2 className="h-4 w-4 text-green-700" />
+        )}
+        {hasShortage ? 'Not enough stock for this order' : 'Stock covers this order'}
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Material</TableHead>
+            <TableHead className="text-right">Needed</TableHead>
+            <TableHead className="text-right">On hand</TableHead>
+            <TableHead className="text-right">Shortfall</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requirements.map((requirement) => (
+            <TableRow key={requirement.materialId}>
+              <TableCell>{requirement.name}</TableCell>
+              <TableCell className="text-right">{requirement.required} {requirement.unit}</TableCell>
+              <TableCell className="text-right">{requirement.onHand} {requirement.unit}</TableCell>
+              <TableCell className={`text-right font-medium ${requirement.shortfall > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {requirement.shortfall > 0 ? `${requirement.shortfall} ${requirement.unit}` : '—'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
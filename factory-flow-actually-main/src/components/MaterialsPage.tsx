@@ -1,101 +1,156 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { createMaterial, deleteMaterial, getMaterials, Material, updateMaterial, exportToCSV } from '@/lib/storage';
-import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileDown } from 'lucide-react';
+import { Material, PAGE_SIZE } from '@/lib/storage';
+import { useArchiveMaterial, useCreateMaterial, useDeleteMaterial, useMaterialList, useQueryErrorToast, useRestoreMaterial, useUnits, useUpdateMaterial } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField, staleRecord } from '@/lib/forms';
+import { materialSchema, newMaterialSchema } from '@shared/schemas.js';
+import { isBelowReorderLevel, reorderLevel } from '@shared/reorder.js';
+import { UNIT_DIMENSIONS } from '@shared/units.js';
+import { StockMovementsDialog } from '@/components/StockMovementsDialog';
+import { MaterialPricesDialog } from '@/components/MaterialPricesDialog';
+import { UnitsDialog } from '@/components/UnitsDialog';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ImportDialog } from '@/components/ImportDialog';
+import { RecentChangeBadge } from '@/components/RecentChangeBadge';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { useRecentChanges } from '@/hooks/use-live-updates';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileUp, History, TrendingUp, Archive, ArchiveRestore, Ruler } from 'lucide-react';
+
+const reorderFields = { reorderPoint: true, reorderQuantity: true, safetyStock: true, leadTimeDays: true } as const;
+const newMaterialForm = newMaterialSchema.pick({ name: true, unit: true, cost: true, stock: true, ...reorderFields });
+const editMaterialForm = materialSchema.pick({ name: true, unit: true, ...reorderFields });
+
+type MaterialFormValues = Pick<
+  Material,
+  'name' | 'unit' | 'cost' | 'stock' | 'reorderPoint' | 'reorderQuantity' | 'safetyStock' | 'leadTimeDays'
+>;
+
+const emptyForm = {
+  name: '',
+  unit: '',
+  cost: undefined,
+  stock: undefined,
+  reorderPoint: undefined,
+  reorderQuantity: undefined,
+  safetyStock: undefined,
+  leadTimeDays: undefined,
+};
+
+const reorderSettings: { name: keyof typeof reorderFields; label: string; step: string }[] = [
+  { name: 'reorderPoint', label: 'Reorder Point', step: '0.01' },
+  { name: 'reorderQuantity', label: 'Reorder Quantity', step: '0.01' },
+  { name: 'safetyStock', label: 'Safety Stock', step: '0.01' },
+  { name: 'leadTimeDays', label: 'Lead Time (days)', step: '1' },
+];
 
 export const MaterialsPage = () => {
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'name' | 'cost' | 'date'>('date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'name' | 'cost' | 'date'>('sort', 'date', ['name', 'cost', 'date']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'desc', ['asc', 'desc']);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
+  const [conflict, setConflict] = useState<Material | null>(null);
+  const [historyMaterial, setHistoryMaterial] = useState<Material | null>(null);
+  const [pricesMaterial, setPricesMaterial] = useState<Material | null>(null);
+  const [isUnitsOpen, setIsUnitsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
+  const createMaterial = useCreateMaterial();
+  const updateMaterial = useUpdateMaterial();
+  const archiveMaterial = useArchiveMaterial();
+  const restoreMaterial = useRestoreMaterial();
+  const deleteMaterial = useDeleteMaterial();
+  const canCreate = can('materials', 'create');
+  const canUpdate = can('materials', 'update');
+  const canDelete = can('materials', 'delete');
 
-  const [formData, setFormData] = useState({
-    name: '',
-    cost: '',
-    unit: '',
-    stock: '',
+  const form = useForm<MaterialFormValues>({
+    resolver: zodResolver(editingMaterial ? editMaterialForm : newMaterialForm),
+    defaultValues: emptyForm,
   });
 
-  useEffect(() => {
-    const loadMaterials = async () => {
-      try {
-        const data = await getMaterials();
-        setMaterials(data);
-      } catch (error) {
-        toast({
-          title: 'Unable to load materials',
-          description: error instanceof Error ? error.message : 'Server error',
-          variant: 'destructive',
-        });
-      }
-    };
-
-    loadMaterials();
-  }, [toast]);
-
-  const filteredAndSortedMaterials = useMemo(() => {
-    let filtered = materials.filter(material =>
-      material.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, view]
+  );
 
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      if (sortBy === 'name') {
-        comparison = a.name.localeCompare(b.name);
-      } else if (sortBy === 'cost') {
-        comparison = a.cost - b.cost;
-      } else {
-        comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      }
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
+  const unitsQuery = useUnits();
+  const units = unitsQuery.data ?? [];
+  useQueryErrorToast(unitsQuery.error, 'Unable to load units');
 
-    return filtered;
-  }, [materials, searchQuery, sortBy, sortOrder]);
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const materialsQuery = useMaterialList({ ...filters, page, limit: PAGE_SIZE });
+  const materials = materialsQuery.data?.items ?? [];
+  const total = materialsQuery.data?.total ?? 0;
+  useQueryErrorToast(materialsQuery.error, 'Unable to load materials');
+  const recentChanges = useRecentChanges();
 
+  const handleSubmit = async (values: MaterialFormValues) => {
     const materialData: Material = editingMaterial
-      ? { ...editingMaterial, ...formData, cost: parseFloat(formData.cost), stock: parseFloat(formData.stock) }
+      ? {
+          ...editingMaterial,
+          name: values.name,
+          unit: values.unit,
+          reorderPoint: values.reorderPoint,
+          reorderQuantity: values.reorderQuantity,
+          safetyStock: values.safetyStock,
+          leadTimeDays: values.leadTimeDays,
+        }
       : {
           id: crypto.randomUUID(),
-          name: formData.name,
-          cost: parseFloat(formData.cost),
-          unit: formData.unit,
-          stock: parseFloat(formData.stock),
+          ...values,
           createdAt: new Date().toISOString(),
         };
 
     try {
       if (editingMaterial) {
-        const saved = await updateMaterial(materialData);
-        setMaterials(materials.map(m => (m.id === saved.id ? saved : m)));
+        const saved = await updateMaterial.mutateAsync(materialData);
         toast({
           title: 'Material updated',
           description: `${saved.name} has been updated successfully.`,
         });
       } else {
-        const saved = await createMaterial(materialData);
-        setMaterials([...materials, saved]);
+        const saved = await createMaterial.mutateAsync(materialData);
         toast({
           title: 'Material created',
           description: `${saved.name} has been added successfully.`,
         });
       }
 
-      setFormData({ name: '', cost: '', unit: '', stock: '' });
+      form.reset(emptyForm);
       setEditingMaterial(null);
       setIsDialogOpen(false);
     } catch (error) {
+      const current = staleRecord<Material>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
       toast({
         title: 'Unable to save material',
         description: error instanceof Error ? error.message : 'Server error',
@@ -104,11 +159,36 @@ export const MaterialsPage = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleArchive = async (material: Material) => {
     try {
-      await deleteMaterial(id);
-      setMaterials(materials.filter(m => m.id !== id));
-      toast({ title: 'Material deleted', description: 'Material has been removed successfully.' });
+      await archiveMaterial.mutateAsync(material.id);
+      toast({ title: 'Material archived', description: `${material.name} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive material',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (material: Material) => {
+    try {
+      await restoreMaterial.mutateAsync(material.id);
+      toast({ title: 'Material restored', description: `${material.name} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore material',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (material: Material) => {
+    try {
+      await deleteMaterial.mutateAsync(material.id);
+      toast({ title: 'Material deleted', description: `${material.name} has been deleted permanently.` });
     } catch (error) {
       toast({
         title: 'Unable to delete material',
@@ -120,27 +200,19 @@ export const MaterialsPage = () => {
 
   const handleEdit = (material: Material) => {
     setEditingMaterial(material);
-    setFormData({
+    form.reset({
       name: material.name,
-      cost: material.cost.toString(),
       unit: material.unit,
-      stock: material.stock.toString(),
+      cost: material.cost,
+      stock: material.stock,
+      reorderPoint: material.reorderPoint,
+      reorderQuantity: material.reorderQuantity,
+      safetyStock: material.safetyStock,
+      leadTimeDays: material.leadTimeDays,
     });
     setIsDialogOpen(true);
   };
 
-  const handleExport = () => {
-    const exportData = materials.map(m => ({
-      Name: m.name,
-      Cost: m.cost,
-      Unit: m.unit,
-      Stock: m.stock,
-      'Created Date': new Date(m.createdAt).toLocaleDateString(),
-    }));
-    exportToCSV(exportData, 'materials');
-    toast({ title: 'Export successful', description: 'Materials data has been exported to CSV.' });
-  };
-
   return (
     <div className="p-8">
       <div className="flex justify-between items-center mb-8">
@@ -149,83 +221,176 @@ export const MaterialsPage = () => {
           <p className="text-muted-foreground">Manage your manufacturing materials inventory</p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={handleExport} variant="outline">
-            <FileDown className="h-4 w-4 mr-2" />
-            Export CSV
+          <Button onClick={() => setIsUnitsOpen(true)} variant="outline">
+            <Ruler className="h-4 w-4 mr-2" />
+            Units
           </Button>
+          <ExportMenu entity="materials" query={filters} />
+          {canCreate && (
+            <Button onClick={() => setIsImportOpen(true)} variant="outline">
+              <FileUp className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+          )}
           <Dialog open={isDialogOpen} onOpenChange={(open) => {
             setIsDialogOpen(open);
             if (!open) {
               setEditingMaterial(null);
-              setFormData({ name: '', cost: '', unit: '', stock: '' });
+              form.reset(emptyForm);
             }
           }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Material
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
+            {canCreate && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Material
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingMaterial ? 'Edit Material' : 'Add New Material'}</DialogTitle>
               </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Material Name</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., Cotton Fabric"
-                    required
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Material Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Cotton Fabric" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="cost">Cost per Unit (€)</Label>
-                    <Input
-                      id="cost"
-                      type="number"
-                      step="0.01"
-                      value={formData.cost}
-                      onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
-                      placeholder="0.00"
-                      required
+                  <div className="grid grid-cols-2 gap-4">
+                    {!editingMaterial && (
+                      <FormField
+                        control={form.control}
+                        name="cost"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cost per Unit (€)</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="0.01" placeholder="0.00" {...numberField(field)} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="unit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select unit" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {UNIT_DIMENSIONS.map((dimension) => (
+                                <SelectGroup key={dimension}>
+                                  <SelectLabel className="capitalize">{dimension}</SelectLabel>
+                                  {units
+                                    .filter((unit) => unit.dimension === dimension)
+                                    .map((unit) => (
+                                      <SelectItem key={unit.code} value={unit.code}>
+                                        {unit.name} ({unit.code})
+                                      </SelectItem>
+                                    ))}
+                                </SelectGroup>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="unit">Unit</Label>
-                    <Input
-                      id="unit"
-                      value={formData.unit}
-                      onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
-                      placeholder="e.g., meters"
-                      required
+                  {editingMaterial ? (
+                    <p className="text-sm text-muted-foreground">
+                      Stock ({editingMaterial.stock} {editingMaterial.unit}) is changed by recording stock movements in the material's history,
+                      and cost (€{editingMaterial.cost.toFixed(2)}) by recording a new price in its price history.
+                    </p>
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name="stock"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Opening Stock</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" placeholder="0" {...numberField(field)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Reordering</p>
+                    <p className="text-xs text-muted-foreground">
+                      Optional. The material is flagged as low on stock at its reorder point, or at its safety stock when no point is set.
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      {reorderSettings.map((setting) => (
+                        <FormField
+                          key={setting.name}
+                          control={form.control}
+                          name={setting.name}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{setting.label}</FormLabel>
+                              <FormControl>
+                                <Input type="number" step={setting.step} placeholder="—" {...numberField(field)} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="stock">Stock Quantity</Label>
-                  <Input
-                    id="stock"
-                    type="number"
-                    step="0.01"
-                    value={formData.stock}
-                    onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                    placeholder="0"
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full">
-                  {editingMaterial ? 'Update Material' : 'Add Material'}
-                </Button>
-              </form>
+                  <Button type="submit" className="w-full">
+                    {editingMaterial ? 'Update Material' : 'Add Material'}
+                  </Button>
+                </form>
+              </Form>
             </DialogContent>
           </Dialog>
+          <ConflictDialog
+            current={conflict}
+            base={editingMaterial}
+            labels={{
+              name: 'the name',
+              unit: 'the unit',
+              reorderPoint: 'the reorder point',
+              reorderQuantity: 'the reorder quantity',
+              safetyStock: 'the safety stock',
+              leadTimeDays: 'the lead time',
+              archivedAt: 'its archive state',
+            }}
+            onReload={handleEdit}
+            onKeepMine={(current) => setEditingMaterial({ ...editingMaterial, version: current.version })}
+            onClose={() => setConflict(null)}
+          />
         </div>
       </div>
 
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="flex gap-4">
@@ -260,26 +425,70 @@ export const MaterialsPage = () => {
       </Card>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredAndSortedMaterials.map((material) => (
-          <Card key={material.id}>
+        {materials.map((material) => (
+          <Card key={material.id} className={recentChanges.has(material.id) ? 'ring-2 ring-primary/30' : undefined}>
             <CardHeader>
               <CardTitle className="flex justify-between items-start">
-                <span>{material.name}</span>
+                <div>
+                  <Link to={`/materials/${material.id}`} className="hover:underline">{material.name}</Link>
+                  <RecentChangeBadge change={recentChanges.get(material.id)} />
+                </div>
                 <div className="flex gap-1">
                   <Button
                     size="sm"
                     variant="ghost"
-                    onClick={() => handleEdit(material)}
+                    title="Price history"
+                    onClick={() => setPricesMaterial(material)}
                   >
-                    <Pencil className="h-4 w-4" />
+                    <TrendingUp className="h-4 w-4" />
                   </Button>
                   <Button
                     size="sm"
                     variant="ghost"
-                    onClick={() => handleDelete(material.id)}
+                    title="Stock history"
+                    onClick={() => setHistoryMaterial(material)}
                   >
-                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <History className="h-4 w-4" />
                   </Button>
+                  {canUpdate && !material.archivedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(material)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && !material.archivedAt && (
+                    <ConfirmDialog
+                      title={`Archive ${material.name}?`}
+                      description="It will be hidden from lists and pickers. Products and orders that use it are not affected, and it can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(material)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {canDelete && material.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(material)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete ${material.name} permanently?`}
+                        description="Its stock and price history are deleted with it. Products and orders that still use it prevent the deletion. This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(material)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
                 </div>
               </CardTitle>
             </CardHeader>
@@ -291,12 +500,22 @@ export const MaterialsPage = () => {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Stock:</span>
-                  <span className={`font-medium ${material.stock < 100 ? 'text-destructive' : ''}`}>
+                  <span className={`font-medium ${isBelowReorderLevel(material) ? 'text-destructive' : ''}`}>
                     {material.stock} {material.unit}
                   </span>
                 </div>
+                {reorderLevel(material) !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Reorder at:</span>
+                    <span className="text-sm">
+                      {reorderLevel(material)} {material.unit}
+                      {material.leadTimeDays !== undefined && <> · {material.leadTimeDays} days lead time</>}
+                    </span>
+                  </div>
+                )}
                 <div className="text-xs text-muted-foreground pt-2">
                   Added: {new Date(material.createdAt).toLocaleDateString()}
+                  {material.archivedAt && <> · Archived: {new Date(material.archivedAt).toLocaleDateString()}</>}
                 </div>
               </div>
             </CardContent>
@@ -304,12 +523,39 @@ export const MaterialsPage = () => {
         ))}
       </div>
 
-      {filteredAndSortedMaterials.length === 0 && (
+      <StockMovementsDialog
+        material={historyMaterial}
+        onOpenChange={(open) => !open && setHistoryMaterial(null)}
+        onMaterialChange={(saved) => {
+          setHistoryMaterial(saved);
+        }}
+      />
+
+      <ImportDialog entity="materials" open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      <UnitsDialog
+        open={isUnitsOpen}
+        units={units}
+        onOpenChange={setIsUnitsOpen}
+        onUnitCreated={() => unitsQuery.refetch()}
+      />
+
+      <MaterialPricesDialog
+        material={pricesMaterial}
+        onOpenChange={(open) => !open && setPricesMaterial(null)}
+        onMaterialChange={(saved) => {
+          setPricesMaterial(saved);
+        }}
+      />
+
+      {materials.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center text-muted-foreground">
-            No materials found. Add your first material to get started.
+            {view === 'archived' ? 'No archived materials.' : 'No materials found. Add your first material to get started.'}
           </CardContent>
         </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
       )}
     </div>
   );
@@ -0,0 +1,147 @@
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatDay } from '@/lib/utils';
+import { Material, Product } from '@/lib/storage';
+import { useCustomer, useMaterials, useOrder, useProducts, useQueryErrorToast } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { INITIAL_ORDER_STATUSES } from '@shared/orderStatus.js';
+import { orderStatusLabels, orderStatusStyles } from '@/lib/orderStatus';
+import { DetailPage } from '@/components/DetailPage';
+import { MaterialRequirementsPanel } from '@/components/MaterialRequirementsPanel';
+import { OrderTimeline } from '@/components/OrderTimeline';
+import { Lock } from 'lucide-react';
+
+// Stand-ins while a query loads, kept stable so that the requirements panel is not recomputed.
+const noProducts: Product[] = [];
+const noMaterials: Material[] = [];
+
+export const OrderDetailPage = () => {
+  const { id } = useParams();
+  const { record: order, missing } = useOrder(id);
+  // Archived records are included, since the order may still refer to them.
+  const productsQuery = useProducts({ includeArchived: true });
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const products = productsQuery.data ?? noProducts;
+  const materials = materialsQuery.data ?? noMaterials;
+  useQueryErrorToast(productsQuery.error ?? materialsQuery.error, 'Unable to load products');
+  const customerId = order?.customerId;
+  // The customer's name is a nicety; without it the link still works.
+  const { record: customer } = useCustomer(can('customers', 'read') ? customerId : undefined);
+
+  return (
+    <DetailPage
+      backTo="/orders"
+      backLabel="Orders"
+      missing={missing}
+      title={order?.orderNumber}
+      subtitle={
+        order && (
+          <span className={`text-xs px-2 py-1 rounded-full ${orderStatusStyles[order.status]}`}>
+            {orderStatusLabels[order.status]}
+          </span>
+        )
+      }
+    >
+      {order && (
+        <>
+          <div className="grid md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {customerId && (
+                  <div>
+                    <span className="text-muted-foreground">Customer:</span>{' '}
+                    <Link to={`/customers/${customerId}`} className="underline">{customer?.name ?? 'View customer'}</Link>
+                  </div>
+                )}
+                <div><span className="text-muted-foreground">Created:</span> {new Date(order.createdAt).toLocaleDateString()}</div>
+                {order.deliveryDate && <div><span className="text-muted-foreground">Requested delivery:</span> {formatDay(order.deliveryDate)}</div>}
+                {order.completedAt && <div><span className="text-muted-foreground">Completed:</span> {new Date(order.completedAt).toLocaleDateString()}</div>}
+                {order.archivedAt && <div><span className="text-muted-foreground">Archived:</span> {new Date(order.archivedAt).toLocaleDateString()}</div>}
+                {order.notes && <p className="pt-2 text-muted-foreground whitespace-pre-line">{order.notes}</p>}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Cost</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Total Cost:</span>
+                  <span className="font-bold text-lg">€{order.totalCost.toFixed(2)}</span>
+                </div>
+                {order.pricedAt && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Lock className="h-3 w-3" />
+                    Prices locked on {new Date(order.pricedAt).toLocaleDateString()}
+                  </div>
+                )}
+                {order.leftovers.length > 0 && (
+                  <div className="pt-2">
+                    <p className="text-xs font-medium">Leftovers:</p>
+                    {order.leftovers.map((lo) => {
+                      const material = materials.find(m => m.id === lo.materialId);
+                      return material ? (
+                        <div key={lo.materialId} className="text-xs text-muted-foreground">
+                          <Link to={`/materials/${material.id}`} className="underline">{material.name}</Link>: {lo.quantity} {material.unit}
+                        </div>
+                      ) : null;
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Products</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {order.products.map((line) => (
+                    <TableRow key={line.productId}>
+                      <TableCell>
+                        <Link to={`/products/${line.productId}`} className="font-medium underline">
+                          {products.find(p => p.id === line.productId)?.name ?? line.productId}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right">{line.unitCost !== undefined ? `€${line.unitCost.toFixed(2)}` : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {/* Stock is consumed once production starts; until then show whether it would suffice. */}
+              {INITIAL_ORDER_STATUSES.includes(order.status) && (
+                <div className="mt-4">
+                  <MaterialRequirementsPanel lines={order.products} products={products} materials={materials} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Status timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline orderId={order.id} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </DetailPage>
+  );
+};
@@ -0,0 +1,37 @@
+import { useOrderHistory, useQueryErrorToast } from '@/lib/queries';
+import { orderStatusLabels } from '@/lib/orderStatus';
+
+interface OrderTimelineProps {
+  orderId: string;
+}
+
+// Refetched along with the order, so a new transition shows up.
+export const OrderTimeline = ({ orderId }: OrderTimelineProps) => {
+  const historyQuery = useOrderHistory(orderId);
+  const history = historyQuery.data ?? [];
+  useQueryErrorToast(historyQuery.error, 'Unable to load order history');
+
+  if (history.length === 0) {
+    return <p className="text-xs text-muted-foreground">No status changes recorded.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-1 space-y-3">
+      {history.map((change) => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="text-sm font-medium">
+            {change.fromStatus
+              ? `${orderStatusLabels[change.fromStatus]} → ${orderStatusLabels[change.toStatus]}`
+              : `Created as ${orderStatusLabels[change.toStatus]}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(change.createdAt).toLocaleString()}
+            {change.userName && ` · ${change.userName}`}
+          </p>
+          {change.note && <p className="text-xs text-muted-foreground italic">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
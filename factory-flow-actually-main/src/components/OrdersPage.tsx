@@ -1,128 +1,160 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
-import { createOrder, deleteOrder, getOrders, getProducts, getMaterials, Material, Order, Product, updateOrder, exportToCSV, calculateOrderCost } from '@/lib/storage';
-import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileDown } from 'lucide-react';
+import { formatDay } from '@/lib/utils';
+import { PAGE_SIZE, Material, Order, OrderStatus, Product, calculateOrderCost } from '@/lib/storage';
+import { useArchiveOrder, useCreateOrder, useCustomers, useDeleteOrder, useMaterials, useOrderList, useProducts, useQueryErrorToast, useRestoreOrder, useTransitionOrder, useUpdateOrder } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField, staleRecord } from '@/lib/forms';
+import { newOrderSchema, orderSchema } from '@shared/schemas.js';
+import { ORDER_STATUSES } from '@shared/orderStatus.js';
+import { nextOrderStatuses, orderStatusLabels, orderStatusStyles } from '@/lib/orderStatus';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { useRecentChanges } from '@/hooks/use-live-updates';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ImportDialog } from '@/components/ImportDialog';
+import { RecentChangeBadge } from '@/components/RecentChangeBadge';
+import { OrderTimeline } from '@/components/OrderTimeline';
+import { MaterialRequirementsPanel } from '@/components/MaterialRequirementsPanel';
+import { RepriceOrderDialog } from '@/components/RepriceOrderDialog';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileUp, ChevronDown, History, Lock, RefreshCw, Archive, ArchiveRestore } from 'lucide-react';
+
+const orderFields = { orderNumber: true, products: true, leftovers: true, customerId: true, deliveryDate: true, notes: true } as const;
+const newOrderForm = newOrderSchema.pick({ ...orderFields, status: true });
+const editOrderForm = orderSchema.pick(orderFields);
+
+type OrderFormValues = Pick<Order, 'orderNumber' | 'products' | 'leftovers' | 'status' | 'customerId' | 'deliveryDate' | 'notes'>;
+
+const emptyForm: OrderFormValues = { orderNumber: '', products: [], leftovers: [], status: 'draft', customerId: '', deliveryDate: '', notes: '' };
+
+// Stand-ins while a query loads, kept stable so that the requirements panel is not recomputed.
+const noProducts: Product[] = [];
+const noMaterials: Material[] = [];
+
+// Select items cannot have an empty value, so "no customer" has its own.
+const NO_CUSTOMER = 'none';
 
 export const OrdersPage = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'number' | 'cost' | 'date'>('date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'number' | 'cost' | 'date'>('sort', 'date', ['number', 'cost', 'date']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'desc', ['asc', 'desc']);
+  const [statusFilter, setStatusFilter] = useQueryState<OrderStatus | 'all'>('status', 'all', ['all', ...ORDER_STATUSES]);
+  const [fromDate, setFromDate] = useQueryState('from', '');
+  const [toDate, setToDate] = useQueryState('to', '');
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [conflict, setConflict] = useState<Order | null>(null);
+  const [repricingOrder, setRepricingOrder] = useState<Order | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
+  const createOrder = useCreateOrder();
+  const updateOrder = useUpdateOrder();
+  const transitionOrder = useTransitionOrder();
+  const archiveOrder = useArchiveOrder();
+  const restoreOrder = useRestoreOrder();
+  const deleteOrder = useDeleteOrder();
+  const canCreate = can('orders', 'create');
+  const canUpdate = can('orders', 'update');
+  const canDelete = can('orders', 'delete');
 
-  const [formData, setFormData] = useState({
-    orderNumber: '',
-    products: [] as { productId: string; quantity: number }[],
-    status: 'pending' as 'pending' | 'in-progress' | 'completed',
-    leftovers: [] as { materialId: string; quantity: number }[],
+  const form = useForm<OrderFormValues>({
+    resolver: zodResolver(editingOrder ? editOrderForm : newOrderForm),
+    defaultValues: emptyForm,
   });
+  const orderLines = useFieldArray({ control: form.control, name: 'products' });
+  const leftoverLines = useFieldArray({ control: form.control, name: 'leftovers' });
+  const lines = form.watch('products');
+  // Errors about the product list as a whole, such as having no lines.
+  const linesError = form.formState.errors.products?.root?.message ?? form.formState.errors.products?.message;
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [orderData, productData, materialData] = await Promise.all([
-          getOrders(),
-          getProducts(),
-          getMaterials(),
-        ]);
-        setOrders(orderData);
-        setProducts(productData);
-        setMaterials(materialData);
-      } catch (error) {
-        toast({
-          title: 'Unable to load data',
-          description: error instanceof Error ? error.message : 'Server error',
-          variant: 'destructive',
-        });
-      }
-    };
-
-    loadData();
-  }, [toast]);
-
-  const filteredAndSortedOrders = useMemo(() => {
-    let filtered = orders.filter(order =>
-      order.orderNumber.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      if (sortBy === 'number') {
-        comparison = a.orderNumber.localeCompare(b.orderNumber);
-      } else if (sortBy === 'cost') {
-        comparison = a.totalCost - b.totalCost;
-      } else {
-        comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      }
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
+  // Archived products, materials and customers are still shown on the orders that use them.
+  const productsQuery = useProducts({ includeArchived: true });
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const customersQuery = useCustomers({ includeArchived: true });
+  const products = productsQuery.data ?? noProducts;
+  const materials = materialsQuery.data ?? noMaterials;
+  const customers = customersQuery.data ?? [];
+  useQueryErrorToast(productsQuery.error ?? materialsQuery.error ?? customersQuery.error, 'Unable to load data');
 
-    return filtered;
-  }, [orders, searchQuery, sortBy, sortOrder]);
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      status: statusFilter === 'all' ? undefined : [statusFilter],
+      from: fromDate,
+      to: toDate,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, statusFilter, fromDate, toDate, view]
+  );
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
 
-    if (formData.products.length === 0) {
-      toast({
-        title: 'Error',
-        description: 'Please add at least one product to the order.',
-        variant: 'destructive',
-      });
-      return;
-    }
+  const ordersQuery = useOrderList({ ...filters, page, limit: PAGE_SIZE });
+  const orders = ordersQuery.data?.items ?? [];
+  const total = ordersQuery.data?.total ?? 0;
+  useQueryErrorToast(ordersQuery.error, 'Unable to load orders');
+  const recentChanges = useRecentChanges();
 
-    const totalCost = calculateOrderCost({ products: formData.products }, products, materials);
+  const handleSubmit = async (values: OrderFormValues) => {
+    // The server prices the order; locked lines keep their snapshot, so this is only a draft estimate.
+    const totalCost = calculateOrderCost({ products: values.products }, products, materials);
 
     const orderData: Order = editingOrder
-      ? { 
-          ...editingOrder, 
-          ...formData,
-          totalCost,
-          completedAt: formData.status === 'completed' ? new Date().toISOString() : editingOrder.completedAt,
-        }
+      ? { ...editingOrder, ...values, status: editingOrder.status, totalCost }
       : {
           id: crypto.randomUUID(),
-          orderNumber: formData.orderNumber,
-          products: formData.products,
-          status: formData.status,
+          ...values,
           totalCost,
-          leftovers: formData.leftovers,
           createdAt: new Date().toISOString(),
-          completedAt: formData.status === 'completed' ? new Date().toISOString() : undefined,
         };
 
     try {
       if (editingOrder) {
-        const saved = await updateOrder(orderData);
-        setOrders(orders.map(o => (o.id === saved.id ? saved : o)));
+        const saved = await updateOrder.mutateAsync(orderData);
         toast({
           title: 'Order updated',
           description: `Order ${saved.orderNumber} has been updated successfully.`,
         });
       } else {
-        const saved = await createOrder(orderData);
-        setOrders([...orders, saved]);
+        const saved = await createOrder.mutateAsync(orderData);
         toast({
           title: 'Order created',
           description: `Order ${saved.orderNumber} has been created successfully.`,
         });
       }
 
-      setFormData({ orderNumber: '', products: [], status: 'pending', leftovers: [] });
+      form.reset(emptyForm);
       setEditingOrder(null);
       setIsDialogOpen(false);
     } catch (error) {
+      const current = staleRecord<Order>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
       toast({
         title: 'Unable to save order',
         description: error instanceof Error ? error.message : 'Server error',
@@ -131,11 +163,37 @@ export const OrdersPage = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleArchive = async (order: Order) => {
+    try {
+      await archiveOrder.mutateAsync(order.id);
+      toast({ title: 'Order archived', description: `Order ${order.orderNumber} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (order: Order) => {
+    try {
+      await restoreOrder.mutateAsync(order.id);
+      toast({ title: 'Order restored', description: `Order ${order.orderNumber} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (order: Order) => {
     try {
-      await deleteOrder(id);
-      setOrders(orders.filter(o => o.id !== id));
-      toast({ title: 'Order deleted', description: 'Order has been removed successfully.' });
+      // Deleting an order returns the stock it consumed; the materials are refetched with it.
+      await deleteOrder.mutateAsync(order.id);
+      toast({ title: 'Order deleted', description: `Order ${order.orderNumber} has been deleted permanently.` });
     } catch (error) {
       toast({
         title: 'Unable to delete order',
@@ -145,69 +203,47 @@ export const OrdersPage = () => {
     }
   };
 
+  const handleTransition = async (order: Order, status: OrderStatus) => {
+    try {
+      // Transitions move stock; the materials behind the requirements panel are refetched with it.
+      const saved = await transitionOrder.mutateAsync({ id: order.id, status, version: order.version });
+      toast({
+        title: 'Order status changed',
+        description: `Order ${saved.orderNumber} is now ${orderStatusLabels[saved.status].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to change status',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleEdit = (order: Order) => {
     setEditingOrder(order);
-    setFormData({
+    form.reset({
       orderNumber: order.orderNumber,
       products: order.products,
       status: order.status,
       leftovers: order.leftovers,
+      customerId: order.customerId ?? '',
+      deliveryDate: order.deliveryDate ?? '',
+      notes: order.notes ?? '',
     });
     setIsDialogOpen(true);
   };
 
-  const addProduct = () => {
-    setFormData({
-      ...formData,
-      products: [...formData.products, { productId: '', quantity: 0 }],
-    });
+  // A different product drops the locked cost of the one it replaces.
+  const changeLineProduct = (index: number, productId: string) => {
+    orderLines.update(index, { productId, quantity: form.getValues(`products.${index}.quantity`) });
   };
 
-  const removeProduct = (index: number) => {
-    setFormData({
-      ...formData,
-      products: formData.products.filter((_, i) => i !== index),
-    });
-  };
+  const handleRepriced = () => setRepricingOrder(null);
 
-  const updateProduct = (index: number, field: 'productId' | 'quantity', value: string | number) => {
-    const updated = [...formData.products];
-    updated[index] = { ...updated[index], [field]: value };
-    setFormData({ ...formData, products: updated });
-  };
-
-  const addLeftover = () => {
-    setFormData({
-      ...formData,
-      leftovers: [...formData.leftovers, { materialId: '', quantity: 0 }],
-    });
-  };
-
-  const removeLeftover = (index: number) => {
-    setFormData({
-      ...formData,
-      leftovers: formData.leftovers.filter((_, i) => i !== index),
-    });
-  };
-
-  const updateLeftover = (index: number, field: 'materialId' | 'quantity', value: string | number) => {
-    const updated = [...formData.leftovers];
-    updated[index] = { ...updated[index], [field]: value };
-    setFormData({ ...formData, leftovers: updated });
-  };
-
-  const handleExport = () => {
-    const exportData = orders.map(o => ({
-      'Order Number': o.orderNumber,
-      'Status': o.status,
-      'Total Cost': o.totalCost.toFixed(2),
-      'Product Count': o.products.length,
-      'Created Date': new Date(o.createdAt).toLocaleDateString(),
-      'Completed Date': o.completedAt ? new Date(o.completedAt).toLocaleDateString() : 'N/A',
-    }));
-    exportToCSV(exportData, 'orders');
-    toast({ title: 'Export successful', description: 'Orders data has been exported to CSV.' });
-  };
+  // Drafts are priced at current costs, so their totals follow material prices until they are locked.
+  const orderTotal = (order: Order) =>
+    order.pricedAt || materials.length === 0 ? order.totalCost : calculateOrderCost(order, products, materials);
 
   return (
     <div className="p-8">
@@ -217,163 +253,297 @@ export const OrdersPage = () => {
           <p className="text-muted-foreground">Manage manufacturing orders</p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={handleExport} variant="outline">
-            <FileDown className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          <ExportMenu entity="orders" query={filters} />
+          {canCreate && (
+            <Button onClick={() => setIsImportOpen(true)} variant="outline">
+              <FileUp className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+          )}
           <Dialog open={isDialogOpen} onOpenChange={(open) => {
             setIsDialogOpen(open);
             if (!open) {
               setEditingOrder(null);
-              setFormData({ orderNumber: '', products: [], status: 'pending', leftovers: [] });
+              form.reset(emptyForm);
             }
           }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Create Order
-              </Button>
-            </DialogTrigger>
+            {canCreate && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Order
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingOrder ? 'Edit Order' : 'Create New Order'}</DialogTitle>
               </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="orderNumber">Order Number</Label>
-                    <Input
-                      id="orderNumber"
-                      value={formData.orderNumber}
-                      onChange={(e) => setFormData({ ...formData, orderNumber: e.target.value })}
-                      placeholder="e.g., ORD-2024-001"
-                      required
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="orderNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Order Number</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., ORD-2024-001" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
+                    {!editingOrder && (
+                      <FormField
+                        control={form.control}
+                        name="status"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Initial Status</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="draft">Draft</SelectItem>
+                                <SelectItem value="pending">Pending</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="status">Status</Label>
-                    <Select
-                      value={formData.status}
-                      onValueChange={(value: any) => setFormData({ ...formData, status: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="in-progress">In Progress</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
 
-                <div className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <Label>Products</Label>
-                    <Button type="button" size="sm" onClick={addProduct}>
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Product
-                    </Button>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="customerId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Customer</FormLabel>
+                          <Select
+                            value={field.value || NO_CUSTOMER}
+                            onValueChange={(value) => field.onChange(value === NO_CUSTOMER ? '' : value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_CUSTOMER}>No customer</SelectItem>
+                              {customers
+                                .filter((customer) => !customer.archivedAt || customer.id === field.value)
+                                .map((customer) => (
+                                  <SelectItem key={customer.id} value={customer.id}>
+                                    {customer.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="deliveryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Requested Delivery</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
 
-                  {formData.products.map((prod, index) => (
-                    <div key={index} className="flex gap-2 items-end">
-                      <div className="flex-1">
-                        <Select
-                          value={prod.productId}
-                          onValueChange={(value) => updateProduct(index, 'productId', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select product" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {products.map((product) => (
-                              <SelectItem key={product.id} value={product.id}>
-                                {product.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="w-32">
-                        <Input
-                          type="number"
-                          placeholder="Quantity"
-                          value={prod.quantity}
-                          onChange={(e) => updateProduct(index, 'quantity', parseInt(e.target.value) || 0)}
-                        />
-                      </div>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => removeProduct(index)}
-                      >
-                        <Trash2 className="h-4 w-4" />
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <Label>Products</Label>
+                      <Button type="button" size="sm" onClick={() => orderLines.append({ productId: '', quantity: undefined })}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Product
                       </Button>
                     </div>
-                  ))}
-                </div>
 
-                <div className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <Label>Leftovers (Optional)</Label>
-                    <Button type="button" size="sm" onClick={addLeftover} variant="outline">
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Leftover
-                    </Button>
-                  </div>
-
-                  {formData.leftovers.map((leftover, index) => (
-                    <div key={index} className="flex gap-2 items-end">
-                      <div className="flex-1">
-                        <Select
-                          value={leftover.materialId}
-                          onValueChange={(value) => updateLeftover(index, 'materialId', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select material" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {materials.map((material) => (
-                              <SelectItem key={material.id} value={material.id}>
-                                {material.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="w-32">
-                        <Input
-                          type="number"
-                          step="0.01"
-                          placeholder="Quantity"
-                          value={leftover.quantity}
-                          onChange={(e) => updateLeftover(index, 'quantity', parseFloat(e.target.value) || 0)}
+                    {orderLines.fields.map((line, index) => (
+                      <div key={line.id} className="flex gap-2 items-start">
+                        <FormField
+                          control={form.control}
+                          name={`products.${index}.productId`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <Select value={field.value} onValueChange={(value) => changeLineProduct(index, value)}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select product" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {products
+                                    .filter((product) => !product.archivedAt || product.id === field.value)
+                                    .map((product) => (
+                                      <SelectItem key={product.id} value={product.id}>
+                                        {product.name}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`products.${index}.quantity`}
+                          render={({ field }) => (
+                            <FormItem className="w-32">
+                              <FormControl>
+                                <Input type="number" placeholder="Quantity" {...numberField(field)} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
                         />
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => orderLines.remove(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
+                    ))}
+                    {linesError && <p className="text-sm font-medium text-destructive">{linesError}</p>}
+                  </div>
+
+                  <MaterialRequirementsPanel lines={lines} products={products} materials={materials} />
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <Label>Leftovers (Optional)</Label>
                       <Button
                         type="button"
                         size="sm"
-                        variant="destructive"
-                        onClick={() => removeLeftover(index)}
+                        onClick={() => leftoverLines.append({ materialId: '', quantity: undefined })}
+                        variant="outline"
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Leftover
                       </Button>
                     </div>
-                  ))}
-                </div>
 
-                <Button type="submit" className="w-full">
-                  {editingOrder ? 'Update Order' : 'Create Order'}
-                </Button>
-              </form>
+                    {leftoverLines.fields.map((leftover, index) => (
+                      <div key={leftover.id} className="flex gap-2 items-start">
+                        <FormField
+                          control={form.control}
+                          name={`leftovers.${index}.materialId`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select material" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {materials
+                                    .filter((material) => !material.archivedAt || material.id === field.value)
+                                    .map((material) => (
+                                      <SelectItem key={material.id} value={material.id}>
+                                        {material.name}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`leftovers.${index}.quantity`}
+                          render={({ field }) => (
+                            <FormItem className="w-32">
+                              <FormControl>
+                                <Input type="number" step="0.01" placeholder="Quantity" {...numberField(field)} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => leftoverLines.remove(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Notes</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full">
+                    {editingOrder ? 'Update Order' : 'Create Order'}
+                  </Button>
+                </form>
+              </Form>
             </DialogContent>
           </Dialog>
+          <ImportDialog entity="orders" open={isImportOpen} onOpenChange={setIsImportOpen} />
+          <ConflictDialog
+            current={conflict}
+            base={editingOrder}
+            labels={{
+              orderNumber: 'the order number',
+              customerId: 'the customer',
+              deliveryDate: 'the delivery date',
+              notes: 'the notes',
+              products: 'the products',
+              leftovers: 'the leftovers',
+              status: 'the status',
+              totalCost: 'the prices',
+              archivedAt: 'its archive state',
+            }}
+            onReload={handleEdit}
+            onKeepMine={(current) => setEditingOrder({ ...editingOrder, version: current.version, status: current.status })}
+            onClose={() => setConflict(null)}
+          />
         </div>
       </div>
 
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="flex gap-4">
@@ -404,41 +574,118 @@ export const OrdersPage = () => {
               {sortOrder === 'asc' ? '↑' : '↓'}
             </Button>
           </div>
+          <div className="flex gap-4 mt-4">
+            <Select value={statusFilter} onValueChange={(value: OrderStatus | 'all') => setStatusFilter(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(orderStatusLabels) as OrderStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {orderStatusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="fromDate" className="whitespace-nowrap">Created from</Label>
+              <Input id="fromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="toDate">to</Label>
+              <Input id="toDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+            </div>
+          </div>
         </CardContent>
       </Card>
 
       <div className="grid gap-4">
-        {filteredAndSortedOrders.map((order) => (
-          <Card key={order.id}>
+        {orders.map((order) => (
+          <Card key={order.id} className={recentChanges.has(order.id) ? 'ring-2 ring-primary/30' : undefined}>
             <CardHeader>
               <CardTitle className="flex justify-between items-start">
                 <div>
-                  <span>{order.orderNumber}</span>
+                  <Link to={`/orders/${order.id}`} className="hover:underline">{order.orderNumber}</Link>
+                  <RecentChangeBadge change={recentChanges.get(order.id)} />
+                  {order.customerId && (
+                    <p className="text-sm font-normal text-muted-foreground">
+                      {customers.find(c => c.id === order.customerId)?.name}
+                    </p>
+                  )}
                   <div className="mt-1">
-                    <span className={`text-xs px-2 py-1 rounded-full ${
-                      order.status === 'completed' ? 'bg-green-100 text-green-700' :
-                      order.status === 'in-progress' ? 'bg-blue-100 text-blue-700' :
-                      'bg-yellow-100 text-yellow-700'
-                    }`}>
-                      {order.status}
+                    <span className={`text-xs px-2 py-1 rounded-full ${orderStatusStyles[order.status]}`}>
+                      {orderStatusLabels[order.status]}
                     </span>
                   </div>
                 </div>
                 <div className="flex gap-1">
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => handleEdit(order)}
-                  >
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => handleDelete(order.id)}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
+                  {canUpdate && !order.archivedAt && nextOrderStatuses(order.status).length > 0 && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="outline">
+                          Move to
+                          <ChevronDown className="h-4 w-4 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {nextOrderStatuses(order.status).map((status) => (
+                          <DropdownMenuItem key={status} onClick={() => handleTransition(order, status)}>
+                            {orderStatusLabels[status]}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {canUpdate && !order.archivedAt && order.pricedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Reprice at current costs"
+                      onClick={() => setRepricingOrder(order)}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canUpdate && !order.archivedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(order)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && !order.archivedAt && (
+                    <ConfirmDialog
+                      title={`Archive order ${order.orderNumber}?`}
+                      description="It will be hidden from the order list. Stock it has consumed stays consumed, and it can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(order)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {canDelete && order.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(order)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete order ${order.orderNumber} permanently?`}
+                        description="Stock the order consumed is returned and its history is deleted. This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(order)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
                 </div>
               </CardTitle>
             </CardHeader>
@@ -451,6 +698,7 @@ export const OrdersPage = () => {
                     return product ? (
                       <div key={op.productId} className="text-sm text-muted-foreground">
                         {product.name} × {op.quantity}
+                        {op.unitCost !== undefined && ` @ €${op.unitCost.toFixed(2)}`}
                       </div>
                     ) : null;
                   })}
@@ -458,11 +706,27 @@ export const OrdersPage = () => {
                 <div>
                   <div className="flex justify-between mb-2">
                     <span className="text-sm text-muted-foreground">Total Cost:</span>
-                    <span className="font-bold text-lg">€{order.totalCost.toFixed(2)}</span>
+                    <span className="font-bold text-lg">€{orderTotal(order).toFixed(2)}</span>
                   </div>
+                  {order.pricedAt && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Lock className="h-3 w-3" />
+                      Prices locked on {new Date(order.pricedAt).toLocaleDateString()}
+                    </div>
+                  )}
                   <div className="text-xs text-muted-foreground">
                     Created: {new Date(order.createdAt).toLocaleDateString()}
                   </div>
+                  {order.deliveryDate && (
+                    <div className="text-xs text-muted-foreground">
+                      Requested delivery: {formatDay(order.deliveryDate)}
+                    </div>
+                  )}
+                  {order.archivedAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Archived: {new Date(order.archivedAt).toLocaleDateString()}
+                    </div>
+                  )}
                   {order.completedAt && (
                     <div className="text-xs text-muted-foreground">
                       Completed: {new Date(order.completedAt).toLocaleDateString()}
@@ -483,17 +747,38 @@ export const OrdersPage = () => {
                   )}
                 </div>
               </div>
+              {order.notes && <p className="mt-2 text-sm text-muted-foreground whitespace-pre-line">{order.notes}</p>}
+              <Collapsible className="mt-4 border-t pt-2">
+                <CollapsibleTrigger asChild>
+                  <Button size="sm" variant="ghost" className="px-2">
+                    <History className="h-4 w-4 mr-2" />
+                    Status timeline
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="pt-2">
+                  <OrderTimeline orderId={order.id} />
+                </CollapsibleContent>
+              </Collapsible>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {filteredAndSortedOrders.length === 0 && (
+      <RepriceOrderDialog
+        order={repricingOrder}
+        products={products}
+        onOpenChange={(open) => !open && setRepricingOrder(null)}
+        onRepriced={handleRepriced}
+      />
+
+      {orders.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center text-muted-foreground">
-            No orders found. Create your first order to get started.
+            {view === 'archived' ? 'No archived orders.' : 'No orders found. Create your first order to get started.'}
           </CardContent>
         </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
       )}
     </div>
   );
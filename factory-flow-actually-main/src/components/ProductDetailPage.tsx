@@ -0,0 +1,107 @@
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { calculateProductCost } from '@shared/bom.js';
+import { useMaterials, useProduct, useProducts, useQueryErrorToast } from '@/lib/queries';
+import { DetailPage } from '@/components/DetailPage';
+import { BomTree } from '@/components/BomTree';
+
+export const ProductDetailPage = () => {
+  const { id } = useParams();
+  const { record: product, missing } = useProduct(id);
+  // Costing walks sub-assemblies, so the whole catalog is needed, archived records included.
+  const productsQuery = useProducts({ includeArchived: true });
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const products = productsQuery.data ?? [];
+  const materials = materialsQuery.data ?? [];
+  useQueryErrorToast(productsQuery.error ?? materialsQuery.error, 'Unable to load materials');
+
+  const usedIn = product ? products.filter(p => p.materials.some(pm => pm.productId === product.id)) : [];
+
+  return (
+    <DetailPage
+      backTo="/products"
+      backLabel="Products"
+      missing={missing}
+      title={product?.name}
+      subtitle={product?.archivedAt && `Archived ${new Date(product.archivedAt).toLocaleDateString()}`}
+    >
+      {product && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex justify-between">
+                <span>Bill of materials</span>
+                <span className="text-base font-normal">
+                  Production Cost: <span className="font-bold">€{calculateProductCost(product.id, products, materials).toFixed(2)}</span>
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {product.materials.map((pm) => {
+                    if (pm.productId) {
+                      return (
+                        <TableRow key={`product:${pm.productId}`}>
+                          <TableCell>
+                            <Link to={`/products/${pm.productId}`} className="underline">
+                              {products.find(p => p.id === pm.productId)?.name ?? pm.productId}
+                            </Link>{' '}
+                            <span className="text-muted-foreground">(sub-assembly)</span>
+                          </TableCell>
+                          <TableCell className="text-right">{pm.quantity}</TableCell>
+                        </TableRow>
+                      );
+                    }
+                    const material = materials.find(m => m.id === pm.materialId);
+                    return (
+                      <TableRow key={`material:${pm.materialId}`}>
+                        <TableCell>
+                          <Link to={`/materials/${pm.materialId}`} className="underline">{material?.name ?? pm.materialId}</Link>
+                        </TableCell>
+                        <TableCell className="text-right">{pm.quantity} {pm.unit ?? material?.unit}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {product.materials.some(pm => pm.productId) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Exploded BOM</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BomTree productId={product.id} products={products} materials={materials} />
+              </CardContent>
+            </Card>
+          )}
+
+          {usedIn.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Used as a sub-assembly in</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {usedIn.map((parent) => (
+                  <div key={parent.id}>
+                    <Link to={`/products/${parent.id}`} className="underline">{parent.name}</Link>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </DetailPage>
+  );
+};
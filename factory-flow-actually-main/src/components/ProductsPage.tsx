@@ -1,118 +1,152 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
-import { createProduct, deleteProduct, getMaterials, getProducts, Material, Product, updateProduct, exportToCSV } from '@/lib/storage';
-import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileDown } from 'lucide-react';
+import { calculateProductCost, findBomCycle } from '@shared/bom.js';
+import { BomLine, Material, PAGE_SIZE, Product } from '@/lib/storage';
+import { useArchiveProduct, useCreateProduct, useDeleteProduct, useMaterials, useProductList, useProducts, useQueryErrorToast, useRestoreProduct, useUnits, useUpdateProduct } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField, staleRecord } from '@/lib/forms';
+import { productSchema } from '@shared/schemas.js';
+import { compatibleUnits } from '@shared/units.js';
+import { BomTree } from '@/components/BomTree';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ImportDialog } from '@/components/ImportDialog';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, FileUp, ListTree, Archive, ArchiveRestore } from 'lucide-react';
+
+const productForm = productSchema.pick({ name: true, materials: true });
+
+type ProductFormValues = Pick<Product, 'name' | 'materials'>;
+
+const emptyForm: ProductFormValues = { name: '', materials: [] };
+
+// Stand-ins while a query loads, kept stable so that memoised BOM trees are not rebuilt.
+const noProducts: Product[] = [];
+const noMaterials: Material[] = [];
 
 export const ProductsPage = () => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [materials, setMaterials] = useState<Material[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'name' | 'cost' | 'date'>('date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [costAsOf, setCostAsOf] = useState('');
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'name' | 'cost' | 'date'>('sort', 'date', ['name', 'cost', 'date']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'desc', ['asc', 'desc']);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [conflict, setConflict] = useState<Product | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  const archiveProduct = useArchiveProduct();
+  const restoreProduct = useRestoreProduct();
+  const deleteProduct = useDeleteProduct();
+  const canCreate = can('products', 'create');
+  const canUpdate = can('products', 'update');
+  const canDelete = can('products', 'delete');
 
-  const [formData, setFormData] = useState({
-    name: '',
-    materials: [] as { materialId: string; quantity: number }[],
-  });
-
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [productData, materialData] = await Promise.all([getProducts(), getMaterials()]);
-        setProducts(productData);
-        setMaterials(materialData);
-      } catch (error) {
-        toast({
-          title: 'Unable to load data',
-          description: error instanceof Error ? error.message : 'Server error',
-          variant: 'destructive',
-        });
-      }
-    };
+  const form = useForm<ProductFormValues>({ resolver: zodResolver(productForm), defaultValues: emptyForm });
+  const bomLines = useFieldArray({ control: form.control, name: 'materials' });
+  const lines = form.watch('materials');
+  // Errors about the BOM as a whole, such as having no lines.
+  const bomError = form.formState.errors.materials?.root?.message ?? form.formState.errors.materials?.message;
 
-    loadData();
-  }, [toast]);
+  // Every product, archived ones included, for sub-assembly options and cost roll-ups;
+  // `pageProducts` is the listed page.
+  const productsQuery = useProducts({ includeArchived: true });
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const unitsQuery = useUnits();
+  const historicalQuery = useMaterials({ asOf: costAsOf, includeArchived: true }, !!costAsOf);
+  const products = productsQuery.data ?? noProducts;
+  const materials = materialsQuery.data ?? noMaterials;
+  const units = unitsQuery.data ?? [];
+  const historicalMaterials = historicalQuery.data ?? noMaterials;
+  useQueryErrorToast(productsQuery.error ?? materialsQuery.error ?? unitsQuery.error, 'Unable to load data');
+  useQueryErrorToast(historicalQuery.error, 'Unable to load historical costs');
 
-  const calculateProductCost = (productMaterials: { materialId: string; quantity: number }[]) => {
-    return productMaterials.reduce((sum, pm) => {
-      const material = materials.find(m => m.id === pm.materialId);
-      return sum + (material ? material.cost * pm.quantity : 0);
-    }, 0);
-  };
+  // Costs shown on the cards; the BOM editor always prices at today's costs.
+  const pricedMaterials = costAsOf ? historicalMaterials : materials;
+  const productCost = (productId: string) => calculateProductCost(productId, products, materials);
+  const displayedCost = (productId: string) => calculateProductCost(productId, products, pricedMaterials);
 
-  const filteredAndSortedProducts = useMemo(() => {
-    let filtered = products.filter(product =>
-      product.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, view]
+  );
 
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      if (sortBy === 'name') {
-        comparison = a.name.localeCompare(b.name);
-      } else if (sortBy === 'cost') {
-        const costA = calculateProductCost(a.materials);
-        const costB = calculateProductCost(b.materials);
-        comparison = costA - costB;
-      } else {
-        comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      }
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
 
-    return filtered;
-  }, [products, searchQuery, sortBy, sortOrder, materials]);
+  const pageQuery = useProductList({ ...filters, page, limit: PAGE_SIZE });
+  const pageProducts = pageQuery.data?.items ?? noProducts;
+  const total = pageQuery.data?.total ?? 0;
+  useQueryErrorToast(pageQuery.error, 'Unable to load products');
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (values: ProductFormValues) => {
+    const productData: Product = editingProduct
+      ? { ...editingProduct, ...values }
+      : {
+          id: crypto.randomUUID(),
+          ...values,
+          createdAt: new Date().toISOString(),
+        };
 
-    if (formData.materials.length === 0) {
+    const cycle = findBomCycle(productData.id, [...products.filter(p => p.id !== productData.id), productData]);
+    if (cycle) {
+      const names = cycle.map(id => (id === productData.id ? productData.name : products.find(p => p.id === id)?.name));
       toast({
         title: 'Error',
-        description: 'Please add at least one material to the product.',
+        description: `This BOM would contain itself: ${names.join(' → ')}`,
         variant: 'destructive',
       });
       return;
     }
 
-    const productData: Product = editingProduct
-      ? { ...editingProduct, ...formData }
-      : {
-          id: crypto.randomUUID(),
-          name: formData.name,
-          materials: formData.materials,
-          createdAt: new Date().toISOString(),
-        };
-
     try {
       if (editingProduct) {
-        const saved = await updateProduct(productData);
-        setProducts(products.map(p => (p.id === saved.id ? saved : p)));
+        const saved = await updateProduct.mutateAsync(productData);
         toast({
           title: 'Product updated',
           description: `${saved.name} has been updated successfully.`,
         });
       } else {
-        const saved = await createProduct(productData);
-        setProducts([...products, saved]);
+        const saved = await createProduct.mutateAsync(productData);
         toast({
           title: 'Product created',
           description: `${saved.name} has been added successfully.`,
         });
       }
 
-      setFormData({ name: '', materials: [] });
+      form.reset(emptyForm);
       setEditingProduct(null);
       setIsDialogOpen(false);
     } catch (error) {
+      const current = staleRecord<Product>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
       toast({
         title: 'Unable to save product',
         description: error instanceof Error ? error.message : 'Server error',
@@ -121,11 +155,36 @@ export const ProductsPage = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleArchive = async (product: Product) => {
     try {
-      await deleteProduct(id);
-      setProducts(products.filter(p => p.id !== id));
-      toast({ title: 'Product deleted', description: 'Product has been removed successfully.' });
+      await archiveProduct.mutateAsync(product.id);
+      toast({ title: 'Product archived', description: `${product.name} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive product',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (product: Product) => {
+    try {
+      const saved = await restoreProduct.mutateAsync(product.id);
+      toast({ title: 'Product restored', description: `${saved.name} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore product',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (product: Product) => {
+    try {
+      await deleteProduct.mutateAsync(product.id);
+      toast({ title: 'Product deleted', description: `${product.name} has been deleted permanently.` });
     } catch (error) {
       toast({
         title: 'Unable to delete product',
@@ -137,43 +196,25 @@ export const ProductsPage = () => {
 
   const handleEdit = (product: Product) => {
     setEditingProduct(product);
-    setFormData({
-      name: product.name,
-      materials: product.materials,
-    });
+    form.reset({ name: product.name, materials: product.materials });
     setIsDialogOpen(true);
   };
 
-  const addMaterial = () => {
-    setFormData({
-      ...formData,
-      materials: [...formData.materials, { materialId: '', quantity: 0 }],
-    });
-  };
-
-  const removeMaterial = (index: number) => {
-    setFormData({
-      ...formData,
-      materials: formData.materials.filter((_, i) => i !== index),
-    });
+  // Select values are encoded as "material:<id>" or "product:<id>". A new component starts
+  // in its material's own unit.
+  const updateComponent = (index: number, value: string) => {
+    const [kind, id] = value.split(':');
+    const quantity = form.getValues(`materials.${index}.quantity`);
+    bomLines.update(index, kind === 'product' ? { productId: id, quantity } : { materialId: id, quantity });
   };
 
-  const updateMaterial = (index: number, field: 'materialId' | 'quantity', value: string | number) => {
-    const updated = [...formData.materials];
-    updated[index] = { ...updated[index], [field]: value };
-    setFormData({ ...formData, materials: updated });
+  const lineUnits = (line: BomLine | undefined) => {
+    const material = line?.materialId && materials.find(m => m.id === line.materialId);
+    return material ? compatibleUnits(units, material.unit) : [];
   };
 
-  const handleExport = () => {
-    const exportData = products.map(p => ({
-      Name: p.name,
-      'Material Count': p.materials.length,
-      'Total Cost': calculateProductCost(p.materials).toFixed(2),
-      'Created Date': new Date(p.createdAt).toLocaleDateString(),
-    }));
-    exportToCSV(exportData, 'products');
-    toast({ title: 'Export successful', description: 'Products data has been exported to CSV.' });
-  };
+  const componentValue = (line: BomLine) =>
+    line.productId ? `product:${line.productId}` : line.materialId ? `material:${line.materialId}` : '';
 
   return (
     <div className="p-8">
@@ -183,103 +224,186 @@ export const ProductsPage = () => {
           <p className="text-muted-foreground">Manage your product catalog</p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={handleExport} variant="outline">
-            <FileDown className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          <ExportMenu entity="products" query={filters} />
+          {canCreate && (
+            <Button onClick={() => setIsImportOpen(true)} variant="outline">
+              <FileUp className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+          )}
           <Dialog open={isDialogOpen} onOpenChange={(open) => {
             setIsDialogOpen(open);
             if (!open) {
               setEditingProduct(null);
-              setFormData({ name: '', materials: [] });
+              form.reset(emptyForm);
             }
           }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Product
-              </Button>
-            </DialogTrigger>
+            {canCreate && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Product
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingProduct ? 'Edit Product' : 'Add New Product'}</DialogTitle>
               </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Product Name</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., T-Shirt"
-                    required
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Product Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., T-Shirt" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
 
-                <div className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <Label>Materials Required</Label>
-                    <Button type="button" size="sm" onClick={addMaterial}>
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Material
-                    </Button>
-                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <Label>Materials and Sub-assemblies</Label>
+                      <Button type="button" size="sm" onClick={() => bomLines.append({ materialId: '', quantity: undefined })}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Material
+                      </Button>
+                    </div>
 
-                  {formData.materials.map((mat, index) => (
-                    <div key={index} className="flex gap-2 items-end">
-                      <div className="flex-1">
-                        <Select
-                          value={mat.materialId}
-                          onValueChange={(value) => updateMaterial(index, 'materialId', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select material" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {materials.map((material) => (
-                              <SelectItem key={material.id} value={material.id}>
-                                {material.name} (€{material.cost}/{material.unit})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="w-32">
-                        <Input
-                          type="number"
-                          step="0.01"
-                          placeholder="Quantity"
-                          value={mat.quantity}
-                          onChange={(e) => updateMaterial(index, 'quantity', parseFloat(e.target.value) || 0)}
+                    {bomLines.fields.map((line, index) => (
+                      <div key={line.id} className="flex gap-2 items-start">
+                        <FormField
+                          control={form.control}
+                          name={`materials.${index}.materialId`}
+                          render={() => (
+                            <FormItem className="flex-1">
+                              <Select
+                                value={lines[index] ? componentValue(lines[index]) : ''}
+                                onValueChange={(value) => updateComponent(index, value)}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select material or product" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectGroup>
+                                    <SelectLabel>Materials</SelectLabel>
+                                    {materials
+                                      .filter((material) => !material.archivedAt || material.id === lines[index]?.materialId)
+                                      .map((material) => (
+                                        <SelectItem key={material.id} value={`material:${material.id}`}>
+                                          {material.name} (€{material.cost}/{material.unit})
+                                        </SelectItem>
+                                      ))}
+                                  </SelectGroup>
+                                  <SelectGroup>
+                                    <SelectLabel>Sub-assemblies</SelectLabel>
+                                    {products
+                                      .filter((product) => product.id !== editingProduct?.id)
+                                      .filter((product) => !product.archivedAt || product.id === lines[index]?.productId)
+                                      .map((product) => (
+                                        <SelectItem key={product.id} value={`product:${product.id}`}>
+                                          {product.name} (€{productCost(product.id).toFixed(2)})
+                                        </SelectItem>
+                                      ))}
+                                  </SelectGroup>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`materials.${index}.quantity`}
+                          render={({ field }) => (
+                            <FormItem className="w-32">
+                              <FormControl>
+                                <Input type="number" step="0.01" placeholder="Quantity" {...numberField(field)} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
                         />
+                        {lineUnits(lines[index]).length > 1 && (
+                          <FormField
+                            control={form.control}
+                            name={`materials.${index}.unit`}
+                            render={({ field }) => (
+                              <FormItem className="w-28">
+                                <Select
+                                  value={field.value ?? materials.find(m => m.id === lines[index]?.materialId)?.unit}
+                                  onValueChange={field.onChange}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {lineUnits(lines[index]).map((unit) => (
+                                      <SelectItem key={unit.code} value={unit.code}>
+                                        {unit.code}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => bomLines.remove(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => removeMaterial(index)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ))}
+                    ))}
 
-                  {formData.materials.length === 0 && (
-                    <p className="text-sm text-muted-foreground text-center py-4">
-                      No materials added yet. Click "Add Material" to start.
-                    </p>
-                  )}
-                </div>
+                    {bomLines.fields.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-4">
+                        No materials added yet. Click "Add Material" to start.
+                      </p>
+                    )}
+                    {bomError && <p className="text-sm font-medium text-destructive">{bomError}</p>}
+                  </div>
 
-                <Button type="submit" className="w-full">
-                  {editingProduct ? 'Update Product' : 'Add Product'}
-                </Button>
-              </form>
+                  <Button type="submit" className="w-full">
+                    {editingProduct ? 'Update Product' : 'Add Product'}
+                  </Button>
+                </form>
+              </Form>
             </DialogContent>
           </Dialog>
+          <ImportDialog entity="products" open={isImportOpen} onOpenChange={setIsImportOpen} />
+          <ConflictDialog
+            current={conflict}
+            base={editingProduct}
+            labels={{ name: 'the name', materials: 'the bill of materials', archivedAt: 'its archive state' }}
+            onReload={handleEdit}
+            onKeepMine={(current) => setEditingProduct({ ...editingProduct, version: current.version })}
+            onClose={() => setConflict(null)}
+          />
         </div>
       </div>
 
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="flex gap-4">
@@ -309,55 +433,114 @@ export const ProductsPage = () => {
             >
               {sortOrder === 'asc' ? '↑' : '↓'}
             </Button>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="costAsOf" className="whitespace-nowrap">Cost as of</Label>
+              <Input
+                id="costAsOf"
+                type="date"
+                value={costAsOf}
+                onChange={(e) => setCostAsOf(e.target.value)}
+                className="w-40"
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredAndSortedProducts.map((product) => {
-          const totalCost = calculateProductCost(product.materials);
+        {pageProducts.map((product) => {
+          const totalCost = displayedCost(product.id);
           return (
             <Card key={product.id}>
               <CardHeader>
                 <CardTitle className="flex justify-between items-start">
-                  <span>{product.name}</span>
+                  <Link to={`/products/${product.id}`} className="hover:underline">{product.name}</Link>
                   <div className="flex gap-1">
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleEdit(product)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleDelete(product.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    {canUpdate && !product.archivedAt && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEdit(product)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canDelete && !product.archivedAt && (
+                      <ConfirmDialog
+                        title={`Archive ${product.name}?`}
+                        description="It will be hidden from lists and pickers. Orders and products that use it are not affected, and it can be restored from the Archived tab."
+                        confirmLabel="Archive"
+                        onConfirm={() => handleArchive(product)}
+                      >
+                        <Button size="sm" variant="ghost" title="Archive">
+                          <Archive className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    )}
+                    {canDelete && product.archivedAt && (
+                      <>
+                        <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(product)}>
+                          <ArchiveRestore className="h-4 w-4" />
+                        </Button>
+                        <ConfirmDialog
+                          title={`Delete ${product.name} permanently?`}
+                          description="This cannot be undone. Products and orders that still use it prevent the deletion."
+                          confirmLabel="Delete permanently"
+                          destructive
+                          onConfirm={() => handleDelete(product)}
+                        >
+                          <Button size="sm" variant="ghost" title="Delete permanently">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </ConfirmDialog>
+                      </>
+                    )}
                   </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Production Cost:</span>
+                    <span className="text-sm text-muted-foreground">
+                      Production Cost{costAsOf && ` (${new Date(costAsOf).toLocaleDateString()})`}:
+                    </span>
                     <span className="font-medium">€{totalCost.toFixed(2)}</span>
                   </div>
                   <div className="border-t pt-2">
                     <p className="text-sm font-medium mb-1">Materials:</p>
                     {product.materials.map((pm) => {
+                      if (pm.productId) {
+                        const subAssembly = products.find(p => p.id === pm.productId);
+                        return subAssembly ? (
+                          <div key={`product:${pm.productId}`} className="text-xs text-muted-foreground">
+                            {subAssembly.name} (sub-assembly) × {pm.quantity}
+                          </div>
+                        ) : null;
+                      }
                       const material = materials.find(m => m.id === pm.materialId);
                       return material ? (
-                        <div key={pm.materialId} className="text-xs text-muted-foreground">
-                          {material.name}: {pm.quantity} {material.unit}
+                        <div key={`material:${pm.materialId}`} className="text-xs text-muted-foreground">
+                          {material.name}: {pm.quantity} {pm.unit ?? material.unit}
                         </div>
                       ) : null;
                     })}
                   </div>
+                  {product.materials.some(pm => pm.productId) && (
+                    <Collapsible>
+                      <CollapsibleTrigger asChild>
+                        <Button size="sm" variant="ghost" className="px-2">
+                          <ListTree className="h-4 w-4 mr-2" />
+                          Exploded BOM
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-1">
+                        <BomTree productId={product.id} products={products} materials={pricedMaterials} />
+                      </CollapsibleContent>
+                    </Collapsible>
+                  )}
                   <div className="text-xs text-muted-foreground pt-2">
                     Added: {new Date(product.createdAt).toLocaleDateString()}
+                    {product.archivedAt && <> · Archived: {new Date(product.archivedAt).toLocaleDateString()}</>}
                   </div>
                 </div>
               </CardContent>
@@ -366,12 +549,14 @@ export const ProductsPage = () => {
         })}
       </div>
 
-      {filteredAndSortedProducts.length === 0 && (
+      {pageProducts.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center text-muted-foreground">
-            No products found. Add your first product to get started.
+            {view === 'archived' ? 'No archived products.' : 'No products found. Add your first product to get started.'}
           </CardContent>
         </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
       )}
     </div>
   );
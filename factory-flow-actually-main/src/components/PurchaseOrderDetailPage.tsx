@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatDay } from '@/lib/utils';
+import { can } from '@/lib/permissions';
+import { PurchaseOrder } from '@/lib/storage';
+import { useMaterials, usePurchaseOrder, useQueryErrorToast } from '@/lib/queries';
+import { OPEN_PURCHASE_ORDER_STATUSES } from '@shared/purchaseOrderStatus.js';
+import { purchaseOrderStatusLabels, purchaseOrderStatusStyles } from '@/lib/purchaseOrderStatus';
+import { DetailPage } from '@/components/DetailPage';
+import { ReceivePurchaseOrderDialog } from '@/components/ReceivePurchaseOrderDialog';
+import { PackageCheck } from 'lucide-react';
+
+export const PurchaseOrderDetailPage = () => {
+  const { id } = useParams();
+  const { record: purchaseOrder, missing } = usePurchaseOrder(id);
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const materials = materialsQuery.data ?? [];
+  useQueryErrorToast(materialsQuery.error, 'Unable to load materials');
+  const [receivingPurchaseOrder, setReceivingPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const canReceive = can('purchaseOrders', 'update') && can('materials', 'update');
+
+  return (
+    <DetailPage
+      backTo="/purchasing"
+      backLabel="Purchasing"
+      missing={missing}
+      title={purchaseOrder?.poNumber}
+      subtitle={
+        purchaseOrder && (
+          <span className={`text-xs px-2 py-1 rounded-full ${purchaseOrderStatusStyles[purchaseOrder.status]}`}>
+            {purchaseOrderStatusLabels[purchaseOrder.status]}
+          </span>
+        )
+      }
+      actions={
+        purchaseOrder && canReceive && !purchaseOrder.archivedAt && OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status) && (
+          <Button variant="outline" onClick={() => setReceivingPurchaseOrder(purchaseOrder)}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            Receive
+          </Button>
+        )
+      }
+    >
+      {purchaseOrder && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">Supplier:</span>{' '}
+                <Link to={`/suppliers/${purchaseOrder.supplierId}`} className="underline">{purchaseOrder.supplierName ?? 'View supplier'}</Link>
+              </div>
+              {purchaseOrder.expectedDate && <div><span className="text-muted-foreground">Expected:</span> {formatDay(purchaseOrder.expectedDate)}</div>}
+              <div className="text-xs text-muted-foreground pt-2">
+                Created: {new Date(purchaseOrder.createdAt).toLocaleDateString()}
+                {purchaseOrder.sentAt && <> · Sent: {new Date(purchaseOrder.sentAt).toLocaleDateString()}</>}
+                {purchaseOrder.receivedAt && <> · Received: {new Date(purchaseOrder.receivedAt).toLocaleDateString()}</>}
+                {purchaseOrder.archivedAt && <> · Archived: {new Date(purchaseOrder.archivedAt).toLocaleDateString()}</>}
+              </div>
+              {purchaseOrder.notes && <p className="italic whitespace-pre-line pt-2">{purchaseOrder.notes}</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Materials</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Material</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Unit price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrder.lines.map((line, index) => {
+                    const material = materials.find(m => m.id === line.materialId);
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Link to={`/materials/${line.materialId}`} className="underline">{material?.name ?? line.materialId}</Link>
+                        </TableCell>
+                        <TableCell className="text-right">{line.quantity} {material?.unit}</TableCell>
+                        <TableCell className="text-right">{line.receivedQuantity ?? 0} {material?.unit}</TableCell>
+                        <TableCell className="text-right">€{line.unitPrice.toFixed(2)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <div className="flex justify-end gap-2 pt-4">
+                <span className="text-muted-foreground">Total:</span>
+                <span className="font-bold">€{purchaseOrder.totalCost.toFixed(2)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <ReceivePurchaseOrderDialog
+        purchaseOrder={receivingPurchaseOrder}
+        materials={materials}
+        onOpenChange={(open) => !open && setReceivingPurchaseOrder(null)}
+        onReceived={() => setReceivingPurchaseOrder(null)}
+      />
+    </DetailPage>
+  );
+};
@@ -0,0 +1,699 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { formatDay } from '@/lib/utils';
+import { PAGE_SIZE, PurchaseOrder, PurchaseOrderStatus } from '@/lib/storage';
+import {
+  useArchivePurchaseOrder,
+  useCreatePurchaseOrder,
+  useDeletePurchaseOrder,
+  useMaterials,
+  usePurchaseOrderList,
+  useQueryErrorToast,
+  useRestorePurchaseOrder,
+  useSuppliers,
+  useTransitionPurchaseOrder,
+  useUpdatePurchaseOrder,
+} from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField, staleRecord } from '@/lib/forms';
+import { purchaseOrderSchema } from '@shared/schemas.js';
+import { OPEN_PURCHASE_ORDER_STATUSES, PURCHASE_ORDER_STATUSES } from '@shared/purchaseOrderStatus.js';
+import { purchaseOrderTotal } from '@shared/pricing.js';
+import { nextPurchaseOrderStatuses, purchaseOrderStatusLabels, purchaseOrderStatusStyles } from '@/lib/purchaseOrderStatus';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { ReceivePurchaseOrderDialog } from '@/components/ReceivePurchaseOrderDialog';
+import { ReorderSuggestionsCard } from '@/components/ReorderSuggestionsCard';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, ChevronDown, Archive, ArchiveRestore, PackageCheck, Truck } from 'lucide-react';
+
+const purchaseOrderForm = purchaseOrderSchema.pick({ poNumber: true, supplierId: true, lines: true, expectedDate: true, notes: true });
+
+type PurchaseOrderFormValues = Pick<PurchaseOrder, 'poNumber' | 'supplierId' | 'lines' | 'expectedDate' | 'notes'>;
+
+const emptyForm: PurchaseOrderFormValues = { poNumber: '', supplierId: '', lines: [], expectedDate: '', notes: '' };
+
+const sortLabels = { date: 'date', expected: 'expected arrival', number: 'number', total: 'total' };
+
+// Transitions are offered as actions rather than statuses.
+const transitionLabels: Partial<Record<PurchaseOrderStatus, string>> = {
+  sent: 'Mark as sent',
+  draft: 'Back to draft',
+};
+
+// Lines can be changed until goods arrive against them.
+const isEditable = (purchaseOrder: PurchaseOrder) => purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent';
+
+export const PurchasingPage = () => {
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'date' | 'expected' | 'number' | 'total'>('sort', 'date', ['date', 'expected', 'number', 'total']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'desc', ['asc', 'desc']);
+  const [statusFilter, setStatusFilter] = useQueryState<PurchaseOrderStatus | 'all'>('status', 'all', ['all', ...PURCHASE_ORDER_STATUSES]);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPurchaseOrder, setEditingPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [conflict, setConflict] = useState<PurchaseOrder | null>(null);
+  const [receivingPurchaseOrder, setReceivingPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const { toast } = useToast();
+  const createPurchaseOrder = useCreatePurchaseOrder();
+  const updatePurchaseOrder = useUpdatePurchaseOrder();
+  const transitionPurchaseOrder = useTransitionPurchaseOrder();
+  const archivePurchaseOrder = useArchivePurchaseOrder();
+  const restorePurchaseOrder = useRestorePurchaseOrder();
+  const deletePurchaseOrder = useDeletePurchaseOrder();
+  const canCreate = can('purchaseOrders', 'create');
+  const canUpdate = can('purchaseOrders', 'update');
+  const canDelete = can('purchaseOrders', 'delete');
+  // Receiving and agreed prices change material costs and stock.
+  const canReceive = canUpdate && can('materials', 'update');
+  const canSetPrices = can('materials', 'update');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderForm),
+    defaultValues: emptyForm,
+  });
+  const purchaseLines = useFieldArray({ control: form.control, name: 'lines' });
+  const lines = form.watch('lines');
+  // Errors about the line list as a whole, such as having no lines.
+  const linesError = form.formState.errors.lines?.root?.message ?? form.formState.errors.lines?.message;
+
+  // Archived suppliers and materials are still shown on the purchase orders that use them.
+  const suppliersQuery = useSuppliers({ includeArchived: true });
+  const materialsQuery = useMaterials({ includeArchived: true });
+  const suppliers = suppliersQuery.data ?? [];
+  const materials = materialsQuery.data ?? [];
+  useQueryErrorToast(suppliersQuery.error ?? materialsQuery.error, 'Unable to load data');
+
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      status: statusFilter === 'all' ? undefined : [statusFilter],
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, statusFilter, view]
+  );
+
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
+
+  const purchaseOrdersQuery = usePurchaseOrderList({ ...filters, page, limit: PAGE_SIZE });
+  const purchaseOrders = purchaseOrdersQuery.data?.items ?? [];
+  const total = purchaseOrdersQuery.data?.total ?? 0;
+  useQueryErrorToast(purchaseOrdersQuery.error, 'Unable to load purchase orders');
+
+  // Every open purchase order, soonest arrival first.
+  const arrivalsQuery = usePurchaseOrderList({ status: OPEN_PURCHASE_ORDER_STATUSES, sort: 'expected', direction: 'asc', limit: 0 });
+  const arrivals = arrivalsQuery.data?.items ?? [];
+
+  const materialName = (materialId: string) => materials.find(m => m.id === materialId)?.name ?? 'Unknown material';
+
+  const handleSubmit = async (values: PurchaseOrderFormValues) => {
+    const totalCost = purchaseOrderTotal(values.lines);
+
+    const purchaseOrderData: PurchaseOrder = editingPurchaseOrder
+      ? { ...editingPurchaseOrder, ...values, totalCost }
+      : {
+          id: crypto.randomUUID(),
+          ...values,
+          status: 'draft',
+          totalCost,
+          createdAt: new Date().toISOString(),
+        };
+
+    try {
+      if (editingPurchaseOrder) {
+        const saved = await updatePurchaseOrder.mutateAsync(purchaseOrderData);
+        toast({
+          title: 'Purchase order updated',
+          description: `Purchase order ${saved.poNumber} has been updated successfully.`,
+        });
+      } else {
+        const saved = await createPurchaseOrder.mutateAsync(purchaseOrderData);
+        toast({
+          title: 'Purchase order created',
+          description: `Purchase order ${saved.poNumber} has been saved as a draft.`,
+        });
+      }
+
+      form.reset(emptyForm);
+      setEditingPurchaseOrder(null);
+      setIsDialogOpen(false);
+    } catch (error) {
+      const current = staleRecord<PurchaseOrder>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
+      toast({
+        title: 'Unable to save purchase order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleArchive = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await archivePurchaseOrder.mutateAsync(purchaseOrder.id);
+      toast({ title: 'Purchase order archived', description: `Purchase order ${purchaseOrder.poNumber} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive purchase order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await restorePurchaseOrder.mutateAsync(purchaseOrder.id);
+      toast({ title: 'Purchase order restored', description: `Purchase order ${purchaseOrder.poNumber} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore purchase order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await deletePurchaseOrder.mutateAsync(purchaseOrder.id);
+      toast({ title: 'Purchase order deleted', description: `Purchase order ${purchaseOrder.poNumber} has been deleted permanently.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to delete purchase order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleTransition = async (purchaseOrder: PurchaseOrder, status: PurchaseOrderStatus) => {
+    try {
+      const saved = await transitionPurchaseOrder.mutateAsync({ id: purchaseOrder.id, status, version: purchaseOrder.version });
+      toast({
+        title: 'Purchase order status changed',
+        description: `Purchase order ${saved.poNumber} is now ${purchaseOrderStatusLabels[saved.status].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to change status',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (purchaseOrder: PurchaseOrder) => {
+    setEditingPurchaseOrder(purchaseOrder);
+    form.reset({
+      poNumber: purchaseOrder.poNumber,
+      supplierId: purchaseOrder.supplierId,
+      lines: purchaseOrder.lines.map(({ materialId, quantity, unitPrice }) => ({ materialId, quantity, unitPrice })),
+      expectedDate: purchaseOrder.expectedDate ?? '',
+      notes: purchaseOrder.notes ?? '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  // A newly chosen material is priced at its current cost until the agreed price is entered.
+  const changeLineMaterial = (index: number, materialId: string) => {
+    const line = form.getValues(`lines.${index}`);
+    const cost = materials.find(m => m.id === materialId)?.cost;
+    purchaseLines.update(index, {
+      materialId,
+      quantity: line.quantity,
+      unitPrice: canSetPrices ? line.unitPrice ?? cost : cost,
+    });
+  };
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Purchasing</h1>
+          <p className="text-muted-foreground">Order materials from suppliers and receive them into stock</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingPurchaseOrder(null);
+            form.reset(emptyForm);
+          }
+        }}>
+          {canCreate && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Purchase Order
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingPurchaseOrder ? 'Edit Purchase Order' : 'Create Purchase Order'}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="poNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>PO Number</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., PO-2024-001" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="expectedDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expected Arrival</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select supplier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {suppliers
+                            .filter((supplier) => !supplier.archivedAt || supplier.id === field.value)
+                            .map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label>Materials</Label>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => purchaseLines.append({ materialId: '', quantity: undefined, unitPrice: undefined })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Material
+                    </Button>
+                  </div>
+
+                  {purchaseLines.fields.map((line, index) => (
+                    <div key={line.id} className="flex gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.materialId`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <Select value={field.value} onValueChange={(value) => changeLineMaterial(index, value)}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select material" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {materials
+                                  .filter((material) => !material.archivedAt || material.id === field.value)
+                                  .map((material) => (
+                                    <SelectItem key={material.id} value={material.id}>
+                                      {material.name} ({material.unit})
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem className="w-28">
+                            <FormControl>
+                              <Input type="number" step="0.01" placeholder="Quantity" {...numberField(field)} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.unitPrice`}
+                        render={({ field }) => (
+                          <FormItem className="w-28">
+                            <FormControl>
+                              <Input type="number" step="0.01" placeholder="Price (€)" readOnly={!canSetPrices} {...numberField(field)} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => purchaseLines.remove(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {linesError && <p className="text-sm font-medium text-destructive">{linesError}</p>}
+                  {lines.length > 0 && (
+                    <div className="flex justify-end text-sm">
+                      <span className="text-muted-foreground mr-2">Total:</span>
+                      <span className="font-medium">
+                        €{purchaseOrderTotal(lines.map(({ quantity, unitPrice }) => ({ quantity: quantity || 0, unitPrice: unitPrice || 0 }))).toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full">
+                  {editingPurchaseOrder ? 'Update Purchase Order' : 'Create Purchase Order'}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+        <ConflictDialog
+          current={conflict}
+          base={editingPurchaseOrder}
+          labels={{
+            poNumber: 'the PO number',
+            supplierId: 'the supplier',
+            expectedDate: 'the expected arrival',
+            notes: 'the notes',
+            lines: 'the materials',
+            status: 'the status',
+            archivedAt: 'its archive state',
+          }}
+          onReload={handleEdit}
+          onKeepMine={(current) => setEditingPurchaseOrder({ ...editingPurchaseOrder, version: current.version, status: current.status })}
+          onClose={() => setConflict(null)}
+        />
+      </div>
+
+      <ReorderSuggestionsCard suppliers={suppliers} />
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Expected Arrivals
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {arrivals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is on its way.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Purchase order</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Still to arrive</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {arrivals.map((purchaseOrder) => {
+                  const overdue = !!purchaseOrder.expectedDate && purchaseOrder.expectedDate < today;
+                  return (
+                    <TableRow key={purchaseOrder.id}>
+                      <TableCell className={overdue ? 'text-destructive font-medium' : undefined}>
+                        {purchaseOrder.expectedDate ? formatDay(purchaseOrder.expectedDate) : 'Not set'}
+                        {overdue && ' (overdue)'}
+                      </TableCell>
+                      <TableCell>{purchaseOrder.poNumber}</TableCell>
+                      <TableCell>{purchaseOrder.supplierName}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {purchaseOrder.lines
+                          .filter((line) => (line.receivedQuantity ?? 0) < line.quantity)
+                          .map((line) => `${materialName(line.materialId)} × ${Math.round((line.quantity - (line.receivedQuantity ?? 0)) * 100) / 100}`)
+                          .join(', ')}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by number or supplier..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value: PurchaseOrderStatus | 'all') => setStatusFilter(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(purchaseOrderStatusLabels) as PurchaseOrderStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {purchaseOrderStatusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (sortBy === 'date') setSortBy('expected');
+                else if (sortBy === 'expected') setSortBy('number');
+                else if (sortBy === 'number') setSortBy('total');
+                else setSortBy('date');
+              }}
+            >
+              <ArrowUpDown className="h-4 w-4 mr-2" />
+              Sort by: {sortLabels[sortBy]}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            >
+              {sortOrder === 'asc' ? '↑' : '↓'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4">
+        {purchaseOrders.map((purchaseOrder) => (
+          <Card key={purchaseOrder.id}>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-start">
+                <div>
+                  <Link to={`/purchasing/${purchaseOrder.id}`} className="hover:underline">{purchaseOrder.poNumber}</Link>
+                  <p className="text-sm font-normal text-muted-foreground">{purchaseOrder.supplierName}</p>
+                  <div className="mt-1">
+                    <span className={`text-xs px-2 py-1 rounded-full ${purchaseOrderStatusStyles[purchaseOrder.status]}`}>
+                      {purchaseOrderStatusLabels[purchaseOrder.status]}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {canReceive && !purchaseOrder.archivedAt && OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status) && (
+                    <Button size="sm" variant="outline" onClick={() => setReceivingPurchaseOrder(purchaseOrder)}>
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Receive
+                    </Button>
+                  )}
+                  {canUpdate && !purchaseOrder.archivedAt && nextPurchaseOrderStatuses(purchaseOrder.status).length > 0 && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="outline">
+                          Status
+                          <ChevronDown className="h-4 w-4 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {nextPurchaseOrderStatuses(purchaseOrder.status).map((status) => (
+                          <DropdownMenuItem key={status} onClick={() => handleTransition(purchaseOrder, status)}>
+                            {transitionLabels[status] ?? purchaseOrderStatusLabels[status]}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {canUpdate && !purchaseOrder.archivedAt && isEditable(purchaseOrder) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(purchaseOrder)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && !purchaseOrder.archivedAt && (
+                    <ConfirmDialog
+                      title={`Archive purchase order ${purchaseOrder.poNumber}?`}
+                      description="It will be hidden from the purchasing lists. Stock already received stays in stock, and it can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(purchaseOrder)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {canDelete && purchaseOrder.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(purchaseOrder)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete purchase order ${purchaseOrder.poNumber} permanently?`}
+                        description="A purchase order that goods have been received against cannot be deleted. This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(purchaseOrder)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm font-medium mb-2">Materials:</p>
+                  {purchaseOrder.lines.map((line, index) => (
+                    <div key={index} className="text-sm text-muted-foreground">
+                      {materialName(line.materialId)} × {line.quantity} @ €{line.unitPrice.toFixed(2)}
+                      {purchaseOrder.status !== 'draft' && ` · received ${line.receivedQuantity ?? 0}`}
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Total:</span>
+                    <span className="font-bold text-lg">€{purchaseOrder.totalCost.toFixed(2)}</span>
+                  </div>
+                  {purchaseOrder.expectedDate && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Expected:</span>
+                      <span>{formatDay(purchaseOrder.expectedDate)}</span>
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground pt-2">
+                    Created: {new Date(purchaseOrder.createdAt).toLocaleDateString()}
+                    {purchaseOrder.sentAt && <> · Sent: {new Date(purchaseOrder.sentAt).toLocaleDateString()}</>}
+                    {purchaseOrder.receivedAt && <> · Received: {new Date(purchaseOrder.receivedAt).toLocaleDateString()}</>}
+                    {purchaseOrder.archivedAt && <> · Archived: {new Date(purchaseOrder.archivedAt).toLocaleDateString()}</>}
+                  </div>
+                  {purchaseOrder.notes && <p className="text-sm italic whitespace-pre-line mt-2">{purchaseOrder.notes}</p>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <ReceivePurchaseOrderDialog
+        purchaseOrder={receivingPurchaseOrder}
+        materials={materials}
+        onOpenChange={(open) => !open && setReceivingPurchaseOrder(null)}
+        onReceived={() => setReceivingPurchaseOrder(null)}
+      />
+
+      {purchaseOrders.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {view === 'archived' ? 'No archived purchase orders.' : 'No purchase orders found. Create one to order materials.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Material, PurchaseOrder, PurchaseOrderLine } from '@/lib/storage';
+import { useReceivePurchaseOrder } from '@/lib/queries';
+
+interface ReceivePurchaseOrderDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  materials: Material[];
+  onOpenChange: (open: boolean) => void;
+  onReceived: (purchaseOrder: PurchaseOrder) => void;
+}
+
+const outstanding = (line: PurchaseOrderLine) =>
+  Math.max(Math.round((line.quantity - (line.receivedQuantity ?? 0)) * 100) / 100, 0);
+
+export const ReceivePurchaseOrderDialog = ({ purchaseOrder, materials, onOpenChange, onReceived }: ReceivePurchaseOrderDialogProps) => {
+  const [quantities, setQuantities] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const { toast } = useToast();
+  const receivePurchaseOrder = useReceivePurchaseOrder();
+
+  // Everything still outstanding is proposed; the user lowers what did not arrive.
+  useEffect(() => {
+    setQuantities(purchaseOrder ? purchaseOrder.lines.map((line) => String(outstanding(line))) : []);
+    setNote('');
+  }, [purchaseOrder]);
+
+  const receipt = quantities
+    .map((quantity, line) => ({ line, quantity: Number(quantity) }))
+    .filter(({ quantity }) => Number.isFinite(quantity) && quantity > 0);
+
+  const handleReceive = async () => {
+    if (!purchaseOrder) return;
+
+    try {
+      const saved = await receivePurchaseOrder.mutateAsync({
+        id: purchaseOrder.id,
+        lines: receipt,
+        note: note.trim() || undefined,
+        version: purchaseOrder.version,
+      });
+      onReceived(saved);
+      toast({
+        title: 'Goods received',
+        description: `Stock has been updated from purchase order ${saved.poNumber}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to receive goods',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive purchase order {purchaseOrder?.poNumber}</DialogTitle>
+          <DialogDescription>
+            Received quantities are added to stock. A price that differs from a material's current cost becomes its new cost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Material</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="w-32">Receiving now</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrder?.lines.map((line, index) => {
+              const material = materials.find(m => m.id === line.materialId);
+              return (
+                <TableRow key={index}>
+                  <TableCell>{material?.name ?? 'Unknown material'}</TableCell>
+                  <TableCell className="text-right">{line.quantity} {material?.unit}</TableCell>
+                  <TableCell className="text-right">{line.receivedQuantity ?? 0}</TableCell>
+                  <TableCell className="text-right">€{line.unitPrice.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={outstanding(line)}
+                      disabled={outstanding(line) === 0}
+                      value={quantities[index] ?? ''}
+                      onChange={(e) => setQuantities(quantities.map((q, i) => (i === index ? e.target.value : q)))}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="receiptNote">Note</Label>
+          <Input
+            id="receiptNote"
+            placeholder="e.g., delivery note number"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleReceive} disabled={receipt.length === 0}>
+            Receive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,15 @@
+import { ChangeEvent } from '@/lib/storage';
+
+/** Marks a record someone else has just changed; hovering it says who. */
+export const RecentChangeBadge = ({ change }: { change?: ChangeEvent }) => {
+  if (!change) return null;
+  const time = new Date(change.at).toLocaleTimeString();
+  return (
+    <span
+      className="ml-2 text-xs font-normal px-2 py-0.5 rounded-full bg-primary/10 text-primary align-middle"
+      title={`Changed by ${change.userName ?? 'another user'} at ${time}`}
+    >
+      Updated
+    </span>
+  );
+};
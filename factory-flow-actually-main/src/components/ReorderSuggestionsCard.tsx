@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Supplier } from '@/lib/storage';
+import { useCreatePurchaseOrder, useQueryErrorToast, useReorderSuggestions } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { purchaseOrderTotal } from '@shared/pricing.js';
+import { TrendingDown } from 'lucide-react';
+
+interface ReorderSuggestionsCardProps {
+  suppliers: Supplier[];
+}
+
+export const ReorderSuggestionsCard = ({ suppliers }: ReorderSuggestionsCardProps) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [supplierId, setSupplierId] = useState('');
+  const { toast } = useToast();
+  const createPurchaseOrder = useCreatePurchaseOrder();
+  const canCreate = can('purchaseOrders', 'create');
+  const activeSuppliers = suppliers.filter(s => !s.archivedAt);
+
+  const suggestionsQuery = useReorderSuggestions();
+  const suggestions = useMemo(() => suggestionsQuery.data ?? [], [suggestionsQuery.data]);
+  useQueryErrorToast(suggestionsQuery.error, 'Unable to load reorder suggestions');
+
+  // Every suggestion starts selected, with the supplier the first one was last bought from.
+  useEffect(() => {
+    setSelected(new Set(suggestions.map(s => s.materialId)));
+    setSupplierId(suggestions.find(s => s.supplierId)?.supplierId ?? '');
+  }, [suggestions]);
+
+  const toggle = (materialId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(materialId);
+    else next.delete(materialId);
+    setSelected(next);
+  };
+
+  const handleCreateDraft = async () => {
+    const chosen = suggestions.filter(s => selected.has(s.materialId));
+    const lines = chosen.map(s => ({ materialId: s.materialId, quantity: s.suggestedQuantity, unitPrice: s.unitCost }));
+    const leadTime = Math.max(0, ...chosen.map(s => s.leadTimeDays ?? 0));
+    const now = new Date();
+
+    try {
+      const saved = await createPurchaseOrder.mutateAsync({
+        id: crypto.randomUUID(),
+        poNumber: `PO-${format(now, 'yyyyMMdd-HHmmss')}`,
+        supplierId,
+        status: 'draft',
+        lines,
+        totalCost: purchaseOrderTotal(lines),
+        expectedDate: leadTime > 0 ? format(addDays(now, leadTime), 'yyyy-MM-dd') : undefined,
+        notes: 'Created from reorder suggestions',
+        createdAt: now.toISOString(),
+      });
+      toast({
+        title: 'Purchase order created',
+        description: `Purchase order ${saved.poNumber} has been saved as a draft.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to create purchase order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Reorder Suggestions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every material covers open orders and stays above its reorder level.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canCreate && <TableHead className="w-10" />}
+                  <TableHead>Material</TableHead>
+                  <TableHead className="text-right">In stock</TableHead>
+                  <TableHead className="text-right">On order</TableHead>
+                  <TableHead className="text-right">Needed by orders</TableHead>
+                  <TableHead className="text-right">Projected</TableHead>
+                  <TableHead className="text-right">Suggested</TableHead>
+                  <TableHead>Last supplier</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map((suggestion) => (
+                  <TableRow key={suggestion.materialId}>
+                    {canCreate && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(suggestion.materialId)}
+                          onCheckedChange={(checked) => toggle(suggestion.materialId, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">{suggestion.name}</TableCell>
+                    <TableCell className="text-right">{suggestion.stock} {suggestion.unit}</TableCell>
+                    <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                    <TableCell className="text-right">{suggestion.demand}</TableCell>
+                    <TableCell className={`text-right ${suggestion.projected < 0 ? 'text-destructive font-medium' : ''}`}>
+                      {suggestion.projected}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{suggestion.suggestedQuantity} {suggestion.unit}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{suggestion.supplierName ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {canCreate && (
+              <div className="flex gap-2 justify-end">
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Choose a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeSuppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleCreateDraft} disabled={!supplierId || selected.size === 0}>
+                  Create purchase order draft
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Order, Product } from '@/lib/storage';
+import { useQueryErrorToast, useRepriceOrder, useRepricePreview } from '@/lib/queries';
+
+interface RepriceOrderDialogProps {
+  order: Order | null;
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onRepriced: (order: Order) => void;
+}
+
+const formatCost = (value?: number) => (value === undefined ? '—' : `€${value.toFixed(2)}`);
+
+export const RepriceOrderDialog = ({ order, products, onOpenChange, onRepriced }: RepriceOrderDialogProps) => {
+  const { toast } = useToast();
+  const repriceOrder = useRepriceOrder();
+  const previewQuery = useRepricePreview(order?.id);
+  const preview = previewQuery.data;
+  useQueryErrorToast(previewQuery.error, 'Unable to load new prices');
+
+  const handleApply = async () => {
+    if (!order || !preview) return;
+
+    try {
+      const saved = await repriceOrder.mutateAsync({ id: order.id, version: preview.version, repricedTotal: preview.repricedTotal });
+      onRepriced(saved);
+      toast({
+        title: 'Order repriced',
+        description: `Order ${saved.orderNumber} now costs €${saved.totalCost.toFixed(2)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to reprice order',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const difference = preview ? preview.repricedTotal - preview.currentTotal : 0;
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Reprice order {order?.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {preview?.pricedAt
+              ? `Prices were locked on ${new Date(preview.pricedAt).toLocaleDateString()}. `
+              : ''}
+            Repricing replaces them with current material costs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Locked unit cost</TableHead>
+                <TableHead className="text-right">Current unit cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.lines.map((line) => (
+                <TableRow key={line.productId}>
+                  <TableCell>{products.find(p => p.id === line.productId)?.name ?? 'Unknown product'}</TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCost(line.currentUnitCost)}</TableCell>
+                  <TableCell className="text-right">{formatCost(line.repricedUnitCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right">{formatCost(preview.currentTotal)}</TableCell>
+                <TableCell className="text-right">
+                  {formatCost(preview.repricedTotal)}
+                  {difference !== 0 && (
+                    <span className={`ml-2 text-xs ${difference > 0 ? 'text-destructive' : 'text-green-700'}`}>
+                      ({difference > 0 ? '+' : ''}{difference.toFixed(2)})
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!preview}>
+            Apply new prices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
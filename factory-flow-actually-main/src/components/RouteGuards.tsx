@@ -0,0 +1,50 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { getCurrentUser, getMe, setCurrentUser } from '@/lib/storage';
+import { can, Resource } from '@/lib/permissions';
+
+/** Where the login page returns to once the user has signed in. */
+export interface LoginRedirectState {
+  from?: { pathname: string; search: string };
+}
+
+/**
+ * Renders its children for a signed-in user and sends anyone else to the login page,
+ * remembering where they were going. A stored session is checked with the server once.
+ */
+export const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const location = useLocation();
+  const [isLoggedIn, setIsLoggedIn] = useState(!!getCurrentUser());
+
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    getMe().catch(() => {
+      setCurrentUser(null);
+      setIsLoggedIn(false);
+    });
+  }, [isLoggedIn]);
+
+  if (!isLoggedIn) {
+    const state: LoginRedirectState = { from: { pathname: location.pathname, search: location.search } };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  return <>{children}</>;
+};
+
+/** Renders its children only for users whose role may read `resource`. */
+export const RequirePermission = ({ resource, children }: { resource: Resource; children: ReactNode }) => {
+  if (can(resource, 'read')) return <>{children}</>;
+
+  return (
+    <div className="p-8">
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Your role does not have access to this page. <Link to="/" className="underline">Back to the dashboard</Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ManualStockMovementType, Material, StockMovementType } from '@/lib/storage';
+import { useMaterialMovements, useQueryErrorToast, useRecordStockMovement } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, numberField } from '@/lib/forms';
+import { stockMovementSchema } from '@shared/schemas.js';
+
+const movementLabels: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  consumption: 'Consumption',
+  leftover_return: 'Leftover return',
+  adjustment: 'Adjustment',
+  scrap: 'Scrap',
+};
+
+interface MovementFormValues {
+  type: ManualStockMovementType;
+  quantity?: number;
+  note: string;
+}
+
+const emptyForm: MovementFormValues = { type: 'receipt', quantity: undefined, note: '' };
+
+interface StockMovementsDialogProps {
+  material: Material | null;
+  onOpenChange: (open: boolean) => void;
+  /** For callers that hold their own copy of the material; the cache is updated either way. */
+  onMaterialChange?: (material: Material) => void;
+}
+
+export const StockMovementsDialog = ({ material, onOpenChange, onMaterialChange }: StockMovementsDialogProps) => {
+  const form = useForm<MovementFormValues>({
+    resolver: zodResolver(stockMovementSchema),
+    defaultValues: emptyForm,
+  });
+  const { toast } = useToast();
+  const recordMovement = useRecordStockMovement();
+  // Archived materials are read-only; their history can still be viewed.
+  const canRecord = can('materials', 'update') && !material?.archivedAt;
+  const movementsQuery = useMaterialMovements(material?.id);
+  const movements = movementsQuery.data ?? [];
+  useQueryErrorToast(movementsQuery.error, 'Unable to load stock history');
+
+  const handleSubmit = async ({ type, quantity, note }: MovementFormValues) => {
+    if (!material || quantity === undefined) return;
+
+    try {
+      const saved = await recordMovement.mutateAsync({
+        materialId: material.id,
+        type,
+        quantity,
+        note: note || undefined,
+      });
+      onMaterialChange?.(saved);
+      form.reset(emptyForm);
+      toast({
+        title: 'Stock updated',
+        description: `${saved.name} now has ${saved.stock} ${saved.unit} in stock.`,
+      });
+    } catch (error) {
+      applyServerIssues(error, form.setError);
+      toast({
+        title: 'Unable to record movement',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!material} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock history: {material?.name}</DialogTitle>
+        </DialogHeader>
+
+        {canRecord && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-4 gap-2 items-start">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="receipt">Receipt</SelectItem>
+                        <SelectItem value="adjustment">Adjustment (±)</SelectItem>
+                        <SelectItem value="scrap">Scrap</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity ({material?.unit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...numberField(field)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="mt-8">Record</Button>
+            </form>
+          </Form>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Quantity</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.map((movement) => (
+              <TableRow key={movement.id}>
+                <TableCell>{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                <TableCell>{movementLabels[movement.type]}</TableCell>
+                <TableCell className={`text-right font-medium ${movement.quantity < 0 ? 'text-destructive' : 'text-green-700'}`}>
+                  {movement.quantity > 0 ? '+' : ''}{movement.quantity} {material?.unit}
+                </TableCell>
+                <TableCell>{movement.orderNumber ?? movement.purchaseOrderNumber ?? '—'}</TableCell>
+                <TableCell>{movement.userName ?? '—'}</TableCell>
+                <TableCell className="text-muted-foreground">{movement.note ?? ''}</TableCell>
+              </TableRow>
+            ))}
+            {movements.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No stock movements recorded yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQueryPage } from '@/hooks/use-query-state';
+import { formatDay } from '@/lib/utils';
+import { can } from '@/lib/permissions';
+import { PAGE_SIZE } from '@/lib/storage';
+import { usePurchaseOrderList, useQueryErrorToast, useSupplier } from '@/lib/queries';
+import { purchaseOrderStatusLabels, purchaseOrderStatusStyles } from '@/lib/purchaseOrderStatus';
+import { DetailPage } from '@/components/DetailPage';
+import { ListPagination } from '@/components/ListPagination';
+
+export const SupplierDetailPage = () => {
+  const { id } = useParams();
+  const { record: supplier, missing } = useSupplier(id);
+  const [page, setPage] = useQueryPage(id);
+  const canReadPurchaseOrders = can('purchaseOrders', 'read');
+
+  const purchaseOrdersQuery = usePurchaseOrderList(
+    { supplierId: id, includeArchived: true, page, limit: PAGE_SIZE },
+    canReadPurchaseOrders
+  );
+  const purchaseOrders = purchaseOrdersQuery.data?.items ?? [];
+  const total = purchaseOrdersQuery.data?.total ?? 0;
+  useQueryErrorToast(purchaseOrdersQuery.error, 'Unable to load purchase orders');
+
+  return (
+    <DetailPage
+      backTo="/suppliers"
+      backLabel="Suppliers"
+      missing={missing}
+      title={supplier?.name}
+      subtitle={supplier?.archivedAt && `Archived ${new Date(supplier.archivedAt).toLocaleDateString()}`}
+    >
+      {supplier && (
+        <Card>
+          <CardContent className="pt-6 space-y-1 text-sm text-muted-foreground">
+            {supplier.contactName && <div><span className="font-medium">Contact:</span> {supplier.contactName}</div>}
+            {supplier.email && <div><span className="font-medium">Email:</span> {supplier.email}</div>}
+            {supplier.phone && <div><span className="font-medium">Phone:</span> {supplier.phone}</div>}
+            {supplier.address && <div className="whitespace-pre-line"><span className="font-medium">Address:</span> {supplier.address}</div>}
+            {supplier.notes && <div className="whitespace-pre-line italic">{supplier.notes}</div>}
+            <div className="text-xs pt-2">Added: {new Date(supplier.createdAt).toLocaleDateString()}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!missing && canReadPurchaseOrders && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Purchase orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Purchase order</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrders.map((purchaseOrder) => (
+                  <TableRow key={purchaseOrder.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/purchasing/${purchaseOrder.id}`} className="underline">{purchaseOrder.poNumber}</Link>
+                      {purchaseOrder.archivedAt && <span className="text-xs text-muted-foreground"> (archived)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`text-xs px-2 py-1 rounded-full ${purchaseOrderStatusStyles[purchaseOrder.status]}`}>
+                        {purchaseOrderStatusLabels[purchaseOrder.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell>{new Date(purchaseOrder.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{purchaseOrder.expectedDate ? formatDay(purchaseOrder.expectedDate) : '—'}</TableCell>
+                    <TableCell className="text-right">€{purchaseOrder.totalCost.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                {purchaseOrders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      No purchase orders yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            {purchaseOrders.length > 0 && <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />}
+          </CardContent>
+        </Card>
+      )}
+    </DetailPage>
+  );
+};
@@ -0,0 +1,381 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Supplier, PAGE_SIZE } from '@/lib/storage';
+import { useArchiveSupplier, useCreateSupplier, useDeleteSupplier, useQueryErrorToast, useRestoreSupplier, useSupplierList, useUpdateSupplier } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, staleRecord } from '@/lib/forms';
+import { supplierSchema } from '@shared/schemas.js';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { Plus, Search, ArrowUpDown, Pencil, Trash2, Archive, ArchiveRestore } from 'lucide-react';
+
+const supplierForm = supplierSchema.pick({ name: true, contactName: true, email: true, phone: true, address: true, notes: true });
+
+type SupplierFormValues = Pick<Supplier, 'name' | 'contactName' | 'email' | 'phone' | 'address' | 'notes'>;
+
+const emptyForm: SupplierFormValues = { name: '', contactName: '', email: '', phone: '', address: '', notes: '' };
+
+
+export const SuppliersPage = () => {
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [sortBy, setSortBy] = useQueryState<'name' | 'date'>('sort', 'name', ['name', 'date']);
+  const [sortOrder, setSortOrder] = useQueryState<'asc' | 'desc'>('direction', 'asc', ['asc', 'desc']);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [conflict, setConflict] = useState<Supplier | null>(null);
+  const { toast } = useToast();
+  const createSupplier = useCreateSupplier();
+  const updateSupplier = useUpdateSupplier();
+  const archiveSupplier = useArchiveSupplier();
+  const restoreSupplier = useRestoreSupplier();
+  const deleteSupplier = useDeleteSupplier();
+  const canCreate = can('suppliers', 'create');
+  const canUpdate = can('suppliers', 'update');
+  const canDelete = can('suppliers', 'delete');
+
+  const form = useForm<SupplierFormValues>({
+    resolver: zodResolver(supplierForm),
+    defaultValues: emptyForm,
+  });
+
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      sort: sortBy,
+      direction: sortOrder,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, sortBy, sortOrder, view]
+  );
+
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
+
+  const suppliersQuery = useSupplierList({ ...filters, page, limit: PAGE_SIZE });
+  const suppliers = suppliersQuery.data?.items ?? [];
+  const total = suppliersQuery.data?.total ?? 0;
+  useQueryErrorToast(suppliersQuery.error, 'Unable to load suppliers');
+
+  const handleSubmit = async (values: SupplierFormValues) => {
+    const supplierData: Supplier = editingSupplier
+      ? { ...editingSupplier, ...values }
+      : {
+          id: crypto.randomUUID(),
+          ...values,
+          createdAt: new Date().toISOString(),
+        };
+
+    try {
+      if (editingSupplier) {
+        const saved = await updateSupplier.mutateAsync(supplierData);
+        toast({
+          title: 'Supplier updated',
+          description: `${saved.name} has been updated successfully.`,
+        });
+      } else {
+        const saved = await createSupplier.mutateAsync(supplierData);
+        toast({
+          title: 'Supplier created',
+          description: `${saved.name} has been added successfully.`,
+        });
+      }
+
+      form.reset(emptyForm);
+      setEditingSupplier(null);
+      setIsDialogOpen(false);
+    } catch (error) {
+      const current = staleRecord<Supplier>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
+      toast({
+        title: 'Unable to save supplier',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleArchive = async (supplier: Supplier) => {
+    try {
+      await archiveSupplier.mutateAsync(supplier.id);
+      toast({ title: 'Supplier archived', description: `${supplier.name} has been moved to the archive.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive supplier',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (supplier: Supplier) => {
+    try {
+      await restoreSupplier.mutateAsync(supplier.id);
+      toast({ title: 'Supplier restored', description: `${supplier.name} is active again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore supplier',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier.mutateAsync(supplier.id);
+      toast({ title: 'Supplier deleted', description: `${supplier.name} has been deleted permanently.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to delete supplier',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    form.reset({
+      name: supplier.name,
+      contactName: supplier.contactName ?? '',
+      email: supplier.email ?? '',
+      phone: supplier.phone ?? '',
+      address: supplier.address ?? '',
+      notes: supplier.notes ?? '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const textField = (name: keyof SupplierFormValues, label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Suppliers</h1>
+          <p className="text-muted-foreground">Manage the suppliers you buy materials from</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingSupplier(null);
+            form.reset(emptyForm);
+          }
+        }}>
+          {canCreate && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Supplier
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add New Supplier'}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                {textField('name', 'Name', 'e.g., Baltic Timber UAB')}
+                <div className="grid grid-cols-2 gap-4">
+                  {textField('contactName', 'Contact Person')}
+                  {textField('phone', 'Phone Number', '+370 600 00000')}
+                </div>
+                {textField('email', 'Email')}
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full">
+                  {editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+        <ConflictDialog
+          current={conflict}
+          base={editingSupplier}
+          labels={{
+            name: 'the name',
+            contactName: 'the contact person',
+            email: 'the email',
+            phone: 'the phone number',
+            address: 'the address',
+            notes: 'the notes',
+            archivedAt: 'its archive state',
+          }}
+          onReload={handleEdit}
+          onKeepMine={(current) => setEditingSupplier({ ...editingSupplier, version: current.version })}
+          onClose={() => setConflict(null)}
+        />
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search suppliers..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setSortBy(sortBy === 'name' ? 'date' : 'name')}
+            >
+              <ArrowUpDown className="h-4 w-4 mr-2" />
+              Sort by: {sortBy}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            >
+              {sortOrder === 'asc' ? '↑' : '↓'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {suppliers.map((supplier) => (
+          <Card key={supplier.id}>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-start">
+                <Link to={`/suppliers/${supplier.id}`} className="hover:underline">{supplier.name}</Link>
+                <div className="flex gap-1">
+                  {canUpdate && !supplier.archivedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleEdit(supplier)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && !supplier.archivedAt && (
+                    <ConfirmDialog
+                      title={`Archive ${supplier.name}?`}
+                      description="They will be hidden from lists and pickers. Their purchase orders are not affected, and they can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(supplier)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {canDelete && supplier.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(supplier)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete ${supplier.name} permanently?`}
+                        description="A supplier with purchase orders cannot be deleted. This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(supplier)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  {[supplier.contactName, supplier.email, supplier.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                </div>
+                {supplier.notes && <div className="text-sm italic whitespace-pre-line">{supplier.notes}</div>}
+                <div className="text-xs text-muted-foreground pt-2">
+                  Added: {new Date(supplier.createdAt).toLocaleDateString()}
+                  {supplier.archivedAt && <> · Archived: {new Date(supplier.archivedAt).toLocaleDateString()}</>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {suppliers.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {view === 'archived' ? 'No archived suppliers.' : 'No suppliers found. Add your first supplier to get started.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
+      )}
+    </div>
+  );
+};
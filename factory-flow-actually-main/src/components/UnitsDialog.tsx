@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { createUnit, Unit, UnitDimension } from '@/lib/storage';
+import { can } from '@/lib/permissions';
+import { UNIT_DIMENSIONS } from '@shared/units.js';
+
+const dimensionBaseUnits: Record<UnitDimension, string> = {
+  mass: 'kg',
+  length: 'm',
+  count: 'pcs',
+  volume: 'l',
+  area: 'm2',
+};
+
+interface UnitsDialogProps {
+  open: boolean;
+  units: Unit[];
+  onOpenChange: (open: boolean) => void;
+  onUnitCreated: (unit: Unit) => void;
+}
+
+const emptyForm = { code: '', name: '', dimension: 'count' as UnitDimension, factor: '' };
+
+export const UnitsDialog = ({ open, units, onOpenChange, onUnitCreated }: UnitsDialogProps) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+  const canCreate = can('materials', 'create');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const saved = await createUnit({
+        code: formData.code.trim(),
+        name: formData.name.trim(),
+        dimension: formData.dimension,
+        factor: parseFloat(formData.factor),
+      });
+      onUnitCreated(saved);
+      setFormData(emptyForm);
+      toast({ title: 'Unit added', description: `${saved.name} (${saved.code}) can now be used.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to add unit',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Units of measure</DialogTitle>
+          <DialogDescription>
+            Quantities convert between units of the same dimension. Units cannot be changed once added.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Dimension</TableHead>
+              <TableHead className="text-right">Equals</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {units.map((unit) => (
+              <TableRow key={unit.code}>
+                <TableCell className="font-medium">{unit.code}</TableCell>
+                <TableCell>{unit.name}</TableCell>
+                <TableCell className="capitalize">{unit.dimension}</TableCell>
+                <TableCell className="text-right">
+                  {unit.factor} {dimensionBaseUnits[unit.dimension]}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {canCreate && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-5 gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="unit-code">Code</Label>
+              <Input
+                id="unit-code"
+                placeholder="e.g., roll"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unit-name">Name</Label>
+              <Input
+                id="unit-name"
+                placeholder="e.g., Roll"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Dimension</Label>
+              <Select
+                value={formData.dimension}
+                onValueChange={(value: UnitDimension) => setFormData({ ...formData, dimension: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_DIMENSIONS.map((dimension) => (
+                    <SelectItem key={dimension} value={dimension} className="capitalize">
+                      {dimension}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unit-factor">In {dimensionBaseUnits[formData.dimension]}</Label>
+              <Input
+                id="unit-factor"
+                type="number"
+                step="any"
+                min="0"
+                value={formData.factor}
+                onChange={(e) => setFormData({ ...formData, factor: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit">Add Unit</Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,96 +1,107 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { createUser, deleteUser, getUsers, getCurrentUser, updateUser, User } from '@/lib/storage';
-import { Plus, Pencil, Trash2, Shield } from 'lucide-react';
+import { getCurrentUser, PAGE_SIZE, User, UserInput } from '@/lib/storage';
+import { useArchiveUser, useCreateUser, useDeleteUser, useQueryErrorToast, useRestoreUser, useUpdateUser, useUserList } from '@/lib/queries';
+import { can } from '@/lib/permissions';
+import { applyServerIssues, staleRecord } from '@/lib/forms';
+import { newUserSchema, passwordSchema, userSchema } from '@shared/schemas.js';
+import { ListPagination } from '@/components/ListPagination';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useQueryPage, useQueryState } from '@/hooks/use-query-state';
+import { Plus, Pencil, Trash2, Shield, Search, Archive, ArchiveRestore } from 'lucide-react';
+
+const newUserForm = newUserSchema.omit({ id: true });
+
+// A blank password keeps the current one.
+const editUserForm = userSchema.omit({ id: true }).extend({ password: passwordSchema.or(z.literal('')) });
+
+type UserFormValues = Omit<User, 'id'> & { password: string };
+
+const emptyForm: UserFormValues = { email: '', name: '', surname: '', phone: '', role: 'employee', password: '' };
 
 export const UsersPage = () => {
   const currentUser = getCurrentUser();
-  const [users, setUsers] = useState<User[]>([]);
+  const [searchQuery, setSearchQuery] = useQueryState('q', '');
+  const [roleFilter, setRoleFilter] = useQueryState<User['role'] | 'all'>('role', 'all', ['all', 'admin', 'manager', 'employee']);
+  const [view, setView] = useQueryState<'active' | 'archived'>('view', 'active', ['active', 'archived']);
+  const debouncedSearch = useDebouncedValue(searchQuery);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [conflict, setConflict] = useState<User | null>(null);
   const { toast } = useToast();
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const archiveUser = useArchiveUser();
+  const restoreUser = useRestoreUser();
+  const deleteUser = useDeleteUser();
 
-  const [formData, setFormData] = useState({
-    email: '',
-    name: '',
-    surname: '',
-    phone: '',
-    role: 'employee' as 'admin' | 'manager' | 'employee',
-    password: '',
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(editingUser ? editUserForm : newUserForm),
+    defaultValues: emptyForm,
   });
 
-  useEffect(() => {
-    const loadUsers = async () => {
-      try {
-        const data = await getUsers();
-        setUsers(data);
-      } catch (error) {
-        toast({
-          title: 'Unable to load users',
-          description: error instanceof Error ? error.message : 'Server error',
-          variant: 'destructive',
-        });
-      }
-    };
-
-    loadUsers();
-  }, [toast]);
+  const filters = useMemo(
+    () => ({
+      search: debouncedSearch,
+      role: roleFilter === 'all' ? undefined : roleFilter,
+      includeArchived: view === 'archived' ? ('only' as const) : undefined,
+    }),
+    [debouncedSearch, roleFilter, view]
+  );
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Any change to the filters starts again from the first page.
+  const [page, setPage] = useQueryPage(filters);
 
-    if (!formData.email.includes('@')) {
-      toast({
-        title: 'Validation Error',
-        description: 'Please enter a valid email address.',
-        variant: 'destructive',
-      });
-      return;
-    }
+  const usersQuery = useUserList({ ...filters, page, limit: PAGE_SIZE });
+  const users = usersQuery.data?.items ?? [];
+  const total = usersQuery.data?.total ?? 0;
+  useQueryErrorToast(usersQuery.error, 'Unable to load users');
 
-    if (formData.password.length < 6 && !editingUser) {
-      toast({
-        title: 'Validation Error',
-        description: 'Password must be at least 6 characters long.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    const userData: User = editingUser
-      ? { ...editingUser, ...formData, password: formData.password || editingUser.password }
+  const handleSubmit = async (values: UserFormValues) => {
+    const userData: UserInput = editingUser
+      ? { ...editingUser, ...values, password: values.password || undefined }
       : {
           id: crypto.randomUUID(),
-          ...formData,
+          ...values,
         };
 
     try {
       if (editingUser) {
-        const saved = await updateUser(userData);
-        setUsers(users.map(u => (u.id === saved.id ? saved : u)));
+        const saved = await updateUser.mutateAsync(userData);
         toast({
           title: 'User updated',
           description: `${saved.name} ${saved.surname} has been updated successfully.`,
         });
       } else {
-        const saved = await createUser(userData);
-        setUsers([...users, saved]);
+        const saved = await createUser.mutateAsync(userData);
         toast({
           title: 'User created',
           description: `${saved.name} ${saved.surname} has been added successfully.`,
         });
       }
 
-      setFormData({ email: '', name: '', surname: '', phone: '', role: 'employee', password: '' });
+      form.reset(emptyForm);
       setEditingUser(null);
       setIsDialogOpen(false);
     } catch (error) {
+      const current = staleRecord<User>(error);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      applyServerIssues(error, form.setError);
       toast({
         title: 'Unable to save user',
         description: error instanceof Error ? error.message : 'Server error',
@@ -99,20 +110,45 @@ export const UsersPage = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (id === currentUser?.id) {
+  const handleArchive = async (user: User) => {
+    if (user.id === currentUser?.id) {
       toast({
-        title: 'Cannot delete',
-        description: 'You cannot delete your own account.',
+        title: 'Cannot archive',
+        description: 'You cannot archive your own account.',
         variant: 'destructive',
       });
       return;
     }
 
     try {
-      await deleteUser(id);
-      setUsers(users.filter(u => u.id !== id));
-      toast({ title: 'User deleted', description: 'User has been removed successfully.' });
+      await archiveUser.mutateAsync(user.id);
+      toast({ title: 'User archived', description: `${user.name} ${user.surname} can no longer sign in.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to archive user',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (user: User) => {
+    try {
+      await restoreUser.mutateAsync(user.id);
+      toast({ title: 'User restored', description: `${user.name} ${user.surname} can sign in again.` });
+    } catch (error) {
+      toast({
+        title: 'Unable to restore user',
+        description: error instanceof Error ? error.message : 'Server error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    try {
+      await deleteUser.mutateAsync(user.id);
+      toast({ title: 'User deleted', description: `${user.name} ${user.surname} has been deleted permanently.` });
     } catch (error) {
       toast({
         title: 'Unable to delete user',
@@ -124,7 +160,7 @@ export const UsersPage = () => {
 
   const handleEdit = (user: User) => {
     setEditingUser(user);
-    setFormData({
+    form.reset({
       email: user.email,
       name: user.name,
       surname: user.surname,
@@ -135,7 +171,7 @@ export const UsersPage = () => {
     setIsDialogOpen(true);
   };
 
-  if (currentUser?.role !== 'admin') {
+  if (!can('users', 'read')) {
     return (
       <div className="p-8">
         <Card>
@@ -162,7 +198,7 @@ export const UsersPage = () => {
           setIsDialogOpen(open);
           if (!open) {
             setEditingUser(null);
-            setFormData({ email: '', name: '', surname: '', phone: '', role: 'employee', password: '' });
+            form.reset(emptyForm);
           }
         }}>
           <DialogTrigger asChild>
@@ -175,83 +211,148 @@ export const UsersPage = () => {
             <DialogHeader>
               <DialogTitle>{editingUser ? 'Edit User' : 'Add New User'}</DialogTitle>
             </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Name</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    required
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="surname">Surname</Label>
-                  <Input
-                    id="surname"
-                    value={formData.surname}
-                    onChange={(e) => setFormData({ ...formData, surname: e.target.value })}
-                    required
+                  <FormField
+                    control={form.control}
+                    name="surname"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Surname</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                  required
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="phone">Phone Number</Label>
-                <Input
-                  id="phone"
-                  value={formData.phone}
-                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                  placeholder="+370 600 00000"
-                  required
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="+370 600 00000" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="role">Role</Label>
-                <Select
-                  value={formData.role}
-                  onValueChange={(value: any) => setFormData({ ...formData, role: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="manager">Manager</SelectItem>
-                    <SelectItem value="employee">Employee</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">
-                  Password {editingUser && '(leave blank to keep current)'}
-                </Label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  required={!editingUser}
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value="manager">Manager</SelectItem>
+                          <SelectItem value="employee">Employee</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              <Button type="submit" className="w-full">
-                {editingUser ? 'Update User' : 'Add User'}
-              </Button>
-            </form>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password {editingUser && '(leave blank to keep current)'}</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full">
+                  {editingUser ? 'Update User' : 'Add User'}
+                </Button>
+              </form>
+            </Form>
           </DialogContent>
         </Dialog>
+        <ConflictDialog
+          current={conflict}
+          base={editingUser}
+          labels={{ email: 'the email', name: 'the name', surname: 'the surname', phone: 'the phone number', role: 'the role', archivedAt: 'its archive state' }}
+          onReload={handleEdit}
+          onKeepMine={(current) => setEditingUser({ ...editingUser, version: current.version })}
+          onClose={() => setConflict(null)}
+        />
       </div>
 
+      <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search users..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={roleFilter} onValueChange={(value: User['role'] | 'all') => setRoleFilter(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+                <SelectItem value="manager">Manager</SelectItem>
+                <SelectItem value="employee">Employee</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {users.map((user) => (
           <Card key={user.id}>
@@ -270,22 +371,45 @@ export const UsersPage = () => {
                   </div>
                 </div>
                 <div className="flex gap-1">
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => handleEdit(user)}
-                  >
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  {user.id !== currentUser?.id && (
+                  {!user.archivedAt && (
                     <Button
                       size="sm"
                       variant="ghost"
-                      onClick={() => handleDelete(user.id)}
+                      onClick={() => handleEdit(user)}
                     >
-                      <Trash2 className="h-4 w-4 text-destructive" />
+                      <Pencil className="h-4 w-4" />
                     </Button>
                   )}
+                  {!user.archivedAt && user.id !== currentUser?.id && (
+                    <ConfirmDialog
+                      title={`Archive ${user.name} ${user.surname}?`}
+                      description="They are signed out and can no longer sign in. The account can be restored from the Archived tab."
+                      confirmLabel="Archive"
+                      onConfirm={() => handleArchive(user)}
+                    >
+                      <Button size="sm" variant="ghost" title="Archive">
+                        <Archive className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </ConfirmDialog>
+                  )}
+                  {user.archivedAt && (
+                    <>
+                      <Button size="sm" variant="ghost" title="Restore" onClick={() => handleRestore(user)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <ConfirmDialog
+                        title={`Delete ${user.name} ${user.surname} permanently?`}
+                        description="This cannot be undone."
+                        confirmLabel="Delete permanently"
+                        destructive
+                        onConfirm={() => handleDelete(user)}
+                      >
+                        <Button size="sm" variant="ghost" title="Delete permanently">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </ConfirmDialog>
+                    </>
+                  )}
                 </div>
               </CardTitle>
             </CardHeader>
@@ -299,11 +423,18 @@ export const UsersPage = () => {
                   <span className="font-medium">Phone:</span>
                   <span>{user.phone}</span>
                 </div>
+                {user.archivedAt && (
+                  <div className="text-xs text-muted-foreground pt-1">
+                    Archived: {new Date(user.archivedAt).toLocaleDateString()}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
+
+      <ListPagination page={page} limit={PAGE_SIZE} total={total} onPageChange={setPage} />
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { applyRemoteChange } from "@/lib/queries";
+import { ApiError, ChangeEvent, clientId, streamChanges } from "@/lib/storage";
+
+// How long a card shows that someone else has just changed it.
+const RECENT_MS = 10_000;
+const MAX_RETRY_MS = 30_000;
+
+let recentChanges = new Map<string, ChangeEvent>();
+const listeners = new Set<() => void>();
+
+const setRecent = (update: (changes: Map<string, ChangeEvent>) => void) => {
+  recentChanges = new Map(recentChanges);
+  update(recentChanges);
+  listeners.forEach((listener) => listener());
+};
+
+const remember = (change: ChangeEvent) => {
+  setRecent((changes) => changes.set(change.entityId, change));
+  window.setTimeout(() => {
+    if (recentChanges.get(change.entityId) === change) setRecent((changes) => changes.delete(change.entityId));
+  }, RECENT_MS);
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Keeps the cache in step with changes made elsewhere while the app is open. Mounted once,
+ * by the layout; a dropped stream is reopened with backoff and everything is refetched, since
+ * changes made in between were missed.
+ */
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const run = async () => {
+      let retryMs = 1000;
+      let reconnecting = false;
+      while (!signal.aborted) {
+        try {
+          await streamChanges(
+            {
+              onOpen: () => {
+                retryMs = 1000;
+                if (reconnecting) queryClient.invalidateQueries();
+              },
+              onChange: (change) => {
+                // This tab's own changes are already in its cache.
+                if (change.clientId === clientId) return;
+                applyRemoteChange(queryClient, change);
+                if (change.action !== "delete") remember(change);
+              },
+            },
+            signal
+          );
+        } catch (error) {
+          // The next request sends an expired session back to the login screen.
+          if (signal.aborted || (error instanceof ApiError && error.status === 401)) return;
+        }
+        reconnecting = true;
+        await new Promise((resolve) => window.setTimeout(resolve, retryMs));
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  }, [queryClient]);
+}
+
+/** Records someone else changed in the last few seconds, by id, with who changed them. */
+export function useRecentChanges() {
+  return React.useSyncExternalStore(subscribe, () => recentChanges);
+}
@@ -0,0 +1,47 @@
+import * as React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+/**
+ * A string kept in the query string under `key`, so a refreshed or shared link shows the
+ * same list. The default is left out of the URL, and a value not in `allowed` reads as it.
+ */
+export function useQueryState<T extends string = string>(key: string, defaultValue: NoInfer<T>, allowed?: readonly T[]) {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const raw = searchParams.get(key) as T | null;
+  const value = raw !== null && (!allowed || allowed.includes(raw)) ? raw : defaultValue;
+
+  const setValue = React.useCallback(
+    (next: T) => {
+      // Read from the location rather than from this render, so several updates made
+      // together all survive.
+      const params = new URLSearchParams(window.location.search);
+      if (next === defaultValue || next === "") params.delete(key);
+      else params.set(key, next);
+      const search = params.toString();
+      navigate({ search: search ? `?${search}` : "" }, { replace: true });
+    },
+    [key, defaultValue, navigate]
+  );
+
+  return [value, setValue] as const;
+}
+
+/**
+ * The list page kept in the query string. Any later change to `resetOn`, normally the list's
+ * filters, starts again from the first page; the page in the URL is kept on first render.
+ */
+export function useQueryPage(resetOn: unknown) {
+  const [text, setText] = useQueryState("page", "1");
+  const page = Math.max(1, Number.parseInt(text, 10) || 1);
+  const setPage = React.useCallback((next: number) => setText(String(next)), [setText]);
+
+  const previous = React.useRef(resetOn);
+  React.useEffect(() => {
+    if (previous.current === resetOn) return;
+    previous.current = resetOn;
+    setPage(1);
+  }, [resetOn, setPage]);
+
+  return [page, setPage] as const;
+}
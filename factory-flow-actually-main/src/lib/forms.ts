@@ -0,0 +1,25 @@
+import { ControllerRenderProps, FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from '@/lib/storage';
+
+/**
+ * Shows field-level validation issues returned by the API on the matching form fields.
+ * Issues without a field path are shown as the form's root error.
+ */
+export const applyServerIssues = <T extends FieldValues>(error: unknown, setError: UseFormSetError<T>) => {
+  if (!(error instanceof ApiError)) return;
+  error.issues.forEach(({ path, message }) => {
+    setError((path || 'root') as Path<T>, { type: 'server', message });
+  });
+};
+
+/** Props for a numeric `<Input type="number">` bound to a form field; an empty input is undefined. */
+export const numberField = <T extends FieldValues, N extends Path<T>>({ value, onChange, ...field }: ControllerRenderProps<T, N>) => ({
+  ...field,
+  value: value ?? '',
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange(e.target.value === '' ? undefined : e.target.valueAsNumber),
+});
+
+/** The server's copy of the record when a save was rejected because someone else changed it first. */
+export const staleRecord = <T>(error: unknown): T | undefined =>
+  error instanceof ApiError && error.status === 409 && error.current ? (error.current as T) : undefined;
@@ -0,0 +1,22 @@
+import { ORDER_TRANSITIONS } from '@shared/orderStatus.js';
+import type { OrderStatus } from '@/lib/storage';
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending',
+  'in-progress': 'In Progress',
+  'on-hold': 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const orderStatusStyles: Record<OrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  'in-progress': 'bg-blue-100 text-blue-700',
+  'on-hold': 'bg-orange-100 text-orange-700',
+  completed: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+export const nextOrderStatuses = (status: OrderStatus): OrderStatus[] => ORDER_TRANSITIONS[status] ?? [];
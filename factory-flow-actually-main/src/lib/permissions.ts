@@ -0,0 +1,7 @@
+import { hasPermission, type Action, type Resource } from '@shared/permissions.js';
+import { getCurrentUser } from '@/lib/storage';
+
+export type { Action, Resource };
+
+export const can = (resource: Resource, action: Action): boolean =>
+  hasPermission(getCurrentUser()?.role, resource, action);
@@ -0,0 +1,19 @@
+import { PURCHASE_ORDER_TRANSITIONS } from '@shared/purchaseOrderStatus.js';
+import type { PurchaseOrderStatus } from '@/lib/storage';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  'partially-received': 'Partially Received',
+  received: 'Received',
+};
+
+export const purchaseOrderStatusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  'partially-received': 'bg-yellow-100 text-yellow-700',
+  received: 'bg-green-100 text-green-700',
+};
+
+export const nextPurchaseOrderStatuses = (status: PurchaseOrderStatus): PurchaseOrderStatus[] =>
+  PURCHASE_ORDER_TRANSITIONS[status] ?? [];
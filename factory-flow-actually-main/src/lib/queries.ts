@@ -0,0 +1,556 @@
+import { useEffect } from 'react';
+import { keepPreviousData, QueryClient, QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ApiError,
+  archiveCustomer,
+  archiveMaterial,
+  archiveOrder,
+  archiveProduct,
+  archivePurchaseOrder,
+  archiveSupplier,
+  archiveUser,
+  AuditEntityType,
+  ChangeEvent,
+  createCustomer,
+  createMaterial,
+  createOrder,
+  createProduct,
+  createPurchaseOrder,
+  createSupplier,
+  createUser,
+  Customer,
+  deleteCustomerPermanently,
+  deleteMaterialPermanently,
+  deleteOrderPermanently,
+  deleteProductPermanently,
+  deletePurchaseOrderPermanently,
+  deleteSupplierPermanently,
+  deleteUserPermanently,
+  getCustomer,
+  getCustomers,
+  getMaterial,
+  getMaterialMovements,
+  getMaterialPrices,
+  getMaterials,
+  getOrder,
+  getOrderHistory,
+  getOrders,
+  getProduct,
+  getProducts,
+  getPurchaseOrder,
+  getReorderSuggestions,
+  getRepricePreview,
+  getSupplier,
+  getSuppliers,
+  getUnits,
+  ImportEntity,
+  ImportRequest,
+  importRecords,
+  listAuditLog,
+  listCustomers,
+  listMaterials,
+  listOrders,
+  listProducts,
+  listPurchaseOrders,
+  listSuppliers,
+  listUsers,
+  Material,
+  Order,
+  OrderStatus,
+  Page,
+  Product,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  recordMaterialPrice,
+  receivePurchaseOrder,
+  recordStockMovement,
+  repriceOrder,
+  restoreCustomer,
+  restoreMaterial,
+  restoreOrder,
+  restoreProduct,
+  restorePurchaseOrder,
+  restoreSupplier,
+  restoreUser,
+  Supplier,
+  transitionOrder,
+  transitionPurchaseOrder,
+  updateCustomer,
+  updateMaterial,
+  updateOrder,
+  updateProduct,
+  updatePurchaseOrder,
+  updateSupplier,
+  updateUser,
+  UserInput,
+} from '@/lib/storage';
+
+type ArchiveOption = boolean | 'only';
+type CatalogOptions = { asOf?: string; includeArchived?: boolean };
+
+/**
+ * Cache keys, shared by every page so that one fetch serves them all and one invalidation
+ * reaches them all. Each entity's keys start with its `all` key: `list` holds a server page,
+ * `catalog` a whole array, as `getMaterials` and friends return, and `detail` one record.
+ * A record's histories and previews sit under its entity too, so they go stale with it.
+ */
+export const queryKeys = {
+  users: {
+    all: ['users'] as const,
+    list: (query: Parameters<typeof listUsers>[0]) => ['users', 'list', query] as const,
+  },
+  customers: {
+    all: ['customers'] as const,
+    list: (query: Parameters<typeof listCustomers>[0]) => ['customers', 'list', query] as const,
+    catalog: (options: CatalogOptions = {}) => ['customers', 'catalog', options] as const,
+    detail: (id: string | undefined) => ['customers', 'detail', id] as const,
+  },
+  suppliers: {
+    all: ['suppliers'] as const,
+    list: (query: Parameters<typeof listSuppliers>[0]) => ['suppliers', 'list', query] as const,
+    catalog: (options: CatalogOptions = {}) => ['suppliers', 'catalog', options] as const,
+    detail: (id: string | undefined) => ['suppliers', 'detail', id] as const,
+  },
+  units: {
+    all: ['units'] as const,
+  },
+  materials: {
+    all: ['materials'] as const,
+    list: (query: Parameters<typeof listMaterials>[0]) => ['materials', 'list', query] as const,
+    catalog: (options: CatalogOptions = {}) => ['materials', 'catalog', options] as const,
+    detail: (id: string | undefined) => ['materials', 'detail', id] as const,
+    prices: (id: string | undefined) => ['materials', 'prices', id] as const,
+    movements: (id: string | undefined) => ['materials', 'movements', id] as const,
+    reorderSuggestions: () => ['materials', 'reorder-suggestions'] as const,
+  },
+  products: {
+    all: ['products'] as const,
+    list: (query: Parameters<typeof listProducts>[0]) => ['products', 'list', query] as const,
+    catalog: (options: CatalogOptions = {}) => ['products', 'catalog', options] as const,
+    detail: (id: string | undefined) => ['products', 'detail', id] as const,
+  },
+  orders: {
+    all: ['orders'] as const,
+    list: (query: Parameters<typeof listOrders>[0]) => ['orders', 'list', query] as const,
+    catalog: () => ['orders', 'catalog', {}] as const,
+    detail: (id: string | undefined) => ['orders', 'detail', id] as const,
+    history: (id: string | undefined) => ['orders', 'history', id] as const,
+    repricePreview: (id: string | undefined) => ['orders', 'reprice-preview', id] as const,
+  },
+  purchaseOrders: {
+    all: ['purchaseOrders'] as const,
+    list: (query: Parameters<typeof listPurchaseOrders>[0]) => ['purchaseOrders', 'list', query] as const,
+    detail: (id: string | undefined) => ['purchaseOrders', 'detail', id] as const,
+  },
+  audit: {
+    all: ['audit'] as const,
+    list: (query: Parameters<typeof listAuditLog>[0]) => ['audit', 'list', query] as const,
+  },
+};
+
+// What else a change to each entity can make stale. Product costs and draft order totals
+// are worked out from material costs, and order transitions move stock and customer totals.
+// Receiving a purchase order posts stock and may record new costs, and reorder suggestions
+// weigh stock against what open orders need through their products' BOMs and what is already
+// on order.
+const dependents: Record<Exclude<keyof typeof queryKeys, 'units' | 'audit'>, QueryKey[]> = {
+  users: [queryKeys.users.all],
+  customers: [queryKeys.customers.all, queryKeys.orders.all],
+  suppliers: [queryKeys.suppliers.all, queryKeys.purchaseOrders.all, queryKeys.materials.reorderSuggestions()],
+  materials: [queryKeys.materials.all, queryKeys.products.all, queryKeys.orders.all],
+  products: [queryKeys.products.all, queryKeys.orders.all, queryKeys.materials.reorderSuggestions()],
+  orders: [queryKeys.orders.all, queryKeys.materials.all, queryKeys.customers.all],
+  purchaseOrders: [queryKeys.purchaseOrders.all, queryKeys.materials.all, queryKeys.products.all, queryKeys.orders.all],
+};
+
+// Every change is audited, so the audit log is stale after any of them.
+const invalidateDependents = (queryClient: QueryClient, entity: keyof typeof dependents) =>
+  [...dependents[entity], queryKeys.audit.all].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+
+/** Reports a failed query with a toast. */
+export const useQueryErrorToast = (error: unknown, title: string) => {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!error) return;
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Server error',
+      variant: 'destructive',
+    });
+  }, [error, title, toast]);
+};
+
+const isNotFound = (error: unknown) => error instanceof ApiError && error.status === 404;
+
+/**
+ * One record for a detail page, idle until there is an id. `missing` is set when the server
+ * has no such record; any other failure is reported with a toast.
+ */
+const useRecordQuery = <T>(queryKey: QueryKey, load: (id: string) => Promise<T>, id: string | undefined, label: string) => {
+  const query = useQuery({ queryKey, queryFn: () => load(id ?? ''), enabled: !!id });
+  const missing = isNotFound(query.error);
+  useQueryErrorToast(missing ? null : query.error, `Unable to load ${label}`);
+  return { record: query.data ?? null, missing };
+};
+
+/** The audit log leaves the query idle for users who cannot read users. */
+export const useUserList = (query: Parameters<typeof listUsers>[0], enabled = true) =>
+  useQuery({ queryKey: queryKeys.users.list(query), queryFn: () => listUsers(query), placeholderData: keepPreviousData, enabled });
+
+export const useCustomerList = (query: Parameters<typeof listCustomers>[0]) =>
+  useQuery({ queryKey: queryKeys.customers.list(query), queryFn: () => listCustomers(query), placeholderData: keepPreviousData });
+
+export const useCustomers = (options: CatalogOptions = {}) =>
+  useQuery({ queryKey: queryKeys.customers.catalog(options), queryFn: () => getCustomers(options) });
+
+export const useCustomer = (id: string | undefined) =>
+  useRecordQuery(queryKeys.customers.detail(id), getCustomer, id, 'customer');
+
+export const useSupplierList = (query: Parameters<typeof listSuppliers>[0]) =>
+  useQuery({ queryKey: queryKeys.suppliers.list(query), queryFn: () => listSuppliers(query), placeholderData: keepPreviousData });
+
+export const useSuppliers = (options: CatalogOptions = {}) =>
+  useQuery({ queryKey: queryKeys.suppliers.catalog(options), queryFn: () => getSuppliers(options) });
+
+export const useSupplier = (id: string | undefined) =>
+  useRecordQuery(queryKeys.suppliers.detail(id), getSupplier, id, 'supplier');
+
+export const useUnits = () => useQuery({ queryKey: queryKeys.units.all, queryFn: getUnits });
+
+export const useMaterialList = (query: Parameters<typeof listMaterials>[0]) =>
+  useQuery({ queryKey: queryKeys.materials.list(query), queryFn: () => listMaterials(query), placeholderData: keepPreviousData });
+
+/** Every material; `asOf` prices them at an earlier date and leaves the query idle while empty. */
+export const useMaterials = (options: CatalogOptions = {}, enabled = true) =>
+  useQuery({ queryKey: queryKeys.materials.catalog(options), queryFn: () => getMaterials(options), enabled });
+
+export const useMaterial = (id: string | undefined) =>
+  useRecordQuery(queryKeys.materials.detail(id), getMaterial, id, 'material');
+
+export const useMaterialPrices = (id: string | undefined) =>
+  useQuery({ queryKey: queryKeys.materials.prices(id), queryFn: () => getMaterialPrices(id ?? ''), enabled: !!id });
+
+export const useMaterialMovements = (id: string | undefined) =>
+  useQuery({ queryKey: queryKeys.materials.movements(id), queryFn: () => getMaterialMovements(id ?? ''), enabled: !!id });
+
+export const useProductList = (query: Parameters<typeof listProducts>[0]) =>
+  useQuery({ queryKey: queryKeys.products.list(query), queryFn: () => listProducts(query), placeholderData: keepPreviousData });
+
+export const useProducts = (options: CatalogOptions = {}) =>
+  useQuery({ queryKey: queryKeys.products.catalog(options), queryFn: () => getProducts(options) });
+
+export const useProduct = (id: string | undefined) =>
+  useRecordQuery(queryKeys.products.detail(id), getProduct, id, 'product');
+
+export const useOrderList = (query: Parameters<typeof listOrders>[0]) =>
+  useQuery({ queryKey: queryKeys.orders.list(query), queryFn: () => listOrders(query), placeholderData: keepPreviousData });
+
+export const useOrders = () => useQuery({ queryKey: queryKeys.orders.catalog(), queryFn: getOrders });
+
+export const useOrder = (id: string | undefined) => useRecordQuery(queryKeys.orders.detail(id), getOrder, id, 'order');
+
+export const useOrderHistory = (id: string) =>
+  useQuery({ queryKey: queryKeys.orders.history(id), queryFn: () => getOrderHistory(id) });
+
+// Costs can change at any moment, so a preview is fetched afresh each time it is shown.
+export const useRepricePreview = (id: string | undefined) =>
+  useQuery({ queryKey: queryKeys.orders.repricePreview(id), queryFn: () => getRepricePreview(id ?? ''), enabled: !!id, staleTime: 0 });
+
+/** A supplier's page leaves the query idle for users who cannot read purchase orders. */
+export const usePurchaseOrderList = (query: Parameters<typeof listPurchaseOrders>[0], enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.purchaseOrders.list(query),
+    queryFn: () => listPurchaseOrders(query),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+export const usePurchaseOrder = (id: string | undefined) =>
+  useRecordQuery(queryKeys.purchaseOrders.detail(id), getPurchaseOrder, id, 'purchase order');
+
+export const useAuditLog = (query: Parameters<typeof listAuditLog>[0]) =>
+  useQuery({ queryKey: queryKeys.audit.list(query), queryFn: () => listAuditLog(query), placeholderData: keepPreviousData });
+
+export const useReorderSuggestions = () =>
+  useQuery({ queryKey: queryKeys.materials.reorderSuggestions(), queryFn: getReorderSuggestions });
+
+type CachedRecord = { id: string; archivedAt?: string };
+type RecordPatch<T> = (record: T) => T | null;
+
+// Whether a record belongs in a query made with the given `includeArchived`.
+const inArchiveView = (record: CachedRecord, includeArchived: ArchiveOption | undefined) =>
+  includeArchived === true || (includeArchived === 'only' ? !!record.archivedAt : !record.archivedAt);
+
+// Which of an entity's queries hold its records; histories, previews and suggestions are
+// left to the refetch.
+const recordQueries = new Set<unknown>([undefined, 'list', 'catalog', 'detail']);
+
+/**
+ * Applies `patch` to every cached record under `key`. A patch returns null to drop the
+ * record, and records that no longer match a query's archive view leave it too. A detail
+ * query keeps its record whatever the view; a dropped one is left for the refetch to report.
+ */
+const patchRecords = <T extends CachedRecord>(queryClient: QueryClient, key: QueryKey, patch: RecordPatch<T>) => {
+  for (const [queryKey, data] of queryClient.getQueriesData<Page<T> | T[] | T>({ queryKey: key })) {
+    if (!data || !recordQueries.has(queryKey[1])) continue;
+    if (queryKey[1] === 'detail') {
+      const record = patch(data as T);
+      if (record) queryClient.setQueryData(queryKey, record);
+      continue;
+    }
+    const includeArchived = (queryKey[2] as { includeArchived?: ArchiveOption } | undefined)?.includeArchived;
+    const keep = (record: T | null): record is T => record !== null && inArchiveView(record, includeArchived);
+
+    if (Array.isArray(data)) {
+      queryClient.setQueryData(queryKey, data.map(patch).filter(keep));
+    } else if ('items' in data) {
+      const items = data.items.map(patch).filter(keep);
+      queryClient.setQueryData(queryKey, { ...data, items, total: data.total - (data.items.length - items.length) });
+    }
+  }
+};
+
+const replaceRecord = <T extends CachedRecord>(saved: T): RecordPatch<T> => (record) =>
+  record.id === saved.id ? saved : record;
+
+const archiveRecord = <T extends CachedRecord>(id: string): RecordPatch<T> => (record) =>
+  record.id === id ? { ...record, archivedAt: new Date().toISOString() } : record;
+
+const restoreRecord = <T extends CachedRecord>(id: string): RecordPatch<T> => (record) =>
+  record.id === id ? { ...record, archivedAt: undefined } : record;
+
+const dropRecord = <T extends CachedRecord>(id: string): RecordPatch<T> => (record) =>
+  record.id === id ? null : record;
+
+// Where each audited entity type is cached and what a change to it makes stale.
+const remoteTargets: Record<AuditEntityType, { key?: QueryKey; stale: QueryKey[] }> = {
+  user: { key: queryKeys.users.all, stale: dependents.users },
+  customer: { key: queryKeys.customers.all, stale: dependents.customers },
+  supplier: { key: queryKeys.suppliers.all, stale: dependents.suppliers },
+  unit: { key: queryKeys.units.all, stale: [queryKeys.units.all, ...dependents.materials] },
+  material: { key: queryKeys.materials.all, stale: dependents.materials },
+  product: { key: queryKeys.products.all, stale: dependents.products },
+  order: { key: queryKeys.orders.all, stale: dependents.orders },
+  purchase_order: { key: queryKeys.purchaseOrders.all, stale: dependents.purchaseOrders },
+};
+
+const remotePatches: Record<string, (id: string) => RecordPatch<CachedRecord>> = {
+  archive: archiveRecord,
+  restore: restoreRecord,
+  delete: dropRecord,
+};
+
+/**
+ * Brings the cache up to date with a change made in another tab or by another user. Changes
+ * carry no record, so archiving, restoring and deleting are patched in at once and everything
+ * the change touches is refetched.
+ */
+export const applyRemoteChange = (queryClient: QueryClient, change: ChangeEvent) => {
+  const { key, stale } = remoteTargets[change.entityType] ?? { stale: [] };
+  const patch = remotePatches[change.action];
+  if (key && patch) patchRecords(queryClient, key, patch(change.entityId));
+  [...stale, queryKeys.audit.all].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+};
+
+interface RecordMutationOptions<TVariables, TData, T extends CachedRecord> {
+  entity: keyof typeof dependents;
+  mutationFn: (variables: TVariables) => Promise<TData>;
+  /** The change to show before the server answers. New records have none: where they land depends on the server's sort and paging. */
+  optimistic?: (variables: TVariables) => RecordPatch<T>;
+}
+
+/**
+ * A mutation of one entity's records. The optimistic patch is applied to every cached query of
+ * the entity and rolled back if the request fails; either way, the entity and whatever depends
+ * on it are refetched afterwards.
+ */
+const useRecordMutation = <TVariables, TData, T extends CachedRecord>({
+  entity,
+  mutationFn,
+  optimistic,
+}: RecordMutationOptions<TVariables, TData, T>) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys[entity].all;
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueriesData({ queryKey: key });
+      if (optimistic) patchRecords(queryClient, key, optimistic(variables));
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSuccess: (data) => {
+      // The saved record carries the new version, so it can be edited again before the refetch.
+      if (data && typeof data === 'object' && 'id' in data) patchRecords(queryClient, key, replaceRecord(data as unknown as T));
+    },
+    onSettled: () => invalidateDependents(queryClient, entity),
+  });
+};
+
+export const useCreateUser = () => useRecordMutation({ entity: 'users', mutationFn: createUser });
+
+export const useUpdateUser = () =>
+  useRecordMutation({
+    entity: 'users',
+    mutationFn: updateUser,
+    optimistic: ({ password: _password, ...user }: UserInput) => replaceRecord(user),
+  });
+
+export const useArchiveUser = () =>
+  useRecordMutation({ entity: 'users', mutationFn: archiveUser, optimistic: archiveRecord });
+
+export const useRestoreUser = () =>
+  useRecordMutation({ entity: 'users', mutationFn: restoreUser, optimistic: restoreRecord });
+
+export const useDeleteUser = () =>
+  useRecordMutation({ entity: 'users', mutationFn: deleteUserPermanently, optimistic: dropRecord });
+
+export const useCreateCustomer = () => useRecordMutation({ entity: 'customers', mutationFn: createCustomer });
+
+export const useUpdateCustomer = () =>
+  useRecordMutation({ entity: 'customers', mutationFn: updateCustomer, optimistic: (customer: Customer) => replaceRecord(customer) });
+
+export const useArchiveCustomer = () =>
+  useRecordMutation({ entity: 'customers', mutationFn: archiveCustomer, optimistic: archiveRecord });
+
+export const useRestoreCustomer = () =>
+  useRecordMutation({ entity: 'customers', mutationFn: restoreCustomer, optimistic: restoreRecord });
+
+export const useDeleteCustomer = () =>
+  useRecordMutation({ entity: 'customers', mutationFn: deleteCustomerPermanently, optimistic: dropRecord });
+
+export const useCreateSupplier = () => useRecordMutation({ entity: 'suppliers', mutationFn: createSupplier });
+
+export const useUpdateSupplier = () =>
+  useRecordMutation({ entity: 'suppliers', mutationFn: updateSupplier, optimistic: (supplier: Supplier) => replaceRecord(supplier) });
+
+export const useArchiveSupplier = () =>
+  useRecordMutation({ entity: 'suppliers', mutationFn: archiveSupplier, optimistic: archiveRecord });
+
+export const useRestoreSupplier = () =>
+  useRecordMutation({ entity: 'suppliers', mutationFn: restoreSupplier, optimistic: restoreRecord });
+
+export const useDeleteSupplier = () =>
+  useRecordMutation({ entity: 'suppliers', mutationFn: deleteSupplierPermanently, optimistic: dropRecord });
+
+export const useCreateMaterial = () => useRecordMutation({ entity: 'materials', mutationFn: createMaterial });
+
+export const useUpdateMaterial = () =>
+  useRecordMutation({ entity: 'materials', mutationFn: updateMaterial, optimistic: (material: Material) => replaceRecord(material) });
+
+export const useArchiveMaterial = () =>
+  useRecordMutation({ entity: 'materials', mutationFn: archiveMaterial, optimistic: archiveRecord });
+
+export const useRestoreMaterial = () =>
+  useRecordMutation({ entity: 'materials', mutationFn: restoreMaterial, optimistic: restoreRecord });
+
+export const useDeleteMaterial = () =>
+  useRecordMutation({ entity: 'materials', mutationFn: deleteMaterialPermanently, optimistic: dropRecord });
+
+// Stock and cost are worked out on the server, so these wait for its answer.
+export const useRecordStockMovement = () =>
+  useRecordMutation({
+    entity: 'materials',
+    mutationFn: ({ materialId, ...movement }: { materialId: string } & Parameters<typeof recordStockMovement>[1]) =>
+      recordStockMovement(materialId, movement),
+  });
+
+export const useRecordMaterialPrice = () =>
+  useRecordMutation({
+    entity: 'materials',
+    mutationFn: ({ materialId, ...price }: { materialId: string } & Parameters<typeof recordMaterialPrice>[1]) =>
+      recordMaterialPrice(materialId, price),
+  });
+
+export const useCreateProduct = () => useRecordMutation({ entity: 'products', mutationFn: createProduct });
+
+export const useUpdateProduct = () =>
+  useRecordMutation({ entity: 'products', mutationFn: updateProduct, optimistic: (product: Product) => replaceRecord(product) });
+
+export const useArchiveProduct = () =>
+  useRecordMutation({ entity: 'products', mutationFn: archiveProduct, optimistic: archiveRecord });
+
+export const useRestoreProduct = () =>
+  useRecordMutation({ entity: 'products', mutationFn: restoreProduct, optimistic: restoreRecord });
+
+export const useDeleteProduct = () =>
+  useRecordMutation({ entity: 'products', mutationFn: deleteProductPermanently, optimistic: dropRecord });
+
+export const useCreateOrder = () => useRecordMutation({ entity: 'orders', mutationFn: createOrder });
+
+export const useUpdateOrder = () =>
+  useRecordMutation({ entity: 'orders', mutationFn: updateOrder, optimistic: (order: Order) => replaceRecord(order) });
+
+export const useTransitionOrder = () =>
+  useRecordMutation({
+    entity: 'orders',
+    mutationFn: ({ id, status, version }: { id: string; status: OrderStatus; version: number }) => transitionOrder(id, status, version),
+    optimistic: ({ id, status }): RecordPatch<Order> => (order) => (order.id === id ? { ...order, status } : order),
+  });
+
+export const useCreatePurchaseOrder = () => useRecordMutation({ entity: 'purchaseOrders', mutationFn: createPurchaseOrder });
+
+export const useUpdatePurchaseOrder = () =>
+  useRecordMutation({
+    entity: 'purchaseOrders',
+    mutationFn: updatePurchaseOrder,
+    optimistic: (purchaseOrder: PurchaseOrder) => replaceRecord(purchaseOrder),
+  });
+
+export const useTransitionPurchaseOrder = () =>
+  useRecordMutation({
+    entity: 'purchaseOrders',
+    mutationFn: ({ id, status, version }: { id: string; status: PurchaseOrderStatus; version: number }) =>
+      transitionPurchaseOrder(id, status, version),
+    optimistic: ({ id, status }): RecordPatch<PurchaseOrder> => (purchaseOrder) =>
+      purchaseOrder.id === id ? { ...purchaseOrder, status } : purchaseOrder,
+  });
+
+// Received quantities and any new costs are worked out on the server, so this waits for its answer.
+export const useReceivePurchaseOrder = () =>
+  useRecordMutation({
+    entity: 'purchaseOrders',
+    mutationFn: ({ id, ...receipt }: { id: string } & Parameters<typeof receivePurchaseOrder>[1]) => receivePurchaseOrder(id, receipt),
+  });
+
+export const useArchivePurchaseOrder = () =>
+  useRecordMutation({ entity: 'purchaseOrders', mutationFn: archivePurchaseOrder, optimistic: archiveRecord });
+
+export const useRestorePurchaseOrder = () =>
+  useRecordMutation({ entity: 'purchaseOrders', mutationFn: restorePurchaseOrder, optimistic: restoreRecord });
+
+export const useDeletePurchaseOrder = () =>
+  useRecordMutation({ entity: 'purchaseOrders', mutationFn: deletePurchaseOrderPermanently, optimistic: dropRecord });
+
+// Only a real import changes anything; a dry run is a preview.
+export const useImportRecords = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entity, ...body }: { entity: ImportEntity } & ImportRequest) => importRecords(entity, body),
+    onSuccess: (report, { entity }) => {
+      if (!report.dryRun) invalidateDependents(queryClient, entity);
+    },
+  });
+};
+
+// Repricing is done by the server at current costs, so it waits for the answer.
+export const useRepriceOrder = () =>
+  useRecordMutation({
+    entity: 'orders',
+    mutationFn: ({ id, ...preview }: { id: string } & Parameters<typeof repriceOrder>[1]) => repriceOrder(id, preview),
+  });
+
+export const useArchiveOrder = () =>
+  useRecordMutation({ entity: 'orders', mutationFn: archiveOrder, optimistic: archiveRecord });
+
+export const useRestoreOrder = () =>
+  useRecordMutation({ entity: 'orders', mutationFn: restoreOrder, optimistic: restoreRecord });
+
+export const useDeleteOrder = () =>
+  useRecordMutation({ entity: 'orders', mutationFn: deleteOrderPermanently, optimistic: dropRecord });
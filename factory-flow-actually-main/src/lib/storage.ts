@@ -1,3 +1,5 @@
+import { calculateProductCost } from '@shared/bom.js';
+
 export interface User {
   id: string;
   email: string;
@@ -5,47 +7,410 @@ export interface User {
   surname: string;
   phone: string;
   role: 'admin' | 'manager' | 'employee';
-  password: string;
+  archivedAt?: string;
+  /** Set by the server; updates send back the version they were based on. */
+  version?: number;
+}
+
+export type UserInput = User & { password?: string };
+
+export interface AuthSession {
+  token: string;
+  user: User;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+  archivedAt?: string;
+  version?: number;
+  /** Computed by the server from the customer's orders, leaving out cancelled ones. */
+  orderCount?: number;
+  lifetimeValue?: number;
+  lastOrderAt?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+export type UnitDimension = 'mass' | 'length' | 'count' | 'volume' | 'area';
+
+export interface Unit {
+  code: string;
+  name: string;
+  dimension: UnitDimension;
+  /** What one of this unit is worth in its dimension's base unit (kg, m, pcs, l, m2). */
+  factor: number;
 }
 
 export interface Material {
   id: string;
   name: string;
+  /** Resolved from the price history; set directly only when creating a material. */
   cost: number;
+  /** Unit code; stock and cost are in this unit. */
+  unit: string;
+  stock: number;
+  /** Stock level at or below which the material should be reordered. */
+  reorderPoint?: number;
+  /** Smallest quantity worth ordering at once. */
+  reorderQuantity?: number;
+  /** Stock to keep in reserve; the reorder level when no reorder point is set. */
+  safetyStock?: number;
+  leadTimeDays?: number;
+  createdAt: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+/** A material to reorder, from `GET /api/materials/reorder-suggestions`. */
+export interface ReorderSuggestion {
+  materialId: string;
+  name: string;
   unit: string;
+  unitCost: number;
   stock: number;
+  /** Ordered from suppliers but not yet received, drafts included. */
+  onOrder: number;
+  /** Still needed by pending, in-progress and on-hold orders. */
+  demand: number;
+  projected: number;
+  reorderPoint?: number;
+  safetyStock?: number;
+  leadTimeDays?: number;
+  suggestedQuantity: number;
+  /** The supplier the material was last bought from, if any. */
+  supplierId?: string;
+  supplierName?: string;
+}
+
+export interface MaterialPrice {
+  id: string;
+  materialId: string;
+  cost: number;
+  effectiveFrom: string;
+  supplier?: string;
+  note?: string;
+  userId?: string;
+  userName?: string;
   createdAt: string;
 }
 
+export type StockMovementType = 'receipt' | 'consumption' | 'leftover_return' | 'adjustment' | 'scrap';
+
+export type ManualStockMovementType = Extract<StockMovementType, 'receipt' | 'adjustment' | 'scrap'>;
+
+export interface StockMovement {
+  id: string;
+  materialId: string;
+  type: StockMovementType;
+  quantity: number;
+  orderId?: string;
+  orderNumber?: string;
+  purchaseOrderId?: string;
+  purchaseOrderNumber?: string;
+  userId?: string;
+  userName?: string;
+  note?: string;
+  createdAt: string;
+}
+
+/** A BOM line references either a raw material or a sub-assembly product. */
+export interface BomLine {
+  materialId?: string;
+  productId?: string;
+  quantity: number;
+  /** Unit of a material line's quantity; the material's own unit when unset. */
+  unit?: string;
+  /** Converts `quantity` to the material's unit; set by the server when `unit` is. */
+  factor?: number;
+}
+
 export interface Product {
   id: string;
   name: string;
-  materials: { materialId: string; quantity: number }[];
+  materials: BomLine[];
   createdAt: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+export interface MaterialCost {
+  materialId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+/** Costs are a snapshot taken when the order was confirmed; drafts are priced live. */
+export interface OrderLine {
+  productId: string;
+  quantity: number;
+  unitCost?: number;
+  materialCosts?: MaterialCost[];
 }
 
+export type OrderStatus = 'draft' | 'pending' | 'in-progress' | 'on-hold' | 'completed' | 'cancelled';
+
 export interface Order {
   id: string;
   orderNumber: string;
-  products: { productId: string; quantity: number }[];
-  status: 'pending' | 'in-progress' | 'completed';
+  products: OrderLine[];
+  status: OrderStatus;
   totalCost: number;
   leftovers: { materialId: string; quantity: number }[];
   createdAt: string;
   completedAt?: string;
+  pricedAt?: string;
+  customerId?: string;
+  /** Requested delivery date as `YYYY-MM-DD`. */
+  deliveryDate?: string;
+  notes?: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+export interface RepricePreview {
+  orderId: string;
+  /** The order's version when it was previewed; applying the preview sends it back. */
+  version: number;
+  pricedAt?: string;
+  currentTotal: number;
+  repricedTotal: number;
+  lines: { productId: string; quantity: number; currentUnitCost?: number; repricedUnitCost: number }[];
+}
+
+export interface MaterialRequirement {
+  materialId: string;
+  name: string;
+  unit: string;
+  required: number;
+  onHand: number;
+  shortfall: number;
+}
+
+export interface OrderStatusChange {
+  id: string;
+  orderId: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  userId?: string;
+  userName?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially-received' | 'received';
+
+/** `receivedQuantity` is set by the server as goods arrive. */
+export interface PurchaseOrderLine {
+  materialId: string;
+  quantity: number;
+  unitPrice: number;
+  receivedQuantity?: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName?: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  totalCost: number;
+  /** Expected arrival as `YYYY-MM-DD`. */
+  expectedDate?: string;
+  notes?: string;
+  createdAt: string;
+  sentAt?: string;
+  receivedAt?: string;
+  archivedAt?: string;
+  version?: number;
+}
+
+/** `line` is the index of the purchase order line the goods arrived for. */
+export interface PurchaseReceipt {
+  lines: { line: number; quantity: number }[];
+  note?: string;
+  /** The version of the purchase order the quantities were entered on. */
+  version: number;
+}
+
+export type AuditEntityType = 'user' | 'customer' | 'supplier' | 'unit' | 'material' | 'product' | 'order' | 'purchase_order';
+
+/** One changed field; `null` stands for a field the record did not have. */
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  userId?: string;
+  userName?: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  changes: AuditChange[];
+  ip?: string;
+  createdAt: string;
+}
+
+export type ImportEntity = 'materials' | 'products' | 'orders';
+
+/**
+ * A CSV import. Rows hold the file's cells by field key, as text; `upsert` also updates records
+ * whose name (number, for orders) exists already. A dry run saves nothing.
+ */
+export interface ImportRequest {
+  mode: 'create' | 'upsert';
+  dryRun?: boolean;
+  rows: Record<string, string>[];
+}
+
+/** What an import did, or would do. Issue paths start with the row's index, e.g. `rows.4.cost`. */
+export interface ImportReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  records: { key: string; action: 'create' | 'update'; rows: number[] }[];
+  issues: ValidationIssue[];
+}
+
+export type ExportEntity = 'materials' | 'products' | 'orders';
+
+/**
+ * A CSV export: the list filters and sort, without paging. `delimiter` `;` also writes decimal
+ * commas; `lines` writes one row per order line.
+ */
+export type ExportQuery = Omit<ListQuery<string>, 'page' | 'limit'> & {
+  asOf?: string;
+  status?: OrderStatus[];
+  customerId?: string;
+  delimiter?: ',' | ';';
+  lines?: boolean;
+};
+
+/** A change someone made, pushed by `GET /api/events`; `clientId` names the tab that made it. */
+export interface ChangeEvent {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  userId?: string;
+  userName?: string;
+  clientId?: string;
+  at: string;
 }
 
 const API_BASE = import.meta.env.VITE_API_URL ?? 'http://localhost:4000';
+const SESSION_KEY = 'manufacturing_session';
+
+/** Identifies this tab to the server, so the changes it pushes back can be told apart. */
+export const clientId = crypto.randomUUID();
+
+/** A field the server rejected; `path` is dotted, e.g. `materials.0.quantity`. */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** `current` is the server's copy of a record whose update was rejected as stale (409). */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly issues: ValidationIssue[] = [],
+    readonly current?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const readError = async (response: Response) => {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.error === 'string') {
+      return new ApiError(body.error, response.status, Array.isArray(body.issues) ? body.issues : [], body.current);
+    }
+  } catch {
+    // Not a JSON error body; fall back to the raw text.
+  }
+  return new ApiError(text || `Request failed with status ${response.status}`, response.status);
+};
+
+/** One page of a list endpoint; `total` counts every item matching the filters. */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/** Page size used by the list pages. */
+export const PAGE_SIZE = 24;
+
+/**
+ * `limit: 0` returns every matching item; `from`/`to` are inclusive creation dates.
+ * Archived items are left out unless `includeArchived` is `true`, or `'only'` for just those.
+ */
+export interface ListQuery<TSort extends string> {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sort?: TSort;
+  direction?: 'asc' | 'desc';
+  from?: string;
+  to?: string;
+  includeArchived?: boolean | 'only';
+}
+
+const toQueryString = (query: object) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const text = params.toString();
+  return text ? `?${text}` : '';
+};
 
 const request = async <T>(path: string, options?: RequestInit): Promise<T> => {
+  const token = getAuthToken();
   const response = await fetch(`${API_BASE}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
     ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Id': clientId,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options?.headers,
+    },
   });
 
+  if (response.status === 401 && token) {
+    // The session expired or was revoked; send the user back to the login screen.
+    setCurrentUser(null);
+    window.location.assign('/login');
+  }
+
   if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || `Request failed with status ${response.status}`);
+    throw await readError(response);
   }
 
   if (response.status === 204) {
@@ -55,18 +420,110 @@ const request = async <T>(path: string, options?: RequestInit): Promise<T> => {
   return response.json() as Promise<T>;
 };
 
-export const getUsers = (): Promise<User[]> => request('/api/users');
+export const login = async (email: string, password: string): Promise<AuthSession> => {
+  const session = await request<AuthSession>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  setCurrentUser(session);
+  return session;
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await request('/api/auth/logout', { method: 'POST' });
+  } finally {
+    setCurrentUser(null);
+  }
+};
+
+export const getMe = (): Promise<{ user: User }> => request('/api/auth/me');
+
+export const listUsers = (
+  query: ListQuery<'name' | 'email' | 'role'> & { role?: User['role'] } = {}
+): Promise<Page<User>> => request(`/api/users${toQueryString(query)}`);
+
+export const getUsers = async (): Promise<User[]> => (await listUsers({ limit: 0 })).items;
 
-export const createUser = (user: User): Promise<User> =>
+export const createUser = (user: UserInput): Promise<User> =>
   request('/api/users', { method: 'POST', body: JSON.stringify(user) });
 
-export const updateUser = (user: User): Promise<User> =>
+export const updateUser = (user: UserInput): Promise<User> =>
   request(`/api/users/${user.id}`, { method: 'PUT', body: JSON.stringify(user) });
 
-export const deleteUser = (id: string): Promise<void> =>
+export const archiveUser = (id: string): Promise<void> =>
   request(`/api/users/${id}`, { method: 'DELETE' });
 
-export const getMaterials = (): Promise<Material[]> => request('/api/materials');
+export const restoreUser = (id: string): Promise<User> =>
+  request(`/api/users/${id}/restore`, { method: 'POST' });
+
+/** Only archived users can be deleted permanently. */
+export const deleteUserPermanently = (id: string): Promise<void> =>
+  request(`/api/users/${id}?permanent=true`, { method: 'DELETE' });
+
+export const listCustomers = (
+  query: ListQuery<'name' | 'date' | 'value' | 'orders'> = {}
+): Promise<Page<Customer>> => request(`/api/customers${toQueryString(query)}`);
+
+export const getCustomers = async (options: { includeArchived?: boolean } = {}): Promise<Customer[]> =>
+  (await listCustomers({ ...options, limit: 0 })).items;
+
+export const getCustomer = (id: string): Promise<Customer> => request(`/api/customers/${id}`);
+
+export const createCustomer = (customer: Customer): Promise<Customer> =>
+  request('/api/customers', { method: 'POST', body: JSON.stringify(customer) });
+
+export const updateCustomer = (customer: Customer): Promise<Customer> =>
+  request(`/api/customers/${customer.id}`, { method: 'PUT', body: JSON.stringify(customer) });
+
+export const archiveCustomer = (id: string): Promise<void> =>
+  request(`/api/customers/${id}`, { method: 'DELETE' });
+
+export const restoreCustomer = (id: string): Promise<Customer> =>
+  request(`/api/customers/${id}/restore`, { method: 'POST' });
+
+/** Only archived customers without orders can be deleted permanently. */
+export const deleteCustomerPermanently = (id: string): Promise<void> =>
+  request(`/api/customers/${id}?permanent=true`, { method: 'DELETE' });
+
+export const listSuppliers = (query: ListQuery<'name' | 'date'> = {}): Promise<Page<Supplier>> =>
+  request(`/api/suppliers${toQueryString(query)}`);
+
+export const getSuppliers = async (options: { includeArchived?: boolean } = {}): Promise<Supplier[]> =>
+  (await listSuppliers({ ...options, limit: 0 })).items;
+
+export const getSupplier = (id: string): Promise<Supplier> => request(`/api/suppliers/${id}`);
+
+export const createSupplier = (supplier: Supplier): Promise<Supplier> =>
+  request('/api/suppliers', { method: 'POST', body: JSON.stringify(supplier) });
+
+export const updateSupplier = (supplier: Supplier): Promise<Supplier> =>
+  request(`/api/suppliers/${supplier.id}`, { method: 'PUT', body: JSON.stringify(supplier) });
+
+export const archiveSupplier = (id: string): Promise<void> =>
+  request(`/api/suppliers/${id}`, { method: 'DELETE' });
+
+export const restoreSupplier = (id: string): Promise<Supplier> =>
+  request(`/api/suppliers/${id}/restore`, { method: 'POST' });
+
+/** Only archived suppliers without purchase orders can be deleted permanently. */
+export const deleteSupplierPermanently = (id: string): Promise<void> =>
+  request(`/api/suppliers/${id}?permanent=true`, { method: 'DELETE' });
+
+export const getUnits = (): Promise<Unit[]> => request('/api/units');
+
+export const createUnit = (unit: Unit): Promise<Unit> =>
+  request('/api/units', { method: 'POST', body: JSON.stringify(unit) });
+
+/** `asOf` (an ISO date) returns costs as they stood on that day instead of today. */
+export const listMaterials = (
+  query: ListQuery<'name' | 'cost' | 'stock' | 'date'> & { asOf?: string } = {}
+): Promise<Page<Material>> => request(`/api/materials${toQueryString(query)}`);
+
+export const getMaterials = async (options: { asOf?: string; includeArchived?: boolean } = {}): Promise<Material[]> =>
+  (await listMaterials({ ...options, limit: 0 })).items;
+
+export const getMaterial = (id: string): Promise<Material> => request(`/api/materials/${id}`);
 
 export const createMaterial = (material: Material): Promise<Material> =>
   request('/api/materials', { method: 'POST', body: JSON.stringify(material) });
@@ -74,10 +531,44 @@ export const createMaterial = (material: Material): Promise<Material> =>
 export const updateMaterial = (material: Material): Promise<Material> =>
   request(`/api/materials/${material.id}`, { method: 'PUT', body: JSON.stringify(material) });
 
-export const deleteMaterial = (id: string): Promise<void> =>
+export const archiveMaterial = (id: string): Promise<void> =>
   request(`/api/materials/${id}`, { method: 'DELETE' });
 
-export const getProducts = (): Promise<Product[]> => request('/api/products');
+export const restoreMaterial = (id: string): Promise<Material> =>
+  request(`/api/materials/${id}/restore`, { method: 'POST' });
+
+/** Only archived materials can be deleted permanently. */
+export const deleteMaterialPermanently = (id: string): Promise<void> =>
+  request(`/api/materials/${id}?permanent=true`, { method: 'DELETE' });
+
+export const getReorderSuggestions = (): Promise<ReorderSuggestion[]> =>
+  request('/api/materials/reorder-suggestions');
+
+export const getMaterialMovements = (materialId: string): Promise<StockMovement[]> =>
+  request(`/api/materials/${materialId}/movements`);
+
+export const recordStockMovement = (
+  materialId: string,
+  movement: { type: ManualStockMovementType; quantity: number; note?: string }
+): Promise<Material> =>
+  request(`/api/materials/${materialId}/movements`, { method: 'POST', body: JSON.stringify(movement) });
+
+export const getMaterialPrices = (materialId: string): Promise<MaterialPrice[]> =>
+  request(`/api/materials/${materialId}/prices`);
+
+export const recordMaterialPrice = (
+  materialId: string,
+  price: { cost: number; effectiveFrom?: string; supplier?: string; note?: string }
+): Promise<Material> =>
+  request(`/api/materials/${materialId}/prices`, { method: 'POST', body: JSON.stringify(price) });
+
+export const listProducts = (query: ListQuery<'name' | 'cost' | 'date'> = {}): Promise<Page<Product>> =>
+  request(`/api/products${toQueryString(query)}`);
+
+export const getProducts = async (options: { includeArchived?: boolean } = {}): Promise<Product[]> =>
+  (await listProducts({ ...options, limit: 0 })).items;
+
+export const getProduct = (id: string): Promise<Product> => request(`/api/products/${id}`);
 
 export const createProduct = (product: Product): Promise<Product> =>
   request('/api/products', { method: 'POST', body: JSON.stringify(product) });
@@ -85,10 +576,25 @@ export const createProduct = (product: Product): Promise<Product> =>
 export const updateProduct = (product: Product): Promise<Product> =>
   request(`/api/products/${product.id}`, { method: 'PUT', body: JSON.stringify(product) });
 
-export const deleteProduct = (id: string): Promise<void> =>
+export const archiveProduct = (id: string): Promise<void> =>
   request(`/api/products/${id}`, { method: 'DELETE' });
 
-export const getOrders = (): Promise<Order[]> => request('/api/orders');
+export const restoreProduct = (id: string): Promise<Product> =>
+  request(`/api/products/${id}/restore`, { method: 'POST' });
+
+/** Only archived products can be deleted permanently. */
+export const deleteProductPermanently = (id: string): Promise<void> =>
+  request(`/api/products/${id}?permanent=true`, { method: 'DELETE' });
+
+export const listOrders = ({
+  status,
+  ...query
+}: ListQuery<'number' | 'cost' | 'date' | 'status'> & { status?: OrderStatus[]; customerId?: string } = {}): Promise<Page<Order>> =>
+  request(`/api/orders${toQueryString({ ...query, status: status?.join(',') })}`);
+
+export const getOrders = async (): Promise<Order[]> => (await listOrders({ limit: 0 })).items;
+
+export const getOrder = (id: string): Promise<Order> => request(`/api/orders/${id}`);
 
 export const createOrder = (order: Order): Promise<Order> =>
   request('/api/orders', { method: 'POST', body: JSON.stringify(order) });
@@ -96,19 +602,153 @@ export const createOrder = (order: Order): Promise<Order> =>
 export const updateOrder = (order: Order): Promise<Order> =>
   request(`/api/orders/${order.id}`, { method: 'PUT', body: JSON.stringify(order) });
 
-export const deleteOrder = (id: string): Promise<void> =>
+export const archiveOrder = (id: string): Promise<void> =>
   request(`/api/orders/${id}`, { method: 'DELETE' });
 
-export const getCurrentUser = (): User | null => {
-  const data = localStorage.getItem('manufacturing_current_user');
+export const restoreOrder = (id: string): Promise<Order> =>
+  request(`/api/orders/${id}/restore`, { method: 'POST' });
+
+/** Only archived orders can be deleted permanently. */
+export const deleteOrderPermanently = (id: string): Promise<void> =>
+  request(`/api/orders/${id}?permanent=true`, { method: 'DELETE' });
+
+export const getOrderRequirements = (
+  lines: { productId: string; quantity: number }[]
+): Promise<MaterialRequirement[]> =>
+  request('/api/orders/requirements', { method: 'POST', body: JSON.stringify({ lines }) });
+
+/** `version` is the version of the order the new status was chosen on; a stale one fails with a 409. */
+export const transitionOrder = (id: string, status: OrderStatus, version: number, note?: string): Promise<Order> =>
+  request(`/api/orders/${id}/transitions`, { method: 'POST', body: JSON.stringify({ status, version, note }) });
+
+export const getRepricePreview = (id: string): Promise<RepricePreview> =>
+  request(`/api/orders/${id}/reprice`);
+
+/** Applies a preview; fails with a 409 if the order or the costs behind it changed since. */
+export const repriceOrder = (id: string, preview: Pick<RepricePreview, 'version' | 'repricedTotal'>): Promise<Order> =>
+  request(`/api/orders/${id}/reprice`, {
+    method: 'POST',
+    body: JSON.stringify({ version: preview.version, repricedTotal: preview.repricedTotal }),
+  });
+
+export const getOrderHistory = (id: string): Promise<OrderStatusChange[]> =>
+  request(`/api/orders/${id}/history`);
+
+export const listPurchaseOrders = ({
+  status,
+  ...query
+}: Omit<ListQuery<'expected' | 'date' | 'number' | 'total'>, 'from' | 'to'> & {
+  status?: PurchaseOrderStatus[];
+  supplierId?: string;
+} = {}): Promise<Page<PurchaseOrder>> =>
+  request(`/api/purchase-orders${toQueryString({ ...query, status: status?.join(',') })}`);
+
+export const getPurchaseOrder = (id: string): Promise<PurchaseOrder> => request(`/api/purchase-orders/${id}`);
+
+export const createPurchaseOrder = (purchaseOrder: PurchaseOrder): Promise<PurchaseOrder> =>
+  request('/api/purchase-orders', { method: 'POST', body: JSON.stringify(purchaseOrder) });
+
+export const updatePurchaseOrder = (purchaseOrder: PurchaseOrder): Promise<PurchaseOrder> =>
+  request(`/api/purchase-orders/${purchaseOrder.id}`, { method: 'PUT', body: JSON.stringify(purchaseOrder) });
+
+/** `version` is the version of the purchase order the new status was chosen on; a stale one fails with a 409. */
+export const transitionPurchaseOrder = (id: string, status: PurchaseOrderStatus, version: number): Promise<PurchaseOrder> =>
+  request(`/api/purchase-orders/${id}/transitions`, { method: 'POST', body: JSON.stringify({ status, version }) });
+
+export const receivePurchaseOrder = (id: string, receipt: PurchaseReceipt): Promise<PurchaseOrder> =>
+  request(`/api/purchase-orders/${id}/receipts`, { method: 'POST', body: JSON.stringify(receipt) });
+
+export const archivePurchaseOrder = (id: string): Promise<void> =>
+  request(`/api/purchase-orders/${id}`, { method: 'DELETE' });
+
+export const restorePurchaseOrder = (id: string): Promise<PurchaseOrder> =>
+  request(`/api/purchase-orders/${id}/restore`, { method: 'POST' });
+
+/** Only archived purchase orders nothing has been received against can be deleted permanently. */
+export const deletePurchaseOrderPermanently = (id: string): Promise<void> =>
+  request(`/api/purchase-orders/${id}?permanent=true`, { method: 'DELETE' });
+
+export const listAuditLog = (
+  query: Omit<ListQuery<'date'>, 'search' | 'includeArchived'> & {
+    entityType?: AuditEntityType;
+    entityId?: string;
+    userId?: string;
+    action?: string;
+  } = {}
+): Promise<Page<AuditEntry>> => request(`/api/audit${toQueryString(query)}`);
+
+/** Fails with a 400 listing every issue, and saves nothing, if any row has a problem. */
+export const importRecords = (entity: ImportEntity, body: ImportRequest): Promise<ImportReport> =>
+  request(`/api/import/${entity}`, { method: 'POST', body: JSON.stringify(body) });
+
+/** Downloads every matching record as CSV, under the file name the server gives it. */
+export const downloadExport = async (entity: ExportEntity, { status, ...query }: ExportQuery = {}): Promise<void> => {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE}/api/export/${entity}.csv${toQueryString({ ...query, status: status?.join(',') })}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `${entity}.csv`;
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(await response.blob());
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href));
+};
+
+/**
+ * Calls `onChange` for each change pushed by the server until `signal` aborts or the stream
+ * ends. Read with `fetch` rather than `EventSource`, which cannot send the bearer token.
+ */
+export const streamChanges = async (
+  { onOpen, onChange }: { onOpen?: () => void; onChange: (change: ChangeEvent) => void },
+  signal: AbortSignal
+): Promise<void> => {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE}/api/events`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw await readError(response);
+  }
+  onOpen?.();
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value.replace(/\r\n?/g, '\n');
+    let end;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const lines = buffer.slice(0, end).split('\n');
+      buffer = buffer.slice(end + 2);
+      const event = lines.find((line) => line.startsWith('event:'))?.slice(6).trim();
+      const data = lines.filter((line) => line.startsWith('data:')).map((line) => line.slice(5).trimStart()).join('\n');
+      if (event === 'change' && data) onChange(JSON.parse(data) as ChangeEvent);
+    }
+  }
+};
+
+const getSession = (): AuthSession | null => {
+  const data = localStorage.getItem(SESSION_KEY);
   return data ? JSON.parse(data) : null;
 };
 
-export const setCurrentUser = (user: User | null) => {
-  if (user) {
-    localStorage.setItem('manufacturing_current_user', JSON.stringify(user));
+export const getAuthToken = (): string | null => getSession()?.token ?? null;
+
+export const getCurrentUser = (): User | null => getSession()?.user ?? null;
+
+export const setCurrentUser = (session: AuthSession | null) => {
+  // Older builds stored the full user record, password included, under this key.
+  localStorage.removeItem('manufacturing_current_user');
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ token: session.token, user: session.user }));
   } else {
-    localStorage.removeItem('manufacturing_current_user');
+    localStorage.removeItem(SESSION_KEY);
   }
 };
 
@@ -120,42 +760,8 @@ export const calculateOrderCost = (
   let totalCost = 0;
 
   order.products.forEach(({ productId, quantity }) => {
-    const product = products.find(p => p.id === productId);
-    if (product) {
-      product.materials.forEach(({ materialId, quantity: matQty }) => {
-        const material = materials.find(m => m.id === materialId);
-        if (material) {
-          totalCost += material.cost * matQty * quantity;
-        }
-      });
-    }
+    totalCost += calculateProductCost(productId, products, materials) * quantity;
   });
 
   return totalCost;
 };
-
-export const exportToCSV = (data: Record<string, unknown>[], filename: string) => {
-  if (data.length === 0) return;
-
-  const headers = Object.keys(data[0]);
-  const csvContent = [
-    headers.join(','),
-    ...data.map(row =>
-      headers
-        .map(header => {
-          const value = row[header];
-          if (typeof value === 'string' && value.includes(',')) {
-            return `"${value}"`;
-          }
-          return value;
-        })
-        .join(',')
-    ),
-  ].join('\n');
-
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(blob);
-  link.download = `${filename}_${new Date().toISOString().split('T')[0]}.csv`;
-  link.click();
-};
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Formats a `YYYY-MM-DD` date, read as local midnight rather than UTC so it keeps its day. */
+export function formatDay(day: string) {
+  return new Date(`${day}T00:00`).toLocaleDateString();
+}
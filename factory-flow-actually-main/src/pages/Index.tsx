@@ -1,47 +1,14 @@
-import { useState } from 'react';
-import { LoginPage } from '@/components/LoginPage';
+import { Outlet } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
-import { Dashboard } from '@/components/Dashboard';
-import { OrdersPage } from '@/components/OrdersPage';
-import { ProductsPage } from '@/components/ProductsPage';
-import { MaterialsPage } from '@/components/MaterialsPage';
-import { UsersPage } from '@/components/UsersPage';
-import { getCurrentUser } from '@/lib/storage';
+import { RequireAuth } from '@/components/RouteGuards';
 
-const Index = () => {
-  const [isLoggedIn, setIsLoggedIn] = useState(!!getCurrentUser());
-  const [currentPage, setCurrentPage] = useState('dashboard');
-
-  if (!isLoggedIn) {
-    return <LoginPage onLogin={() => setIsLoggedIn(true)} />;
-  }
-
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'dashboard':
-        return <Dashboard />;
-      case 'orders':
-        return <OrdersPage />;
-      case 'products':
-        return <ProductsPage />;
-      case 'materials':
-        return <MaterialsPage />;
-      case 'users':
-        return <UsersPage />;
-      default:
-        return <Dashboard />;
-    }
-  };
-
-  return (
-    <Layout
-      currentPage={currentPage}
-      onNavigate={setCurrentPage}
-      onLogout={() => setIsLoggedIn(false)}
-    >
-      {renderPage()}
+// The signed-in application: every page is a child route rendered inside the layout.
+const Index = () => (
+  <RequireAuth>
+    <Layout>
+      <Outlet />
     </Layout>
-  );
-};
+  </RequireAuth>
+);
 
 export default Index;
@@ -0,0 +1,18 @@
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { LoginPage } from '@/components/LoginPage';
+import { type LoginRedirectState } from '@/components/RouteGuards';
+import { getCurrentUser } from '@/lib/storage';
+
+const Login = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as LoginRedirectState | null)?.from ?? { pathname: '/', search: '' };
+
+  if (getCurrentUser()) {
+    return <Navigate to={from} replace />;
+  }
+
+  return <LoginPage onLogin={() => navigate(from, { replace: true })} />;
+};
+
+export default Login;